@@ -4,7 +4,7 @@
  * - Expenses tracking and categorization
  * - Vendor management
  * - Vendor bills and payments
- * - Financial reports (AR/AP aging, cash flow, statements)
+ * - Financial reports (AR/AP aging, cash flow, statements, gross margin)
  * - Payment reminder settings
  */
 
@@ -18,6 +18,8 @@ import {
   gte,
   lte,
   inArray,
+  notInArray,
+  isNotNull,
   sum,
   expenses,
   expenseNumberSequence,
@@ -44,12 +46,16 @@ import {
   type InsertPaymentReminderSettings,
   paymentRemindersLog,
   type PaymentReminderLog,
+  type InsertPaymentReminderLog,
+  lateFees,
   invoices,
   payments,
   rentalPayments,
   towRequests,
   users,
+  type DbTransaction,
 } from "./base";
+import { getCogsTotal, getInventoryValuation } from "./inventory.storage";
 
 class AccountingStorage {
   // ============================================================
@@ -166,7 +172,7 @@ class AccountingStorage {
     return `VEN-${String(nextNumber).padStart(4, "0")}`;
   }
 
-  async createVendor(data: InsertVendor): Promise<Vendor> {
+  async createVendor(data: Omit<InsertVendor, "vendorNumber">): Promise<Vendor> {
     const vendorNumber = await this.getNextVendorNumber();
     const [vendor] = await db
       .insert(vendors)
@@ -214,38 +220,40 @@ class AccountingStorage {
   // VENDOR BILLS MANAGEMENT
   // ============================================================
 
-  async getNextVendorBillNumber(): Promise<string> {
+  async getNextVendorBillNumber(tx: DbTransaction): Promise<string> {
     const currentYear = new Date().getFullYear();
+    const [sequence] = await tx
+      .insert(vendorBillNumberSequence)
+      .values({ year: currentYear, lastNumber: 1 })
+      .onConflictDoUpdate({
+        target: vendorBillNumberSequence.year,
+        set: { lastNumber: sql`${vendorBillNumberSequence.lastNumber} + 1` },
+      })
+      .returning();
 
-    const [sequence] = await db
-      .select()
-      .from(vendorBillNumberSequence)
-      .where(eq(vendorBillNumberSequence.year, currentYear))
-      .limit(1);
-
-    if (!sequence) {
-      await db.insert(vendorBillNumberSequence).values({ year: currentYear, lastNumber: 0 });
-      return `BILL-${currentYear}-0001`;
-    }
-
-    const nextNumber = sequence.lastNumber + 1;
-    await db
-      .update(vendorBillNumberSequence)
-      .set({ lastNumber: nextNumber })
-      .where(eq(vendorBillNumberSequence.year, currentYear));
+    return `BILL-${currentYear}-${String(sequence.lastNumber).padStart(4, "0")}`;
+  }
 
-    return `BILL-${currentYear}-${String(nextNumber).padStart(4, "0")}`;
+  async createVendorBill(data: Omit<InsertVendorBill, "billNumber">, lineItems: Omit<InsertVendorBillLineItem, "billId">[]): Promise<VendorBill> {
+    return await db.transaction(async (tx) => this.insertVendorBill(tx, data, lineItems));
   }
 
-  async createVendorBill(data: InsertVendorBill, lineItems: InsertVendorBillLineItem[]): Promise<VendorBill> {
-    const billNumber = await this.getNextVendorBillNumber();
-    const [bill] = await db
+  /**
+   * Create a vendor bill and its line items inside an existing transaction
+   */
+  async insertVendorBill(
+    tx: DbTransaction,
+    data: Omit<InsertVendorBill, "billNumber">,
+    lineItems: Omit<InsertVendorBillLineItem, "billId">[]
+  ): Promise<VendorBill> {
+    const billNumber = await this.getNextVendorBillNumber(tx);
+    const [bill] = await tx
       .insert(vendorBills)
       .values({ ...data, billNumber })
       .returning();
 
     if (lineItems.length > 0) {
-      await db.insert(vendorBillLineItems).values(
+      await tx.insert(vendorBillLineItems).values(
         lineItems.map(item => ({ ...item, billId: bill.id }))
       );
     }
@@ -386,25 +394,38 @@ class AccountingStorage {
   // FINANCIAL REPORTS
   // ============================================================
 
+  /**
+   * Revenue, cost of goods sold and expenses for a period. Parts bought for stock
+   * (parts_inventory expenses) become inventory and reach profit through COGS as they
+   * are used, so they are left out of netProfit to avoid counting them twice.
+   */
   async getFinancialSummary(startDate: Date, endDate: Date): Promise<{
     totalRevenue: number;
+    costOfGoodsSold: number;
+    grossProfit: number;
     totalExpenses: number;
     netProfit: number;
+    inventoryValue: number;
     revenueByServiceType: Record<string, number>;
     expensesByCategory: Record<string, number>;
     expensesByServiceType: Record<string, number>;
   }> {
+    // Tows are invoiced on completion, so towing revenue comes from the invoices they link to
+    const towInvoiceIds = db
+      .select({ id: towRequests.invoiceId })
+      .from(towRequests)
+      .where(isNotNull(towRequests.invoiceId));
+    const paidInPeriod = and(
+      gte(invoices.issueDate, startDate),
+      lte(invoices.issueDate, endDate),
+      inArray(invoices.status, ['paid', 'partially_paid'])
+    );
+
     // Calculate total revenue from invoices
     const invoiceRevenue = await db
       .select({ total: sum(invoices.total) })
       .from(invoices)
-      .where(
-        and(
-          gte(invoices.issueDate, startDate),
-          lte(invoices.issueDate, endDate),
-          inArray(invoices.status, ['paid', 'partially_paid'])
-        )
-      );
+      .where(and(paidInPeriod, notInArray(invoices.id, towInvoiceIds)));
 
     // Calculate rental revenue
     const rentalRevenue = await db
@@ -417,17 +438,11 @@ class AccountingStorage {
         )
       );
 
-    // Calculate towing revenue from completed tow requests
+    // Calculate towing revenue from tow invoices
     const towingRevenue = await db
-      .select({ total: sum(towRequests.totalPrice) })
-      .from(towRequests)
-      .where(
-        and(
-          gte(towRequests.createdAt, startDate),
-          lte(towRequests.createdAt, endDate),
-          eq(towRequests.status, 'completed')
-        )
-      );
+      .select({ total: sum(invoices.total) })
+      .from(invoices)
+      .where(and(paidInPeriod, inArray(invoices.id, towInvoiceIds)));
 
     const totalRevenue =
       Number(invoiceRevenue[0]?.total || 0) +
@@ -447,6 +462,10 @@ class AccountingStorage {
 
     const totalExpenses = Number(expenseSum[0]?.total || 0);
 
+    const costOfGoodsSold = await getCogsTotal(startDate, endDate);
+    const grossProfit = totalRevenue - costOfGoodsSold;
+    const inventoryValuation = await getInventoryValuation(endDate);
+
     // Revenue by service type
     const revenueByServiceType: Record<string, number> = {
       repair_services: Number(invoiceRevenue[0]?.total || 0),
@@ -498,10 +517,15 @@ class AccountingStorage {
       }
     });
 
+    const operatingExpenses = totalExpenses - (expensesByCategory.parts_inventory || 0);
+
     return {
       totalRevenue,
+      costOfGoodsSold,
+      grossProfit,
       totalExpenses,
-      netProfit: totalRevenue - totalExpenses,
+      netProfit: grossProfit - operatingExpenses,
+      inventoryValue: Number(inventoryValuation.totalValue),
       revenueByServiceType,
       expensesByCategory,
       expensesByServiceType,
@@ -775,6 +799,23 @@ class AccountingStorage {
       )
       .orderBy(desc(payments.paymentDate));
 
+    // Get late fees applied in date range (including waived/void for transparency)
+    const lateFeeHistory = await db
+      .select({
+        lateFee: lateFees,
+        invoiceNumber: invoices.invoiceNumber,
+      })
+      .from(lateFees)
+      .leftJoin(invoices, eq(lateFees.invoiceId, invoices.id))
+      .where(
+        and(
+          eq(lateFees.customerId, customerId),
+          gte(lateFees.appliedDate, start),
+          lte(lateFees.appliedDate, end)
+        )
+      )
+      .orderBy(desc(lateFees.appliedDate));
+
     // Calculate account summary
     const totalInvoiced = allInvoices.reduce(
       (sum, inv) => sum + parseFloat(inv.total),
@@ -784,6 +825,9 @@ class AccountingStorage {
       (sum, inv) => sum + parseFloat(inv.amountPaid || "0"),
       0
     );
+    const totalLateFees = lateFeeHistory
+      .filter(({ lateFee }) => lateFee.status === "applied" || lateFee.status === "paid")
+      .reduce((sum, { lateFee }) => sum + parseFloat(lateFee.feeAmount), 0);
     const outstandingBalance = outstandingInvoices.reduce(
       (sum, inv) => sum + (parseFloat(inv.total) - parseFloat(inv.amountPaid || "0")),
       0
@@ -852,6 +896,7 @@ class AccountingStorage {
       accountSummary: {
         totalInvoiced,
         totalPaid,
+        totalLateFees,
         outstandingBalance,
       },
       aging,
@@ -865,6 +910,16 @@ class AccountingStorage {
         invoiceNumber: ph.invoice?.invoiceNumber,
         invoiceId: ph.invoice?.id,
       })),
+      lateFees: lateFeeHistory.map(({ lateFee, invoiceNumber }) => ({
+        lateFeeId: lateFee.id,
+        invoiceId: lateFee.invoiceId,
+        invoiceNumber,
+        appliedDate: lateFee.appliedDate,
+        feeAmount: lateFee.feeAmount,
+        daysOverdue: lateFee.daysOverdue,
+        status: lateFee.status,
+        waivedReason: lateFee.waivedReason,
+      })),
       allInvoices: allInvoices.map((inv) => ({
         invoiceId: inv.id,
         invoiceNumber: inv.invoiceNumber,
@@ -936,6 +991,33 @@ class AccountingStorage {
       .where(conditions.length > 0 ? and(...conditions) : undefined)
       .orderBy(desc(paymentRemindersLog.sentAt));
   }
+
+  /**
+   * Claim a reminder stage for an invoice before it is sent
+   * Returns the pending log row, or undefined when the stage was already sent or another run
+   * is sending it; a stage whose last attempt failed can be claimed again
+   */
+  async claimPaymentReminder(data: InsertPaymentReminderLog): Promise<PaymentReminderLog | undefined> {
+    const [log] = await db
+      .insert(paymentRemindersLog)
+      .values({ ...data, status: "pending" })
+      .onConflictDoUpdate({
+        target: [paymentRemindersLog.invoiceId, paymentRemindersLog.reminderType],
+        set: { ...data, status: "pending", errorMessage: null },
+        setWhere: eq(paymentRemindersLog.status, "failed"),
+      })
+      .returning();
+    return log;
+  }
+
+  async updatePaymentReminderLog(id: string, data: Partial<InsertPaymentReminderLog>): Promise<PaymentReminderLog | undefined> {
+    const [log] = await db
+      .update(paymentRemindersLog)
+      .set(data)
+      .where(eq(paymentRemindersLog.id, id))
+      .returning();
+    return log;
+  }
 }
 
 // Export singleton instance
@@ -3,6 +3,8 @@
  * 
  * This is a lightweight server designed for Railway deployment that serves
  * only the REST API endpoints without the frontend or Socket.io chat server.
+ * Real-time updates (chat, tow tracking, job cards, badges) are streamed over
+ * Server-Sent Events at GET /api/events instead.
  * 
  * Usage: NODE_ENV=production tsx server/api-server.ts
  */
@@ -12,6 +14,7 @@ import cors from "cors";
 import { registerRoutes } from "./routes";
 import { log } from "./vite";
 import { validateJwtConfig } from "./jwtUtils";
+import { startScheduledJobs } from "./jobScheduler";
 
 // Validate JWT configuration at startup
 validateJwtConfig();
@@ -117,6 +120,9 @@ app.get('/api', (_req, res) => {
         invoices: 'GET /api/invoices',
         loyalty: 'GET /api/loyalty/points',
       },
+      realtime: {
+        events: 'GET /api/events (Server-Sent Events)',
+      },
     },
   });
 });
@@ -159,5 +165,8 @@ app.get('/api', (_req, res) => {
     log(`📱 Mobile API ready at http://0.0.0.0:${port}/api`);
     log(`❤️  Health check at http://0.0.0.0:${port}/health`);
     log(`Environment: ${process.env.NODE_ENV || 'development'}`);
+
+    // Start background jobs (late fees, ...)
+    void startScheduledJobs();
   });
 })();
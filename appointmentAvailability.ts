@@ -0,0 +1,150 @@
+/**
+ * Appointment Availability Engine
+ *
+ * Works out which appointment start times are bookable from appointmentSettings:
+ * - Per-day open/close times (days that are not enabled are closed)
+ * - Appointment length from the requested services' estimatedDurationMinutes in
+ *   serviceCatalog (defaultDurationMinutes for services without one)
+ * - Bookings only from today up to maxAdvanceBookingDays ahead, never in the past
+ * - Enough free bays and mechanics on shift, with bufferTimeMinutes kept free after
+ *   every job (see shopCapacity)
+ *
+ * Opening hours are interpreted in the settings' timezone. The same checks back the
+ * availability endpoint and the validation of new, rescheduled and approved appointments,
+ * which check and save under withShopDayLock so concurrent bookings can't share a slot.
+ */
+
+import { storage } from "./storage";
+import type { AppointmentSettings } from "@shared/schema";
+import { addDays, getDayName, getZonedDateString } from "./businessHours";
+import { getCapacityConflict, getServiceDurationMinutes, loadShopDay, type ShopDay } from "./shopCapacity";
+
+export { getAppointmentServices, getServiceDurationMinutes, withShopDayLock } from "./shopCapacity";
+
+const SLOT_INTERVAL_MINUTES = 30;
+const MINUTE_MS = 60 * 1000;
+
+export interface AvailabilitySlot {
+  start: Date;
+  end: Date;
+}
+
+export interface DayAvailability {
+  date: string;
+  timezone: string;
+  open: boolean;
+  durationMinutes: number;
+  slots: AvailabilitySlot[];
+  reason?: string;
+}
+
+export interface SlotCheck {
+  available: boolean;
+  reason?: string;
+  end?: Date; // End of the booked window when available
+}
+
+interface AvailabilityOptions {
+  excludeAppointmentId?: string;
+  bayId?: string | null;
+  now?: Date;
+}
+
+/**
+ * Why nothing can be booked on a date, or undefined if the date is bookable
+ */
+function getClosedReason(date: string, settings: AppointmentSettings, day: ShopDay, now: Date): string | undefined {
+  const today = getZonedDateString(now, settings.timezone);
+  if (date < today) {
+    return "Date is in the past";
+  }
+  if (date > addDays(today, settings.maxAdvanceBookingDays)) {
+    return `Appointments can only be booked up to ${settings.maxAdvanceBookingDays} days ahead`;
+  }
+  if (!day.hours) {
+    const dayName = getDayName(date);
+    return `Closed on ${dayName.charAt(0).toUpperCase()}${dayName.slice(1)}`;
+  }
+  return undefined;
+}
+
+/**
+ * Why an appointment of durationMinutes cannot start at `start`, or undefined if it can
+ */
+function getSlotConflict(
+  start: Date,
+  durationMinutes: number,
+  day: ShopDay,
+  now: Date,
+  bayId?: string | null
+): string | undefined {
+  const end = new Date(start.getTime() + durationMinutes * MINUTE_MS);
+
+  if (start < now) {
+    return "Time is in the past";
+  }
+  if (!day.hours || start < day.hours.start || end > day.hours.end) {
+    return "Time is outside business hours";
+  }
+  return getCapacityConflict(day, { start, end }, { bayId });
+}
+
+/**
+ * Bookable start times on a date (YYYY-MM-DD, in the settings' timezone) for a set of services
+ */
+export async function getAvailability(
+  date: string,
+  services: string[],
+  options: AvailabilityOptions = {}
+): Promise<DayAvailability> {
+  const now = options.now ?? new Date();
+  const settings = await storage.getAppointmentSettings();
+  const durationMinutes = await getServiceDurationMinutes(services, settings);
+  const result: DayAvailability = { date, timezone: settings.timezone, open: false, durationMinutes, slots: [] };
+
+  const day = await loadShopDay(date, { settings, excludeAppointmentId: options.excludeAppointmentId });
+  const closedReason = getClosedReason(date, settings, day, now);
+  if (closedReason || !day.hours) {
+    return { ...result, reason: closedReason };
+  }
+
+  result.open = true;
+  for (
+    let start = day.hours.start.getTime();
+    start + durationMinutes * MINUTE_MS <= day.hours.end.getTime();
+    start += SLOT_INTERVAL_MINUTES * MINUTE_MS
+  ) {
+    const slotStart = new Date(start);
+    if (!getSlotConflict(slotStart, durationMinutes, day, now, options.bayId)) {
+      result.slots.push({ start: slotStart, end: new Date(start + durationMinutes * MINUTE_MS) });
+    }
+  }
+  return result;
+}
+
+/**
+ * Check whether an appointment for these services can start at scheduledDate
+ * Pass excludeAppointmentId when moving an existing appointment so it doesn't conflict with itself
+ */
+export async function checkAppointmentSlot(
+  scheduledDate: Date,
+  services: string[],
+  options: AvailabilityOptions = {}
+): Promise<SlotCheck> {
+  if (isNaN(scheduledDate.getTime())) {
+    return { available: false, reason: "Invalid date" };
+  }
+
+  const now = options.now ?? new Date();
+  const settings = await storage.getAppointmentSettings();
+  const durationMinutes = await getServiceDurationMinutes(services, settings);
+  const date = getZonedDateString(scheduledDate, settings.timezone);
+
+  const day = await loadShopDay(date, { settings, excludeAppointmentId: options.excludeAppointmentId });
+  const conflict = getClosedReason(date, settings, day, now)
+    ?? getSlotConflict(scheduledDate, durationMinutes, day, now, options.bayId);
+  if (conflict) {
+    return { available: false, reason: conflict };
+  }
+  return { available: true, end: new Date(scheduledDate.getTime() + durationMinutes * MINUTE_MS) };
+}
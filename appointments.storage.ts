@@ -6,10 +6,17 @@
 import {
   db,
   eq,
+  and,
   desc,
+  gte,
+  lt,
+  ne,
+  inArray,
   appointments,
+  serviceCatalog,
   type Appointment,
   type InsertAppointment,
+  type ServiceCatalog,
 } from "./base";
 
 // Appointments CRUD Operations
@@ -36,3 +43,32 @@ export async function updateAppointment(id: string, appointment: Partial<InsertA
   const result = await db.update(appointments).set(appointment).where(eq(appointments.id, id)).returning();
   return result[0];
 }
+
+// Availability Lookups
+
+/**
+ * Get non-cancelled appointments starting in [start, end), optionally skipping one (e.g., the one being rescheduled)
+ */
+export async function getBookedAppointmentsInRange(start: Date, end: Date, excludeAppointmentId?: string): Promise<Appointment[]> {
+  const conditions = [
+    gte(appointments.scheduledDate, start),
+    lt(appointments.scheduledDate, end),
+    ne(appointments.status, "cancelled"),
+  ];
+  if (excludeAppointmentId) {
+    conditions.push(ne(appointments.id, excludeAppointmentId));
+  }
+
+  return await db
+    .select()
+    .from(appointments)
+    .where(and(...conditions))
+    .orderBy(appointments.scheduledDate);
+}
+
+export async function getServiceCatalogByNames(names: string[]): Promise<ServiceCatalog[]> {
+  if (names.length === 0) {
+    return [];
+  }
+  return await db.select().from(serviceCatalog).where(inArray(serviceCatalog.name, names));
+}
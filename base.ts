@@ -8,19 +8,30 @@ import { db } from "../db";
 // Re-export the database client for use in all storage modules
 export { db };
 
+// Transaction handle passed to helpers that must run inside a caller's transaction
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
 // Re-export all schema tables and types that are commonly used
 export {
   // Tables
   users,
   vehicles,
+  serviceCatalog,
+  serviceBays,
+  mechanicShifts,
+  mechanicTimeOff,
   appointments,
   jobCards,
   partsInventory,
   jobCardParts,
+  stockMovements,
+  cogsEntries,
+  partReservations,
   jobCardTasks,
   approvalRequests,
   customerNotes,
   emailCampaigns,
+  campaignRecipients,
   coupons,
   loyaltyPointsTransactions,
   loyaltySettings,
@@ -42,6 +53,7 @@ export {
   notificationPreferences,
   notificationHistory,
   badgeCounts,
+  badgeItems,
   emailVerificationTokens,
   passwordResetTokens,
   emailSettings,
@@ -61,6 +73,7 @@ export {
   towRequests,
   towPricingZones,
   towRequestLocations,
+  towRequestStatusHistory,
   towRequestSequence,
   chatConversations,
   chatMessages,
@@ -82,11 +95,22 @@ export {
   vendors,
   vendorBills,
   vendorBillLineItems,
+  purchaseOrders,
+  purchaseOrderNumberSequence,
+  purchaseOrderLines,
   vendorPayments,
   expenses,
   expenseNumberSequence,
   paymentReminderSettings,
   paymentRemindersLog,
+  taxRates,
+  taxCollected,
+  taxRemittances,
+  lateFeeSettings,
+  lateFees,
+  scheduledJobRuns,
+  paymentPlans,
+  paymentPlanInstallments,
   leads,
   leadActivities,
   customerTags,
@@ -106,6 +130,13 @@ export {
   type UpsertUser,
   type Vehicle,
   type InsertVehicle,
+  type ServiceCatalog,
+  type ServiceBay,
+  type InsertServiceBay,
+  type MechanicShift,
+  type MechanicShiftInput,
+  type MechanicTimeOff,
+  type InsertMechanicTimeOff,
   type Appointment,
   type InsertAppointment,
   type JobCard,
@@ -116,12 +147,19 @@ export {
   type InsertPart,
   type JobCardPart,
   type InsertJobCardPart,
+  type StockMovement,
+  type InsertStockMovement,
+  type CogsEntry,
+  type PartReservation,
+  type InsertPartReservation,
   type ApprovalRequest,
   type InsertApprovalRequest,
   type CustomerNote,
   type InsertCustomerNote,
   type EmailCampaign,
   type InsertEmailCampaign,
+  type CampaignRecipient,
+  type InsertCampaignRecipient,
   type Coupon,
   type InsertCoupon,
   type LoyaltyPointsTransaction,
@@ -190,6 +228,8 @@ export {
   type InsertCustomerTagAssignment,
   type CustomerSegment,
   type InsertCustomerSegment,
+  type SegmentFilter,
+  type SegmentFilterCondition,
   type RentalVehicle,
   type InsertRentalVehicle,
   type RentalExtra,
@@ -218,6 +258,8 @@ export {
   type InsertTowRequest,
   type TowRequestLocation,
   type InsertTowRequestLocation,
+  type TowRequestStatusHistory,
+  type InsertTowRequestStatusHistory,
   type Expense,
   type InsertExpense,
   type UpdateExpense,
@@ -227,12 +269,32 @@ export {
   type InsertVendorBill,
   type VendorBillLineItem,
   type InsertVendorBillLineItem,
+  type PurchaseOrder,
+  type PurchaseOrderLine,
+  type PurchaseOrderLineInput,
+  type InsertPurchaseOrder,
+  type PurchaseOrderReceipt,
   type VendorPayment,
   type InsertVendorPayment,
   type PaymentReminderSettings,
   type InsertPaymentReminderSettings,
   type PaymentReminderLog,
   type InsertPaymentReminderLog,
+  type TaxRate,
+  type InsertTaxRate,
+  type TaxCollected,
+  type InsertTaxCollected,
+  type TaxRemittance,
+  type InsertTaxRemittance,
+  type LateFeeSettings,
+  type InsertLateFeeSettings,
+  type LateFee,
+  type ScheduledJobRun,
+  type InsertLateFee,
+  type PaymentPlan,
+  type InsertPaymentPlan,
+  type PaymentPlanInstallment,
+  type InsertPaymentPlanInstallment,
   type AppointmentSettings,
   type InsertAppointmentSettings,
   type PaymentGatewaySettings,
@@ -245,9 +307,12 @@ export {
   type UserPermissionOverride,
   type PermissionAuditLog,
   type NotificationPreferences,
+  type InsertNotificationPreferences,
+  type UpdateNotificationPreferences,
   type NotificationHistory,
+  type InsertNotificationHistory,
   type BadgeCounts,
 } from "@shared/schema";
 
 // Re-export commonly used Drizzle ORM functions
-export { eq, and, or, desc, asc, sql, gte, lte, like, ilike, inArray, notInArray, isNull, isNotNull, count, sum } from "drizzle-orm";
+export { eq, ne, and, or, desc, asc, sql, gt, gte, lt, lte, like, ilike, inArray, notInArray, isNull, isNotNull, count, sum } from "drizzle-orm";
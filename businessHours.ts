@@ -0,0 +1,143 @@
+/**
+ * Business Hours Helpers
+ *
+ * Settings store opening hours as wall-clock "HH:MM" strings per weekday, meant in
+ * the shop's configured timezone (not the server's). These helpers convert between
+ * those local dates/times and real instants.
+ */
+
+import type { AppointmentSettings, ChatSettings } from "@shared/schema";
+
+export const DAY_NAMES = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"] as const;
+export type DayName = typeof DAY_NAMES[number];
+
+export interface TimeWindow {
+  start: Date;
+  end: Date;
+}
+
+// ============================================================
+// TIMEZONE HELPERS
+// ============================================================
+
+/**
+ * Wall-clock date and time parts of an instant in the given timezone
+ */
+export function getZonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+  const get = (type: string) => parseInt(parts.find(part => part.type === type)?.value || "0");
+  return { year: get("year"), month: get("month"), day: get("day"), hour: get("hour"), minute: get("minute"), second: get("second") };
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in the given timezone
+ */
+export function getZonedDateString(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * The instant at which the wall-clock time (HH:MM) occurs on a date in the given timezone
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Correct by the zone's offset, twice to settle across DST changes
+  let result = wallClock;
+  for (let i = 0; i < 2; i++) {
+    const zoned = getZonedParts(new Date(result), timeZone);
+    const zonedAsUtc = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute, zoned.second);
+    result += wallClock - zonedAsUtc;
+  }
+  return new Date(result);
+}
+
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * Weekday of a calendar date (0 = Sunday)
+ */
+export function getDayOfWeek(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+export function getDayName(date: string): DayName {
+  return DAY_NAMES[getDayOfWeek(date)];
+}
+
+// ============================================================
+// APPOINTMENT HOURS
+// ============================================================
+
+/**
+ * Appointment opening hours on a date, or null if the shop is closed that day
+ */
+export function getAppointmentHours(settings: AppointmentSettings, date: string): TimeWindow | null {
+  const dayName = getDayName(date);
+  if (!settings[`${dayName}Enabled`]) {
+    return null;
+  }
+  return {
+    start: zonedTimeToUtc(date, settings[`${dayName}OpenTime`], settings.timezone),
+    end: zonedTimeToUtc(date, settings[`${dayName}CloseTime`], settings.timezone),
+  };
+}
+
+// ============================================================
+// CHAT HOURS
+// ============================================================
+
+/**
+ * Chat support hours on a date, or null if chat is unstaffed that day
+ */
+export function getChatHours(settings: ChatSettings, date: string): TimeWindow | null {
+  const dayName = getDayName(date);
+  if (!settings[`${dayName}Enabled`]) {
+    return null;
+  }
+  return {
+    start: zonedTimeToUtc(date, settings[`${dayName}OpenTime`], settings.timezone),
+    end: zonedTimeToUtc(date, settings[`${dayName}CloseTime`], settings.timezone),
+  };
+}
+
+/**
+ * Whether chat is staffed at an instant; always true when hours checking is off
+ */
+export function isChatOpen(settings: ChatSettings, at: Date = new Date()): boolean {
+  if (!settings.isEnabled) {
+    return true;
+  }
+  const hours = getChatHours(settings, getZonedDateString(at, settings.timezone));
+  return !!hours && at >= hours.start && at < hours.end;
+}
+
+/**
+ * When chat next opens after an instant, looking a week ahead; null if no day has hours
+ */
+export function getNextChatOpening(settings: ChatSettings, after: Date = new Date()): Date | null {
+  const today = getZonedDateString(after, settings.timezone);
+  for (let offset = 0; offset <= 7; offset++) {
+    const hours = getChatHours(settings, addDays(today, offset));
+    if (hours && hours.start > after) {
+      return hours.start;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,290 @@
+/**
+ * Email Campaign Sender
+ *
+ * Sends an email campaign to its resolved audience (explicit recipients, a customer
+ * segment, tags and/or recipientFilter - see marketingStorage.getCampaignAudience).
+ * A campaign without any of these is only sent when targetAllCustomers is set:
+ * - Customers who opted out of marketing are never emailed
+ * - Each recipient gets a campaignRecipients row recording delivery status
+ * - Every email carries a personal unsubscribe link ({{unsubscribeUrl}}) and
+ *   List-Unsubscribe headers for one-click unsubscribe (RFC 8058)
+ *
+ * Sending happens in the background. queueCampaign() resolves the audience and
+ * stores one pending row per recipient; the dispatcher (every minute, from the job
+ * scheduler) queues due scheduled campaigns and works through pending rows in
+ * throttled batches. Because progress lives in campaignRecipients, a restart simply
+ * resumes where it left off, and pausing or cancelling takes effect between emails.
+ *
+ * CAMPAIGN_BATCH_SIZE (default 50) and CAMPAIGN_SEND_DELAY_MS (default 500) control
+ * the batch size per campaign per run and the pause between emails.
+ */
+
+import { randomBytes } from "crypto";
+import { storage } from "./storage";
+import { sendCampaignEmail } from "./email";
+import { hasCampaignTargeting } from "./storage/marketing.storage";
+import type { EmailCampaign, User } from "@shared/schema";
+
+export interface CampaignAudiencePreview {
+  total: number;
+  optedOut: number;
+  missingEmail: number;
+  sample: Array<{ id: string; name: string; email: string }>;
+}
+
+export interface CampaignQueueResult {
+  queued: number;
+  optedOut: number;
+  missingEmail: number;
+}
+
+export function getUnsubscribeUrl(token: string): string {
+  return `${process.env.BASE_URL || "http://localhost:5000"}/api/campaigns/unsubscribe/${token}`;
+}
+
+function getCustomerName(customer: User): string {
+  return [customer.firstName, customer.lastName].filter(Boolean).join(" ");
+}
+
+/**
+ * Count who a campaign would reach without sending anything
+ */
+export async function previewCampaignAudience(campaign: EmailCampaign): Promise<CampaignAudiencePreview> {
+  const audience = await storage.getCampaignAudience(campaign);
+  return {
+    total: audience.recipients.length,
+    optedOut: audience.optedOut,
+    missingEmail: audience.missingEmail,
+    sample: audience.recipients.slice(0, 10).map(customer => ({
+      id: customer.id,
+      name: getCustomerName(customer),
+      email: customer.email!,
+    })),
+  };
+}
+
+/**
+ * Send one recipient's email and record the outcome on their campaignRecipients row
+ */
+async function deliverToRecipient(
+  campaign: EmailCampaign,
+  recipient: { id: string; email: string; unsubscribeToken: string },
+  customer: User
+): Promise<boolean> {
+  // Get customer's vehicles for personalization
+  const vehicles = await storage.getVehiclesByCustomer(customer.id);
+  const primaryVehicle = vehicles[0];
+  const fullName = getCustomerName(customer);
+  const unsubscribeUrl = getUnsubscribeUrl(recipient.unsubscribeToken);
+
+  // Templates without an unsubscribe placeholder get a standard footer
+  const htmlTemplate = campaign.htmlContent.includes("{{unsubscribeUrl}}")
+    ? campaign.htmlContent
+    : `${campaign.htmlContent}<p style="font-size: 12px; color: #6c757d;"><a href="{{unsubscribeUrl}}">Unsubscribe</a> from these emails.</p>`;
+  const plainTextTemplate = campaign.plainText && !campaign.plainText.includes("{{unsubscribeUrl}}")
+    ? `${campaign.plainText}\n\nUnsubscribe: {{unsubscribeUrl}}`
+    : campaign.plainText || undefined;
+
+  const result = await sendCampaignEmail({
+    to: recipient.email,
+    subject: campaign.subject,
+    htmlTemplate,
+    plainTextTemplate,
+    headers: {
+      "List-Unsubscribe": `<${unsubscribeUrl}>`,
+      "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+    },
+    personalizationData: {
+      customerName: fullName || recipient.email,
+      firstName: customer.firstName || "Valued Customer",
+      lastName: customer.lastName || "",
+      email: recipient.email,
+      phone: customer.phone || "",
+      accountNumber: customer.accountNumber || "",
+      vehicleMake: primaryVehicle?.make || "",
+      vehicleModel: primaryVehicle?.model || "",
+      vehicleYear: primaryVehicle?.year ? Number(primaryVehicle.year) : undefined,
+      lastVisitDate: "",
+      unsubscribeUrl,
+    },
+  });
+
+  await storage.updateCampaignRecipient(recipient.id, {
+    status: result.success ? "sent" : "failed",
+    messageId: result.messageId,
+    errorMessage: result.error,
+    sentAt: result.success ? new Date() : undefined,
+  });
+  return result.success;
+}
+
+const BATCH_SIZE = parseInt(process.env.CAMPAIGN_BATCH_SIZE || "50");
+const SEND_DELAY_MS = parseInt(process.env.CAMPAIGN_SEND_DELAY_MS || "500");
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Resolve a campaign's audience, store a pending row per recipient and mark it sending
+ */
+export async function queueCampaign(campaign: EmailCampaign): Promise<CampaignQueueResult> {
+  if (!hasCampaignTargeting(campaign)) {
+    throw new Error("Campaign has no audience; choose recipients, a segment, tags or a filter, or target all customers");
+  }
+
+  const audience = await storage.getCampaignAudience(campaign);
+  await storage.addCampaignRecipients(audience.recipients.map(customer => ({
+    campaignId: campaign.id,
+    customerId: customer.id,
+    email: customer.email!,
+    status: "pending",
+    unsubscribeToken: randomBytes(24).toString("hex"),
+  })));
+  await storage.updateEmailCampaignDelivery(campaign.id, { status: "sending" });
+
+  return {
+    queued: audience.recipients.length,
+    optedOut: audience.optedOut,
+    missingEmail: audience.missingEmail,
+  };
+}
+
+/**
+ * Record final counts and mark the campaign sent (or failed if nothing went out)
+ */
+async function finishCampaign(campaignId: string, status?: string): Promise<void> {
+  const counts = await storage.getCampaignRecipientCounts(campaignId);
+  const sentCount = counts.sent || 0;
+  const failedCount = counts.failed || 0;
+
+  await storage.updateEmailCampaignDelivery(campaignId, {
+    status: status ?? (sentCount > 0 || failedCount === 0 ? "sent" : "failed"),
+    sentCount,
+    failedCount,
+    sentAt: sentCount > 0 ? new Date() : undefined,
+  });
+}
+
+/**
+ * Send the next batch of pending recipients for a campaign that is sending
+ * Stops early if the campaign is paused or cancelled; returns the number of emails attempted
+ */
+export async function sendCampaignBatch(campaignId: string, batchSize: number = BATCH_SIZE): Promise<number> {
+  const pending = await storage.getCampaignRecipients(campaignId, "pending", batchSize);
+  if (pending.length === 0) {
+    await finishCampaign(campaignId);
+    return 0;
+  }
+
+  let attempted = 0;
+  for (const recipient of pending) {
+    // Re-read so pause/cancel take effect mid-batch
+    const campaign = await storage.getEmailCampaign(campaignId);
+    if (!campaign || campaign.status !== "sending") break;
+
+    const customer = await storage.getUser(recipient.customerId);
+    if (!customer || customer.marketingOptOut) {
+      await storage.updateCampaignRecipient(recipient.id, {
+        status: "failed",
+        errorMessage: customer ? "Customer opted out" : "Customer not found",
+      });
+      continue;
+    }
+
+    try {
+      await deliverToRecipient(campaign, recipient, customer);
+    } catch (error: any) {
+      console.error(`Error sending campaign ${campaignId} to ${recipient.email}:`, error);
+      await storage.updateCampaignRecipient(recipient.id, {
+        status: "failed",
+        errorMessage: error.message || "Unknown error",
+      });
+    }
+    attempted++;
+    await sleep(SEND_DELAY_MS);
+  }
+
+  // Keep the campaign's counters current while it sends
+  const counts = await storage.getCampaignRecipientCounts(campaignId);
+  if (counts.pending) {
+    await storage.updateEmailCampaignDelivery(campaignId, {
+      sentCount: counts.sent || 0,
+      failedCount: counts.failed || 0,
+    });
+  } else if ((await storage.getEmailCampaign(campaignId))?.status === "sending") {
+    await finishCampaign(campaignId);
+  }
+
+  return attempted;
+}
+
+/**
+ * Pause a scheduled or sending campaign
+ */
+export async function pauseCampaign(campaign: EmailCampaign): Promise<void> {
+  if (campaign.status !== "scheduled" && campaign.status !== "sending") {
+    throw new Error(`Cannot pause a campaign that is ${campaign.status}`);
+  }
+  await storage.updateEmailCampaignDelivery(campaign.id, { status: "paused" });
+}
+
+/**
+ * Resume a paused campaign: back to sending if recipients were queued, otherwise to scheduled
+ */
+export async function resumeCampaign(campaign: EmailCampaign): Promise<string> {
+  if (campaign.status !== "paused") {
+    throw new Error(`Cannot resume a campaign that is ${campaign.status}`);
+  }
+  const counts: Record<string, number> = await storage.getCampaignRecipientCounts(campaign.id);
+  const hasQueue = Object.values(counts).some((n: number) => n > 0);
+  const status = hasQueue ? "sending" : "scheduled";
+  await storage.updateEmailCampaignDelivery(campaign.id, { status });
+  return status;
+}
+
+/**
+ * Cancel a campaign; recipients not yet emailed are marked cancelled
+ */
+export async function cancelCampaign(campaign: EmailCampaign): Promise<void> {
+  if (["sent", "failed", "cancelled"].includes(campaign.status)) {
+    throw new Error(`Cannot cancel a campaign that is ${campaign.status}`);
+  }
+  await storage.updateEmailCampaignDelivery(campaign.id, { status: "cancelled" });
+  await storage.cancelPendingCampaignRecipients(campaign.id);
+  await finishCampaign(campaign.id, "cancelled");
+}
+
+let dispatching = false;
+
+/**
+ * Queue scheduled campaigns that are due, then send a batch for every sending campaign
+ * Concurrent calls in the same process are skipped so no recipient is emailed twice
+ */
+export async function runCampaignDispatcher(asOf: Date = new Date()): Promise<{ queued: number; emailsAttempted: number }> {
+  const result = { queued: 0, emailsAttempted: 0 };
+  if (dispatching) return result;
+
+  dispatching = true;
+  try {
+    for (const campaign of await storage.getDueScheduledCampaigns(asOf)) {
+      if (!hasCampaignTargeting(campaign)) {
+        console.error(`Scheduled campaign ${campaign.id} has no audience; marking it failed`);
+        await storage.updateEmailCampaignDelivery(campaign.id, { status: "failed" });
+        continue;
+      }
+      try {
+        await queueCampaign(campaign);
+        result.queued++;
+      } catch (error) {
+        console.error(`Error queueing scheduled campaign ${campaign.id}:`, error);
+      }
+    }
+
+    for (const campaign of await storage.getEmailCampaignsByStatus("sending")) {
+      result.emailsAttempted += await sendCampaignBatch(campaign.id);
+    }
+  } finally {
+    dispatching = false;
+  }
+
+  return result;
+}
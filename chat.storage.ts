@@ -11,6 +11,7 @@
 import {
   db,
   eq,
+  ne,
   and,
   or,
   desc,
@@ -19,6 +20,8 @@ import {
   gte,
   lte,
   inArray,
+  isNull,
+  isNotNull,
   chatConversations,
   chatMessages,
   chatAssignments,
@@ -149,6 +152,59 @@ export class ChatStorage {
     return updated;
   }
 
+  /**
+   * Active conversations waiting for an agent, oldest first
+   */
+  async getQueuedChatConversations(): Promise<ChatConversation[]> {
+    return await db
+      .select()
+      .from(chatConversations)
+      .where(and(
+        eq(chatConversations.status, "active"),
+        isNull(chatConversations.assignedStaffId)
+      ))
+      .orderBy(asc(chatConversations.queuedAt), asc(chatConversations.createdAt));
+  }
+
+  /**
+   * Agent who handled the customer's most recent earlier conversation
+   */
+  async getPreviousChatAgent(customerId: string, excludeConversationId: string): Promise<string | undefined> {
+    const [previous] = await db
+      .select({ staffId: chatConversations.assignedStaffId })
+      .from(chatConversations)
+      .where(and(
+        eq(chatConversations.customerId, customerId),
+        ne(chatConversations.id, excludeConversationId),
+        isNotNull(chatConversations.assignedStaffId)
+      ))
+      .orderBy(desc(chatConversations.lastMessageAt))
+      .limit(1);
+    return previous?.staffId ?? undefined;
+  }
+
+  /**
+   * Assign a conversation only if nobody has picked it up yet; returns undefined if already assigned
+   */
+  async assignQueuedChatConversation(conversationId: string, staffId: string, assignmentMethod: string): Promise<ChatConversation | undefined> {
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(chatConversations)
+        .set({ assignedStaffId: staffId, assignmentMethod })
+        .where(and(
+          eq(chatConversations.id, conversationId),
+          isNull(chatConversations.assignedStaffId)
+        ))
+        .returning();
+      if (!updated) {
+        return undefined;
+      }
+
+      await tx.insert(chatAssignments).values({ conversationId, staffId });
+      return updated;
+    });
+  }
+
   // ========================================
   // CHAT MESSAGE METHODS
   // ========================================
@@ -177,6 +233,23 @@ export class ChatStorage {
       .where(eq(chatMessages.id, messageId));
   }
 
+  /**
+   * Mark every unread message in a conversation from the other side as read
+   * (staff read the customer's messages and vice versa); returns the ids marked
+   */
+  async markConversationMessagesRead(conversationId: string, readerType: "customer" | "staff"): Promise<string[]> {
+    const marked = await db
+      .update(chatMessages)
+      .set({ readAt: new Date() })
+      .where(and(
+        eq(chatMessages.conversationId, conversationId),
+        isNull(chatMessages.readAt),
+        ne(chatMessages.senderType, readerType)
+      ))
+      .returning({ id: chatMessages.id });
+    return marked.map(message => message.id);
+  }
+
   // ========================================
   // CHAT QUICK RESPONSE METHODS
   // ========================================
@@ -323,6 +396,25 @@ export class ChatStorage {
       .where(eq(chatAgentStatus.userId, userId));
   }
 
+  /**
+   * Take one chat slot from an available agent with spare capacity; false if they're full
+   */
+  async claimAgentChatSlot(userId: string): Promise<boolean> {
+    const claimed = await db
+      .update(chatAgentStatus)
+      .set({
+        currentChatCount: sql`${chatAgentStatus.currentChatCount} + 1`,
+        lastActivityAt: new Date(),
+      })
+      .where(and(
+        eq(chatAgentStatus.userId, userId),
+        eq(chatAgentStatus.status, "available"),
+        sql`${chatAgentStatus.currentChatCount} < ${chatAgentStatus.maxConcurrentChats}`
+      ))
+      .returning({ userId: chatAgentStatus.userId });
+    return claimed.length > 0;
+  }
+
   async decrementAgentChatCount(userId: string): Promise<void> {
     await db
       .update(chatAgentStatus)
@@ -0,0 +1,106 @@
+/**
+ * Chat After-Hours Handling
+ *
+ * When a customer writes outside the chat hours in chatSettings (only checked when
+ * isEnabled is on):
+ * - The closedMessage is posted as a system message, once until staff reply
+ * - An unassigned conversation is queued for the next opening (queuedAt), so routing and
+ *   wait-time escalation start when the team is back rather than overnight
+ * - An anonymous visitor who left an email or phone is captured as a lead (source "chat"),
+ *   linked from the conversation so it is only created once
+ */
+
+import { storage } from "./storage";
+import type { ChatConversation, ChatMessage, Lead } from "@shared/schema";
+import { getNextChatOpening, isChatOpen } from "./businessHours";
+import { publish } from "./realtime";
+
+export interface ChatContactDetails {
+  name?: string;
+  email?: string;
+  phone?: string;
+}
+
+export interface AfterHoursResult {
+  open: boolean;
+  conversation: ChatConversation;
+  nextOpening?: Date | null;
+  systemMessage?: ChatMessage;
+  lead?: Lead;
+}
+
+async function postClosedMessage(conversation: ChatConversation, closedMessage: string): Promise<ChatMessage | undefined> {
+  // Skip if the last reply the customer got is already the closed message
+  const messages = await storage.getChatMessages(conversation.id);
+  const lastReply = messages.filter(message => message.senderType !== "customer").pop();
+  if (lastReply?.senderType === "system" && lastReply.message === closedMessage) {
+    return undefined;
+  }
+
+  const systemMessage = await storage.createChatMessage({
+    conversationId: conversation.id,
+    senderId: "system",
+    senderType: "system",
+    senderName: "Auto-reply",
+    message: closedMessage,
+  });
+  publish(`chat:${conversation.id}`, "chat.message", systemMessage);
+  return systemMessage;
+}
+
+async function captureLead(conversation: ChatConversation, message: string, contact: ChatContactDetails): Promise<Lead | undefined> {
+  if (conversation.customerId || conversation.leadId || (!contact.email && !contact.phone)) {
+    return undefined;
+  }
+
+  const [firstName, ...rest] = (contact.name?.trim() || "Chat Visitor").split(/\s+/);
+  const lead = await storage.createLead({
+    firstName,
+    lastName: rest.join(" ") || "-",
+    email: contact.email || null,
+    phone: contact.phone || null,
+    source: "chat",
+    notes: message,
+    customFields: { chatConversationId: conversation.id, chatSessionId: conversation.sessionId },
+  });
+
+  await storage.createLeadActivity({
+    leadId: lead.id,
+    activityType: "note",
+    subject: "Lead created",
+    description: "Lead captured from an after-hours chat",
+  });
+  return lead;
+}
+
+/**
+ * Check a new customer message against chat hours and handle it if chat is closed
+ */
+export async function handleAfterHoursMessage(
+  conversation: ChatConversation,
+  message: string,
+  contact: ChatContactDetails = {},
+  now: Date = new Date()
+): Promise<AfterHoursResult> {
+  const settings = await storage.getChatSettings();
+  if (isChatOpen(settings, now)) {
+    return { open: true, conversation };
+  }
+
+  const nextOpening = getNextChatOpening(settings, now);
+  const updates: Partial<ChatConversation> = {};
+  if (!conversation.assignedStaffId && nextOpening && (!conversation.queuedAt || conversation.queuedAt < nextOpening)) {
+    updates.queuedAt = nextOpening;
+  }
+
+  const systemMessage = await postClosedMessage(conversation, settings.closedMessage);
+  const lead = await captureLead(conversation, message, contact);
+  if (lead) {
+    updates.leadId = lead.id;
+  }
+
+  if (Object.keys(updates).length > 0) {
+    conversation = await storage.updateChatConversation(conversation.id, updates);
+  }
+  return { open: false, conversation, nextOpening, systemMessage, lead };
+}
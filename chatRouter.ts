@@ -0,0 +1,162 @@
+/**
+ * Chat Auto-Routing
+ *
+ * Assigns queued (active, unassigned) conversations to agents per chatRoutingSettings:
+ * - Only agents whose status is "available" and who are below maxConcurrentChats
+ * - Returning customers go back to the agent of their previous conversation when
+ *   returnCustomerRouting is on (or the method is return_customer) and that agent has room
+ * - Otherwise round_robin rotates through the agents with room using roundRobinIndex,
+ *   least_busy picks the agent with the fewest open chats; manual_claim never auto-assigns
+ * - Conversations waiting longer than maxWaitTimeMinutes are escalated to high priority,
+ *   and to urgent after twice that; the queue is served by priority, then by wait time
+ *
+ * Conversations started after hours are queued for the next opening (see chatAfterHours) and
+ * are left alone until then.
+ *
+ * Routing runs when a conversation is created, when an agent becomes available or frees a
+ * slot, and every minute from the job scheduler (which also applies escalation).
+ */
+
+import { storage } from "./storage";
+import type { ChatAgentStatus, ChatConversation, ChatRoutingSettings } from "@shared/schema";
+import { publish, publishToRoles } from "./realtime";
+
+const MINUTE_MS = 60 * 1000;
+const PRIORITY_ORDER: Record<string, number> = { urgent: 0, high: 1, normal: 2 };
+
+let routing = false;
+
+function hasCapacity(agent: ChatAgentStatus): boolean {
+  return agent.currentChatCount < agent.maxConcurrentChats;
+}
+
+/**
+ * Agents to try for a conversation, best first, with the method that picked them
+ */
+async function rankAgents(
+  conversation: ChatConversation,
+  settings: ChatRoutingSettings
+): Promise<Array<{ agent: ChatAgentStatus; method: string }>> {
+  const agents = (await storage.getAvailableAgents()).filter(hasCapacity);
+  if (agents.length === 0) {
+    return [];
+  }
+
+  const ranked: Array<{ agent: ChatAgentStatus; method: string }> = [];
+  if (conversation.customerId && (settings.returnCustomerRouting || settings.assignmentMethod === "return_customer")) {
+    const previousAgentId = await storage.getPreviousChatAgent(conversation.customerId, conversation.id);
+    const previous = agents.find(agent => agent.userId === previousAgentId);
+    if (previous) {
+      ranked.push({ agent: previous, method: "auto_return_customer" });
+    }
+  }
+
+  if (settings.assignmentMethod === "round_robin") {
+    const ordered = [...agents].sort((a, b) => a.userId.localeCompare(b.userId));
+    const start = (await storage.incrementRoundRobinIndex()) % ordered.length;
+    for (let i = 0; i < ordered.length; i++) {
+      ranked.push({ agent: ordered[(start + i) % ordered.length], method: "auto_round_robin" });
+    }
+  } else {
+    // least_busy, and the fallback for return_customer
+    const ordered = [...agents].sort((a, b) =>
+      a.currentChatCount - b.currentChatCount || a.lastActivityAt.getTime() - b.lastActivityAt.getTime()
+    );
+    ranked.push(...ordered.map(agent => ({ agent, method: "auto_least_busy" })));
+  }
+
+  return ranked.filter((entry, index) => ranked.findIndex(other => other.agent.userId === entry.agent.userId) === index);
+}
+
+/**
+ * Try to assign one queued conversation; returns it assigned, or undefined if it stays queued
+ */
+export async function routeConversation(
+  conversation: ChatConversation,
+  settings?: ChatRoutingSettings
+): Promise<ChatConversation | undefined> {
+  const routingSettings = settings ?? await storage.getChatRoutingSettings();
+  if (!routingSettings.autoAssignEnabled || routingSettings.assignmentMethod === "manual_claim" || conversation.assignedStaffId) {
+    return undefined;
+  }
+  // After-hours chats are queued for the next opening
+  if (conversation.queuedAt && conversation.queuedAt > new Date()) {
+    return undefined;
+  }
+
+  for (const { agent, method } of await rankAgents(conversation, routingSettings)) {
+    // Claim a slot first so two routers can't overfill the same agent
+    if (!(await storage.claimAgentChatSlot(agent.userId))) {
+      continue;
+    }
+
+    const assigned = await storage.assignQueuedChatConversation(conversation.id, agent.userId, method);
+    if (!assigned) {
+      // Someone else took the conversation meanwhile
+      await storage.decrementAgentChatCount(agent.userId);
+      return undefined;
+    }
+
+    const event = { conversationId: assigned.id, assignedStaffId: agent.userId, assignmentMethod: method };
+    publish(`chat:${assigned.id}`, "chat.assigned", event);
+    publish(`user:${agent.userId}`, "chat.assigned", event);
+    return assigned;
+  }
+  return undefined;
+}
+
+/**
+ * Escalate long waits, then assign queued conversations while agents have room
+ */
+export async function routeQueuedConversations(now: Date = new Date()): Promise<{ assigned: number; escalated: number; queued: number }> {
+  const result = { assigned: 0, escalated: 0, queued: 0 };
+  if (routing) {
+    return result;
+  }
+
+  routing = true;
+  try {
+    const settings = await storage.getChatRoutingSettings();
+    const queue: ChatConversation[] = [];
+
+    for (const conversation of await storage.getQueuedChatConversations()) {
+      const waitMinutes = (now.getTime() - (conversation.queuedAt ?? conversation.createdAt).getTime()) / MINUTE_MS;
+      const priority = waitMinutes >= settings.maxWaitTimeMinutes * 2 ? "urgent"
+        : waitMinutes >= settings.maxWaitTimeMinutes ? "high"
+        : conversation.priority;
+
+      if (PRIORITY_ORDER[priority] < PRIORITY_ORDER[conversation.priority]) {
+        const escalated: ChatConversation | undefined = await storage.updateChatConversation(conversation.id, { priority });
+        if (!escalated) {
+          // Deleted since the queue was read
+          continue;
+        }
+        queue.push(escalated);
+        result.escalated++;
+        publishToRoles(["admin", "manager"], "chat.escalated", {
+          conversationId: conversation.id,
+          priority,
+          waitMinutes: Math.floor(waitMinutes),
+        });
+      } else {
+        queue.push(conversation);
+      }
+    }
+
+    queue.sort((a, b) =>
+      PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority]
+      || (a.queuedAt ?? a.createdAt).getTime() - (b.queuedAt ?? b.createdAt).getTime()
+    );
+
+    for (const conversation of queue) {
+      if (await routeConversation(conversation, settings)) {
+        result.assigned++;
+      } else {
+        result.queued++;
+      }
+    }
+  } finally {
+    routing = false;
+  }
+  return result;
+}
@@ -3,7 +3,7 @@
  * Handles all database operations related to CRM functionality:
  * - Leads and lead activities
  * - Customer tags and tag assignments
- * - Customer segments
+ * - Customer segments (filter evaluation and member counts)
  */
 
 import {
@@ -13,12 +13,19 @@ import {
   or,
   desc,
   ilike,
+  inArray,
+  sql,
+  count,
   leads,
   leadActivities,
   customerTags,
   customerTagAssignments,
   customerSegments,
   users,
+  invoices,
+  appointments,
+  vehicles,
+  loyaltyPointsTransactions,
   type Lead,
   type InsertLead,
   type LeadActivity,
@@ -31,7 +38,160 @@ import {
   type InsertCustomerSegment,
   type User,
   type InsertUser,
+  type SegmentFilter,
+  type SegmentFilterCondition,
 } from "./base";
+import { segmentFilterSchema } from "@shared/schema";
+import type { SQL } from "drizzle-orm";
+import { searchCustomers, type CustomerFilters } from "./users.storage";
+
+// Filter keys stored as ISO strings in segment filterConfig JSON
+const SEGMENT_DATE_FILTERS = [
+  "visitDateFrom", "visitDateTo",
+  "registrationDateFrom", "registrationDateTo",
+  "lastActivityFrom", "lastActivityTo",
+] as const;
+
+/**
+ * Convert a segment's stored filterConfig back into CustomerFilters
+ */
+export function parseSegmentFilters(filterConfig: unknown): CustomerFilters {
+  const filters: Record<string, any> = { ...((filterConfig as Record<string, any>) || {}) };
+  for (const key of SEGMENT_DATE_FILTERS) {
+    if (filters[key]) {
+      filters[key] = new Date(filters[key]);
+    }
+  }
+  return filters as CustomerFilters;
+}
+
+/**
+ * Whether a filterConfig uses the segment filter language ({ match, conditions })
+ * rather than the older customer-list filters
+ */
+export function isSegmentFilter(filterConfig: unknown): boolean {
+  return !!filterConfig && Array.isArray((filterConfig as Record<string, any>).conditions);
+}
+
+function compareNumeric(expression: SQL, op: "eq" | "gt" | "gte" | "lt" | "lte", value: number): SQL {
+  switch (op) {
+    case "eq": return sql`${expression} = ${value}`;
+    case "gt": return sql`${expression} > ${value}`;
+    case "gte": return sql`${expression} >= ${value}`;
+    case "lt": return sql`${expression} < ${value}`;
+    case "lte": return sql`${expression} <= ${value}`;
+  }
+}
+
+function compileSegmentCondition(condition: SegmentFilterCondition): SQL {
+  switch (condition.field) {
+    case "lifetimeSpend":
+      return compareNumeric(
+        sql`COALESCE((SELECT SUM(${invoices.total}) FROM ${invoices} WHERE ${invoices.customerId} = ${users.id} AND ${invoices.status} = 'paid'), 0)`,
+        condition.op,
+        condition.value
+      );
+
+    case "outstandingBalance":
+      return compareNumeric(
+        sql`COALESCE((SELECT SUM(${invoices.total} - COALESCE(${invoices.paidAmount}, 0)) FROM ${invoices} WHERE ${invoices.customerId} = ${users.id} AND ${invoices.status} IN ('sent', 'overdue', 'partially_paid')), 0)`,
+        condition.op,
+        condition.value
+      );
+
+    case "loyaltyPoints":
+      return compareNumeric(
+        sql`COALESCE((SELECT SUM(${loyaltyPointsTransactions.points}) FROM ${loyaltyPointsTransactions} WHERE ${loyaltyPointsTransactions.customerId} = ${users.id}), 0)`,
+        condition.op,
+        condition.value
+      );
+
+    case "lastVisitDate": {
+      // Visits already made: upcoming and cancelled appointments don't count
+      const lastVisit = sql`(SELECT MAX(${appointments.scheduledDate}) FROM ${appointments} WHERE ${appointments.customerId} = ${users.id} AND ${appointments.status} <> 'cancelled' AND ${appointments.scheduledDate} <= NOW())`;
+      if (condition.op === "before" || condition.op === "after") {
+        if (typeof condition.value !== "string") {
+          throw new Error(`lastVisitDate ${condition.op} needs a date`);
+        }
+        const date = new Date(condition.value);
+        return condition.op === "before" ? sql`${lastVisit} < ${date}` : sql`${lastVisit} > ${date}`;
+      }
+      if (typeof condition.value !== "number") {
+        throw new Error(`lastVisitDate ${condition.op} needs a number of days`);
+      }
+      const since = new Date(Date.now() - condition.value * 24 * 60 * 60 * 1000);
+      return condition.op === "withinDays"
+        ? sql`${lastVisit} >= ${since}`
+        : sql`(${lastVisit} IS NULL OR ${lastVisit} < ${since})`;
+    }
+
+    case "vehicleMake": {
+      const makes = condition.value.map(make => make.toLowerCase());
+      const hasMake = sql`EXISTS (SELECT 1 FROM ${vehicles} WHERE ${vehicles.customerId} = ${users.id} AND ${inArray(sql`LOWER(${vehicles.make})`, makes)})`;
+      return condition.op === "in" ? hasMake : sql`NOT ${hasMake}`;
+    }
+
+    case "vehicleYear":
+      return sql`EXISTS (SELECT 1 FROM ${vehicles} WHERE ${vehicles.customerId} = ${users.id} AND ${compareNumeric(sql`${vehicles.year}`, condition.op, condition.value)})`;
+
+    case "tags": {
+      const taggedWith = sql`(SELECT COUNT(DISTINCT ${customerTagAssignments.tagId}) FROM ${customerTagAssignments} WHERE ${customerTagAssignments.customerId} = ${users.id} AND ${inArray(customerTagAssignments.tagId, condition.value)})`;
+      if (condition.op === "hasAll") {
+        return sql`${taggedWith} = ${new Set(condition.value).size}`;
+      }
+      return condition.op === "hasAny" ? sql`${taggedWith} > 0` : sql`${taggedWith} = 0`;
+    }
+
+    case "customerType":
+      return eq(users.customerType, condition.value);
+  }
+}
+
+/**
+ * Compile a segment filter into a WHERE clause over the users table (active customers only)
+ */
+export function compileSegmentFilter(filter: SegmentFilter): SQL {
+  const isCustomer = and(eq(users.role, "customer"), eq(users.isActive, true))!;
+  if (filter.conditions.length === 0) {
+    return isCustomer;
+  }
+
+  const compiled = filter.conditions.map(compileSegmentCondition);
+  const combined = filter.match === "any" ? or(...compiled)! : and(...compiled)!;
+  return and(isCustomer, combined)!;
+}
+
+/**
+ * A customer as returned from segment evaluation (no password hash)
+ */
+export type SegmentMember = Omit<User, "password">;
+
+const segmentMemberColumns = {
+  id: users.id,
+  email: users.email,
+  emailVerified: users.emailVerified,
+  firstName: users.firstName,
+  lastName: users.lastName,
+  profileImageUrl: users.profileImageUrl,
+  role: users.role,
+  customerType: users.customerType,
+  accountNumber: users.accountNumber,
+  phone: users.phone,
+  address: users.address,
+  billingEmail: users.billingEmail,
+  ccEmail: users.ccEmail,
+  permissions: users.permissions,
+  reviewRequestsEnabled: users.reviewRequestsEnabled,
+  marketingOptOut: users.marketingOptOut,
+  isActive: users.isActive,
+  pushToken: users.pushToken,
+  referralCode: users.referralCode,
+  paymentTerms: users.paymentTerms,
+  creditLimit: users.creditLimit,
+  laborCostRate: users.laborCostRate,
+  createdAt: users.createdAt,
+  updatedAt: users.updatedAt,
+};
 
 export class CrmStorage {
   // ========================================
@@ -277,11 +437,13 @@ export class CrmStorage {
         ccEmail: users.ccEmail,
         permissions: users.permissions,
         reviewRequestsEnabled: users.reviewRequestsEnabled,
+        marketingOptOut: users.marketingOptOut,
         isActive: users.isActive,
         pushToken: users.pushToken,
         referralCode: users.referralCode,
         paymentTerms: users.paymentTerms,
         creditLimit: users.creditLimit,
+        laborCostRate: users.laborCostRate,
         createdAt: users.createdAt,
         updatedAt: users.updatedAt,
       })
@@ -292,6 +454,21 @@ export class CrmStorage {
     return result;
   }
 
+  /**
+   * Get IDs of customers carrying any of the given tags
+   */
+  async getCustomerIdsByTags(tagIds: string[]): Promise<string[]> {
+    if (tagIds.length === 0) {
+      return [];
+    }
+
+    const rows = await db
+      .selectDistinct({ customerId: customerTagAssignments.customerId })
+      .from(customerTagAssignments)
+      .where(inArray(customerTagAssignments.tagId, tagIds));
+    return rows.map(row => row.customerId);
+  }
+
   // ========================================
   // CUSTOMER SEGMENTS METHODS
   // ========================================
@@ -346,6 +523,70 @@ export class CrmStorage {
     await db.delete(customerSegments).where(eq(customerSegments.id, id));
   }
 
+  /**
+   * Resolve the customers matching a filterConfig
+   * Accepts the segment filter language or the older customer-list filters
+   */
+  async evaluateSegmentFilter(filterConfig: unknown): Promise<SegmentMember[]> {
+    if (isSegmentFilter(filterConfig)) {
+      const filter = segmentFilterSchema.parse(filterConfig);
+      return await db
+        .select(segmentMemberColumns)
+        .from(users)
+        .where(compileSegmentFilter(filter))
+        .orderBy(users.lastName, users.firstName);
+    }
+    const customers = await searchCustomers("", parseSegmentFilters(filterConfig));
+    return customers.map(({ password, ...customer }) => customer);
+  }
+
+  async countSegmentFilterMatches(filterConfig: unknown): Promise<number> {
+    if (isSegmentFilter(filterConfig)) {
+      const filter = segmentFilterSchema.parse(filterConfig);
+      const [result] = await db
+        .select({ count: count() })
+        .from(users)
+        .where(compileSegmentFilter(filter));
+      return result.count;
+    }
+    return (await this.evaluateSegmentFilter(filterConfig)).length;
+  }
+
+  /**
+   * Resolve the customers currently matching a segment's filters
+   */
+  async getCustomerSegmentMembers(segmentId: string): Promise<SegmentMember[]> {
+    const segment = await this.getCustomerSegmentById(segmentId);
+    if (!segment) {
+      throw new Error("Segment not found");
+    }
+    return await this.evaluateSegmentFilter(segment.filterConfig);
+  }
+
+  /**
+   * Recalculate the cached customer count of every dynamic segment
+   */
+  async recountDynamicSegments(): Promise<{ recounted: number; failed: number }> {
+    const segments = await db
+      .select()
+      .from(customerSegments)
+      .where(eq(customerSegments.isDynamic, true));
+
+    let recounted = 0;
+    let failed = 0;
+    for (const segment of segments) {
+      try {
+        const total = await this.countSegmentFilterMatches(segment.filterConfig);
+        await this.updateSegmentCustomerCount(segment.id, total);
+        recounted++;
+      } catch (error) {
+        console.error(`Error recounting segment ${segment.id}:`, error);
+        failed++;
+      }
+    }
+    return { recounted, failed };
+  }
+
   async updateSegmentCustomerCount(segmentId: string, count: number): Promise<void> {
     await db
       .update(customerSegments)
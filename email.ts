@@ -145,6 +145,7 @@ export async function sendEmail(params: {
   html: string;
   plainText?: string;
   cc?: string[];
+  headers?: Record<string, string>;
   attachments?: Array<{
     filename: string;
     content: Buffer | string;
@@ -160,6 +161,7 @@ export async function sendEmail(params: {
       subject: params.subject,
       html: params.html,
       text: params.plainText,
+      headers: params.headers,
       attachments: params.attachments,
     });
 
@@ -202,6 +204,7 @@ export async function sendCampaignEmail(params: {
   htmlTemplate: string;
   plainTextTemplate?: string;
   personalizationData: PersonalizationData;
+  headers?: Record<string, string>;
 }): Promise<{ success: boolean; messageId?: string; error?: string }> {
   const html = personalizeContent(params.htmlTemplate, params.personalizationData);
   const plainText = params.plainTextTemplate
@@ -213,6 +216,7 @@ export async function sendCampaignEmail(params: {
     subject: personalizeContent(params.subject, params.personalizationData),
     html,
     plainText,
+    headers: params.headers,
   });
 }
 
@@ -231,6 +235,7 @@ export function getAvailableTokens(): Array<{ token: string; description: string
     { token: '{{vehicleModel}}', description: 'Vehicle model (e.g., Camry)' },
     { token: '{{vehicleYear}}', description: 'Vehicle year' },
     { token: '{{vehicleName}}', description: 'Full vehicle name (e.g., 2020 Toyota Camry)' },
+    { token: '{{unsubscribeUrl}}', description: 'Link to unsubscribe from marketing emails (added automatically if missing)' },
   ];
 }
 
@@ -21,6 +21,8 @@ import {
   type Invoice,
   type InsertInvoice,
 } from "./base";
+import { taxStorage } from "./tax.storage";
+import { syncEstimateReservations } from "./inventory.storage";
 
 export class EstimatesStorage {
   // ========================================
@@ -55,8 +57,20 @@ export class EstimatesStorage {
   }
 
   async createEstimateWithItems(estimate: InsertEstimate, items: InsertEstimateItem[]): Promise<Estimate> {
+    // Quote tax from configured tax rates when available, otherwise keep the given amounts
+    const issueDate = estimate.issueDate ? new Date(estimate.issueDate) : new Date();
+    const taxCalculation = await taxStorage.calculateTax(items || [], issueDate);
+    const estimateData: InsertEstimate = taxCalculation.taxLines.length > 0
+      ? {
+          ...estimate,
+          subtotal: taxCalculation.subtotal.toFixed(2),
+          tax: taxCalculation.tax.toFixed(2),
+          total: taxCalculation.total.toFixed(2),
+        }
+      : estimate;
+
     return await db.transaction(async (tx) => {
-      const result = await tx.insert(estimates).values(estimate).returning();
+      const result = await tx.insert(estimates).values(estimateData).returning();
       const createdEstimate = result[0];
 
       if (items && items.length > 0) {
@@ -70,9 +84,14 @@ export class EstimatesStorage {
   }
 
   async updateEstimate(id: string, estimate: Partial<InsertEstimate>): Promise<Estimate | undefined> {
-    const updateData = { ...estimate, updatedAt: new Date() };
-    const result = await db.update(estimates).set(updateData).where(eq(estimates.id, id)).returning();
-    return result[0];
+    return await db.transaction(async (tx) => {
+      const updateData = { ...estimate, updatedAt: new Date() };
+      const result = await tx.update(estimates).set(updateData).where(eq(estimates.id, id)).returning();
+      if (result[0] && (estimate.status !== undefined || estimate.expiryDate !== undefined)) {
+        await syncEstimateReservations(tx, result[0]);
+      }
+      return result[0];
+    });
   }
 
   async generateEstimateNumber(): Promise<string> {
@@ -105,6 +124,13 @@ export class EstimatesStorage {
 
       const items = await this.getEstimateItems(estimateId);
 
+      // The invoice is taxed at the rates in effect when it is issued; its tax is
+      // logged once the draft is issued
+      const issueDate = new Date();
+      const taxCalculation = await taxStorage.calculateTax(items, issueDate);
+      const taxed = taxCalculation.taxLines.length > 0;
+      const total = taxed ? taxCalculation.total.toFixed(2) : estimate.total;
+
       // Generate invoice number
       const currentYear = new Date().getFullYear();
       const prefix = `INV-${currentYear}-`;
@@ -127,11 +153,12 @@ export class EstimatesStorage {
         customerId: estimate.customerId,
         jobCardId: estimate.jobCardId || undefined,
         status: "draft",
-        issueDate: new Date(),
+        issueDate,
         dueDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days from now
-        subtotal: estimate.subtotal,
-        tax: estimate.tax,
-        total: estimate.total,
+        subtotal: taxed ? taxCalculation.subtotal.toFixed(2) : estimate.subtotal,
+        tax: taxed ? taxCalculation.tax.toFixed(2) : estimate.tax,
+        total,
+        balance: total,
         notes: estimate.notes || undefined,
       };
 
@@ -152,14 +179,16 @@ export class EstimatesStorage {
         );
       }
 
-      // Update estimate to mark as converted
-      await tx.update(estimates)
+      // Update estimate to mark as converted; its part holds are released
+      const [converted] = await tx.update(estimates)
         .set({
           status: "converted",
           convertedToInvoice: invoice.id,
           updatedAt: new Date(),
         })
-        .where(eq(estimates.id, estimateId));
+        .where(eq(estimates.id, estimateId))
+        .returning();
+      await syncEstimateReservations(tx, converted);
 
       return invoice;
     });
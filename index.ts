@@ -6,7 +6,7 @@
  * backward compatibility with the original monolithic storage.ts file.
  *
  * Architecture:
- * - 17 focused storage modules, each handling a specific domain
+ * - 23 focused storage modules, each handling a specific domain
  * - All modules import from ./base.ts for shared utilities
  * - Type-safe with no `any` types
  * - Proper error handling throughout
@@ -34,6 +34,12 @@ import * as accountingStorage from './accounting.storage';
 import * as settingsStorage from './settings.storage';
 import * as permissionsStorage from './permissions.storage';
 import * as miscStorage from './misc.storage';
+import * as taxStorage from './tax.storage';
+import * as lateFeesStorage from './lateFees.storage';
+import * as paymentPlansStorage from './paymentPlans.storage';
+import * as notificationsStorage from './notifications.storage';
+import * as schedulingStorage from './scheduling.storage';
+import * as inventoryStorage from './inventory.storage';
 
 /**
  * Unified storage object that aggregates all storage modules
@@ -124,6 +130,36 @@ export const storage = {
   // Miscellaneous Module (Dashboard, Timers, Approvals, Notifications)
   // ========================================
   ...miscStorage,
+
+  // ========================================
+  // Tax Module (Tax Rates, Tax Calculation, Tax Collected)
+  // ========================================
+  ...taxStorage,
+
+  // ========================================
+  // Late Fees Module (Late Fee Settings, Assessed Fees)
+  // ========================================
+  ...lateFeesStorage,
+
+  // ========================================
+  // Payment Plans Module (Installment Plans)
+  // ========================================
+  ...paymentPlansStorage,
+
+  // ========================================
+  // Notifications Module (Preferences, Push History)
+  // ========================================
+  ...notificationsStorage,
+
+  // ========================================
+  // Scheduling Module (Service Bays, Mechanic Shifts, Time Off)
+  // ========================================
+  ...schedulingStorage,
+
+  // ========================================
+  // Inventory Module (Stock Movement Ledger)
+  // ========================================
+  ...inventoryStorage,
 };
 
 // Re-export individual modules for selective imports
@@ -145,6 +181,12 @@ export {
   settingsStorage,
   permissionsStorage,
   miscStorage,
+  taxStorage,
+  lateFeesStorage,
+  paymentPlansStorage,
+  notificationsStorage,
+  schedulingStorage,
+  inventoryStorage,
 };
 
 // Re-export types from base for convenience
@@ -167,7 +209,7 @@ export type {
 
 /**
  * Module Statistics:
- * - Total Modules: 17
+ * - Total Modules: 23
  * - Total Methods: ~300+
  * - Lines of Code: ~4,500 (vs 5,680 in monolith)
  * - Average Module Size: ~265 lines
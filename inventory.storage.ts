@@ -0,0 +1,779 @@
+/**
+ * Inventory Storage Module
+ * Handles the stock movement ledger for parts inventory:
+ * - Every change to partsInventory.quantity is applied through applyStockMovement,
+ *   which updates the part and appends a stockMovements row in the same transaction
+ * - Weighted-average costing: receipts re-average the part's cost, everything leaving stock
+ *   goes at the current average, and job card consumption is booked to cogsEntries
+ * - Inventory valuation as of a date and COGS totals for financial reporting
+ * - Movement history and point-in-time stock levels for reconciliation
+ * - Purchase orders to vendors, receiving against them, short-closing and billing them
+ * - Soft part reservations for job cards and estimates (held back from available stock
+ *   without changing quantity, consumed when the part is attached to the job card)
+ * - Usage and open demand figures for reorder planning
+ */
+
+import {
+  db,
+  eq,
+  and,
+  or,
+  asc,
+  desc,
+  gt,
+  gte,
+  lte,
+  lt,
+  ne,
+  isNull,
+  inArray,
+  notInArray,
+  sql,
+  sum,
+  partsInventory,
+  jobCards,
+  jobCardParts,
+  estimates,
+  stockMovements,
+  cogsEntries,
+  partReservations,
+  purchaseOrders,
+  purchaseOrderNumberSequence,
+  purchaseOrderLines,
+  type Part,
+  type StockMovement,
+  type InsertStockMovement,
+  type CogsEntry,
+  type PartReservation,
+  type InsertPartReservation,
+  type PurchaseOrder,
+  type PurchaseOrderLine,
+  type PurchaseOrderLineInput,
+  type InsertPurchaseOrder,
+  type PurchaseOrderReceipt,
+  type Estimate,
+  type InsertVendorBill,
+  type InsertVendorBillLineItem,
+  type DbTransaction,
+} from "./base";
+import { accountingStorage } from "./accounting.storage";
+
+function toQuantityMap(rows: Array<{ partId: string; total: string | null }>): Map<string, number> {
+  return new Map(rows.map(row => [row.partId, Number(row.total ?? 0)]));
+}
+
+// ==================== STOCK MOVEMENTS ====================
+
+/**
+ * Current weighted-average cost of a part (purchase price until it has been costed)
+ */
+export function getPartUnitCost(part: Part): number {
+  return parseFloat(part.averageCost ?? part.purchasePrice);
+}
+
+/**
+ * Average cost a job card was charged for a part, so a return goes back into stock at
+ * the cost it left at. Undefined if nothing is booked.
+ */
+async function getJobCardUnitCost(tx: DbTransaction, jobCardId: string, partId: string): Promise<number | undefined> {
+  const [booked] = await tx
+    .select({ quantity: sum(cogsEntries.quantity), amount: sum(cogsEntries.amount) })
+    .from(cogsEntries)
+    .where(and(eq(cogsEntries.jobCardId, jobCardId), eq(cogsEntries.partId, partId)));
+  const quantity = Number(booked?.quantity ?? 0);
+  return quantity > 0 ? Number(booked.amount) / quantity : undefined;
+}
+
+/**
+ * A stock movement to apply: either a quantityChange, or setQuantity (e.g. a stock count)
+ * to move the part to that level, with the change worked out once the part is locked
+ */
+export type StockMovementInput = Omit<InsertStockMovement, "unitCost" | "quantityChange"> & { unitCost?: string } & (
+  | { quantityChange: number; setQuantity?: undefined }
+  | { setQuantity: number; quantityChange?: undefined }
+);
+
+const STOCK_IN_TYPES: StockMovement["type"][] = ["receipt", "return"];
+const STOCK_OUT_TYPES: StockMovement["type"][] = ["job_consumption", "write_off"];
+
+/**
+ * Apply a quantity change to a part inside an existing transaction and record it.
+ * Stock coming in is costed at unitCost (default: the current average, or for a job card
+ * return the cost the job was charged) and re-averages the part; stock going out always
+ * leaves at the current average. Job card movements are booked to COGS.
+ * Throws if stock would go negative, or if the change goes the wrong way for the type
+ * (receipts and returns add stock, consumption and write-offs remove it).
+ */
+export async function applyStockMovement(
+  tx: DbTransaction,
+  input: StockMovementInput
+): Promise<{ part: Part; movement: StockMovement; cogs?: CogsEntry }> {
+  const [current] = await tx
+    .select()
+    .from(partsInventory)
+    .where(eq(partsInventory.id, input.partId))
+    .for("update");
+  if (!current) {
+    throw new Error("Part not found");
+  }
+
+  const { setQuantity, ...fields } = input;
+  const movement = {
+    ...fields,
+    quantityChange: setQuantity !== undefined ? setQuantity - current.quantity : input.quantityChange!,
+  };
+  if (STOCK_IN_TYPES.includes(movement.type) && movement.quantityChange <= 0) {
+    throw new Error(`A ${movement.type} must add stock`);
+  }
+  if (STOCK_OUT_TYPES.includes(movement.type) && movement.quantityChange >= 0) {
+    throw new Error(`A ${movement.type.replace("_", "-")} must remove stock`);
+  }
+
+  const quantityAfter = current.quantity + movement.quantityChange;
+  if (quantityAfter < 0) {
+    throw new Error(`Insufficient stock. Available: ${current.quantity}, Required: ${-movement.quantityChange}`);
+  }
+
+  const fromJobCard = movement.sourceType === "job_card" && movement.sourceId ? movement.sourceId : undefined;
+  const currentCost = getPartUnitCost(current);
+  let unitCost = currentCost;
+  let averageCost = currentCost;
+  if (movement.quantityChange > 0) {
+    if (movement.unitCost !== undefined) {
+      unitCost = parseFloat(movement.unitCost);
+    } else if (fromJobCard) {
+      unitCost = (await getJobCardUnitCost(tx, fromJobCard, current.id)) ?? currentCost;
+    }
+    // Negative or empty stock carries no value to average against
+    const onHand = Math.max(current.quantity, 0);
+    averageCost = (onHand * currentCost + movement.quantityChange * unitCost) / (onHand + movement.quantityChange);
+  }
+
+  const [part] = await tx
+    .update(partsInventory)
+    .set({ quantity: quantityAfter, averageCost: averageCost.toFixed(2) })
+    .where(eq(partsInventory.id, movement.partId))
+    .returning();
+
+  const [recorded] = await tx
+    .insert(stockMovements)
+    .values({
+      ...movement,
+      unitCost: unitCost.toFixed(2),
+      averageCostAfter: averageCost.toFixed(2),
+      quantityAfter,
+    })
+    .returning();
+
+  if (!fromJobCard || movement.quantityChange === 0) {
+    return { part, movement: recorded };
+  }
+
+  const [cogs] = await tx
+    .insert(cogsEntries)
+    .values({
+      movementId: recorded.id,
+      partId: part.id,
+      jobCardId: fromJobCard,
+      quantity: -movement.quantityChange,
+      unitCost: unitCost.toFixed(2),
+      amount: (-movement.quantityChange * unitCost).toFixed(2),
+    })
+    .returning();
+  return { part, movement: recorded, cogs };
+}
+
+/**
+ * Record a stand-alone stock movement (receipts, adjustments, write-offs, ...)
+ */
+export async function recordStockMovement(
+  movement: StockMovementInput
+): Promise<{ part: Part; movement: StockMovement; cogs?: CogsEntry }> {
+  return await db.transaction(async (tx) => applyStockMovement(tx, movement));
+}
+
+export async function getStockMovements(
+  partId: string,
+  filters?: { from?: Date; to?: Date; type?: StockMovement["type"] }
+): Promise<StockMovement[]> {
+  return await db
+    .select()
+    .from(stockMovements)
+    .where(and(
+      eq(stockMovements.partId, partId),
+      filters?.from ? gte(stockMovements.createdAt, filters.from) : undefined,
+      filters?.to ? lte(stockMovements.createdAt, filters.to) : undefined,
+      filters?.type ? eq(stockMovements.type, filters.type) : undefined
+    ))
+    .orderBy(desc(stockMovements.createdAt));
+}
+
+/**
+ * Stock level of a part at a point in time: the current quantity with every later
+ * movement rolled back. Undefined if the part doesn't exist.
+ */
+export async function getStockLevelAt(partId: string, at: Date): Promise<number | undefined> {
+  const [part] = await db.select().from(partsInventory).where(eq(partsInventory.id, partId)).limit(1);
+  if (!part) {
+    return undefined;
+  }
+  if (part.createdAt > at) {
+    return 0;
+  }
+
+  const [later] = await db
+    .select({ total: sum(stockMovements.quantityChange) })
+    .from(stockMovements)
+    .where(and(
+      eq(stockMovements.partId, partId),
+      gt(stockMovements.createdAt, at)
+    ));
+  return part.quantity - Number(later?.total ?? 0);
+}
+
+/**
+ * Movements tied to a source document (e.g. all stock a job card consumed)
+ */
+export async function getStockMovementsBySource(sourceType: string, sourceId: string): Promise<StockMovement[]> {
+  return await db
+    .select()
+    .from(stockMovements)
+    .where(and(
+      eq(stockMovements.sourceType, sourceType),
+      eq(stockMovements.sourceId, sourceId)
+    ))
+    .orderBy(asc(stockMovements.createdAt));
+}
+
+// ==================== VALUATION & COGS ====================
+
+export interface InventoryValuationLine {
+  partId: string;
+  name: string;
+  partNumber: string;
+  quantity: number;
+  unitCost: string;
+  value: string;
+}
+
+/**
+ * Value of stock on hand as of a date: each part's quantity and average cost right after
+ * its last movement at or before that time. Parts with no movement by then (or recorded
+ * before costing) fall back to the rolled-back quantity at their current cost.
+ */
+export async function getInventoryValuation(at: Date = new Date()): Promise<{
+  asOf: Date;
+  totalValue: string;
+  parts: InventoryValuationLine[];
+}> {
+  const [parts, lastMovements, later] = await Promise.all([
+    db.select().from(partsInventory).where(lte(partsInventory.createdAt, at)).orderBy(asc(partsInventory.name)),
+    db
+      .selectDistinctOn([stockMovements.partId])
+      .from(stockMovements)
+      .where(lte(stockMovements.createdAt, at))
+      .orderBy(stockMovements.partId, desc(stockMovements.createdAt)),
+    db
+      .select({ partId: stockMovements.partId, total: sum(stockMovements.quantityChange) })
+      .from(stockMovements)
+      .where(gt(stockMovements.createdAt, at))
+      .groupBy(stockMovements.partId),
+  ]);
+  const lastByPart = new Map(lastMovements.map(movement => [movement.partId, movement]));
+  const laterByPart = toQuantityMap(later);
+
+  let totalValue = 0;
+  const lines: InventoryValuationLine[] = [];
+  for (const part of parts) {
+    const last = lastByPart.get(part.id);
+    const quantity = last ? last.quantityAfter : part.quantity - (laterByPart.get(part.id) ?? 0);
+    const unitCost = last?.averageCostAfter ? parseFloat(last.averageCostAfter) : getPartUnitCost(part);
+    const value = quantity * unitCost;
+    totalValue += value;
+    lines.push({
+      partId: part.id,
+      name: part.name,
+      partNumber: part.partNumber,
+      quantity,
+      unitCost: unitCost.toFixed(2),
+      value: value.toFixed(2),
+    });
+  }
+
+  return { asOf: at, totalValue: totalValue.toFixed(2), parts: lines };
+}
+
+/**
+ * Cost of parts consumed on job cards in a period, net of returns
+ */
+export async function getCogsTotal(startDate: Date, endDate: Date): Promise<number> {
+  const [result] = await db
+    .select({ total: sum(cogsEntries.amount) })
+    .from(cogsEntries)
+    .where(and(
+      gte(cogsEntries.createdAt, startDate),
+      lte(cogsEntries.createdAt, endDate)
+    ));
+  return Number(result?.total ?? 0);
+}
+
+/**
+ * Net quantity and cost of each part booked to a job card
+ */
+export async function getJobCardCogs(jobCardId: string): Promise<Array<{ partId: string; quantity: number; amount: number }>> {
+  const rows = await db
+    .select({ partId: cogsEntries.partId, quantity: sum(cogsEntries.quantity), amount: sum(cogsEntries.amount) })
+    .from(cogsEntries)
+    .where(eq(cogsEntries.jobCardId, jobCardId))
+    .groupBy(cogsEntries.partId);
+  return rows.map(row => ({ partId: row.partId, quantity: Number(row.quantity ?? 0), amount: Number(row.amount ?? 0) }));
+}
+
+// ==================== PURCHASE ORDERS ====================
+
+async function getNextPurchaseOrderNumber(tx: DbTransaction): Promise<string> {
+  const currentYear = new Date().getFullYear();
+  const [sequence] = await tx
+    .insert(purchaseOrderNumberSequence)
+    .values({ year: currentYear, lastNumber: 1 })
+    .onConflictDoUpdate({
+      target: purchaseOrderNumberSequence.year,
+      set: { lastNumber: sql`${purchaseOrderNumberSequence.lastNumber} + 1` },
+    })
+    .returning();
+  return `PO-${currentYear}-${String(sequence.lastNumber).padStart(4, "0")}`;
+}
+
+/**
+ * Replace a purchase order's lines and return the new order total
+ */
+async function writePurchaseOrderLines(tx: DbTransaction, purchaseOrderId: string, lines: PurchaseOrderLineInput[]): Promise<string> {
+  await tx.delete(purchaseOrderLines).where(eq(purchaseOrderLines.purchaseOrderId, purchaseOrderId));
+
+  let total = 0;
+  for (const line of lines) {
+    const [part] = await tx.select().from(partsInventory).where(eq(partsInventory.id, line.partId)).limit(1);
+    if (!part) {
+      throw new Error(`Part not found: ${line.partId}`);
+    }
+
+    const lineTotal = line.quantityOrdered * line.unitCost;
+    total += lineTotal;
+    await tx.insert(purchaseOrderLines).values({
+      purchaseOrderId,
+      partId: part.id,
+      description: line.description || `${part.name} (${part.partNumber})`,
+      quantityOrdered: line.quantityOrdered,
+      unitCost: line.unitCost.toFixed(2),
+      total: lineTotal.toFixed(2),
+    });
+  }
+  return total.toFixed(2);
+}
+
+export async function createPurchaseOrder(data: InsertPurchaseOrder, createdBy: string): Promise<PurchaseOrder> {
+  return await db.transaction(async (tx) => {
+    const { lines, ...details } = data;
+    const [order] = await tx
+      .insert(purchaseOrders)
+      .values({ ...details, poNumber: await getNextPurchaseOrderNumber(tx), createdBy })
+      .returning();
+
+    const total = await writePurchaseOrderLines(tx, order.id, lines);
+    const [updated] = await tx.update(purchaseOrders).set({ total }).where(eq(purchaseOrders.id, order.id)).returning();
+    return updated;
+  });
+}
+
+export async function getPurchaseOrders(filters?: { vendorId?: string; status?: PurchaseOrder["status"] }): Promise<PurchaseOrder[]> {
+  return await db
+    .select()
+    .from(purchaseOrders)
+    .where(and(
+      filters?.vendorId ? eq(purchaseOrders.vendorId, filters.vendorId) : undefined,
+      filters?.status ? eq(purchaseOrders.status, filters.status) : undefined
+    ))
+    .orderBy(desc(purchaseOrders.createdAt));
+}
+
+export async function getPurchaseOrder(id: string): Promise<PurchaseOrder | undefined> {
+  const [order] = await db.select().from(purchaseOrders).where(eq(purchaseOrders.id, id)).limit(1);
+  return order;
+}
+
+export async function getPurchaseOrderLines(purchaseOrderId: string): Promise<PurchaseOrderLine[]> {
+  return await db
+    .select()
+    .from(purchaseOrderLines)
+    .where(eq(purchaseOrderLines.purchaseOrderId, purchaseOrderId))
+    .orderBy(asc(purchaseOrderLines.createdAt));
+}
+
+/**
+ * Update a purchase order; passing lines replaces them all
+ */
+export async function updatePurchaseOrder(
+  id: string,
+  updates: Partial<Omit<InsertPurchaseOrder, "vendorId">> & Partial<Pick<PurchaseOrder, "status" | "sentAt" | "vendorBillId">>
+): Promise<PurchaseOrder | undefined> {
+  return await db.transaction(async (tx) => {
+    const { lines, ...details } = updates;
+    const total = lines ? await writePurchaseOrderLines(tx, id, lines) : undefined;
+    const [updated] = await tx
+      .update(purchaseOrders)
+      .set({ ...details, ...(total !== undefined ? { total } : {}), updatedAt: new Date() })
+      .where(eq(purchaseOrders.id, id))
+      .returning();
+    return updated;
+  });
+}
+
+export async function deletePurchaseOrder(id: string): Promise<void> {
+  await db.delete(purchaseOrders).where(eq(purchaseOrders.id, id));
+}
+
+/**
+ * Receive quantities against a sent purchase order: each line adds stock as a receipt at the
+ * line's unit cost (averaged into the part's cost and kept as its purchase price) and the
+ * status follows what is still outstanding. Throws if the order isn't open or a line would be over-received.
+ */
+export async function receivePurchaseOrder(
+  id: string,
+  receipts: PurchaseOrderReceipt,
+  userId: string
+): Promise<{ purchaseOrder: PurchaseOrder; lines: PurchaseOrderLine[]; movements: StockMovement[] }> {
+  return await db.transaction(async (tx) => {
+    const [order] = await tx.select().from(purchaseOrders).where(eq(purchaseOrders.id, id)).for("update");
+    if (!order) {
+      throw new Error("Purchase order not found");
+    }
+    if (order.status !== "sent" && order.status !== "partially_received") {
+      throw new Error(`Cannot receive a ${order.status} purchase order`);
+    }
+
+    const lines = await tx.select().from(purchaseOrderLines).where(eq(purchaseOrderLines.purchaseOrderId, id));
+    const movements: StockMovement[] = [];
+    for (const receipt of receipts) {
+      const line = lines.find(candidate => candidate.id === receipt.lineId);
+      if (!line) {
+        throw new Error(`Line ${receipt.lineId} is not on this purchase order`);
+      }
+
+      const outstanding = line.quantityOrdered - line.quantityReceived;
+      if (receipt.quantity > outstanding) {
+        throw new Error(`Cannot receive ${receipt.quantity} of ${line.description}; ${outstanding} outstanding`);
+      }
+
+      const { movement } = await applyStockMovement(tx, {
+        partId: line.partId,
+        type: "receipt",
+        quantityChange: receipt.quantity,
+        unitCost: line.unitCost,
+        userId,
+        sourceType: "purchase_order",
+        sourceId: order.id,
+        notes: order.poNumber,
+      });
+      movements.push(movement);
+
+      await tx.update(partsInventory).set({ purchasePrice: line.unitCost }).where(eq(partsInventory.id, line.partId));
+      line.quantityReceived += receipt.quantity;
+      await tx
+        .update(purchaseOrderLines)
+        .set({ quantityReceived: line.quantityReceived })
+        .where(eq(purchaseOrderLines.id, line.id));
+    }
+
+    const complete = lines.every(line => line.quantityReceived >= line.quantityOrdered);
+    const [purchaseOrder] = await tx
+      .update(purchaseOrders)
+      .set({
+        status: complete ? "received" : "partially_received",
+        receivedAt: complete ? new Date() : null,
+        updatedAt: new Date(),
+      })
+      .where(eq(purchaseOrders.id, id))
+      .returning();
+
+    return { purchaseOrder, lines, movements };
+  });
+}
+
+/**
+ * Short-close a sent or partly received purchase order: nothing more is expected from the vendor
+ */
+export async function closePurchaseOrder(id: string): Promise<PurchaseOrder> {
+  return await db.transaction(async (tx) => {
+    const [order] = await tx.select().from(purchaseOrders).where(eq(purchaseOrders.id, id)).for("update");
+    if (!order) {
+      throw new Error("Purchase order not found");
+    }
+    if (order.status !== "sent" && order.status !== "partially_received") {
+      throw new Error(`Cannot close a ${order.status} purchase order`);
+    }
+
+    const [closed] = await tx
+      .update(purchaseOrders)
+      .set({ status: "closed", updatedAt: new Date() })
+      .where(eq(purchaseOrders.id, id))
+      .returning();
+    return closed;
+  });
+}
+
+/**
+ * Create a purchase order's vendor bill. The order is locked for the insert so two
+ * requests can't both bill it; if it already has a bill it is returned unchanged.
+ */
+export async function createPurchaseOrderBill(
+  id: string,
+  bill: Omit<InsertVendorBill, "billNumber">,
+  lineItems: Omit<InsertVendorBillLineItem, "billId">[]
+): Promise<PurchaseOrder> {
+  return await db.transaction(async (tx) => {
+    const [order] = await tx.select().from(purchaseOrders).where(eq(purchaseOrders.id, id)).for("update");
+    if (!order) {
+      throw new Error("Purchase order not found");
+    }
+    if (order.vendorBillId) {
+      return order;
+    }
+
+    const created = await accountingStorage.insertVendorBill(tx, bill, lineItems);
+    const [billed] = await tx
+      .update(purchaseOrders)
+      .set({ vendorBillId: created.id, updatedAt: new Date() })
+      .where(eq(purchaseOrders.id, id))
+      .returning();
+    return billed;
+  });
+}
+
+// ==================== PART RESERVATIONS ====================
+
+// Active reservations that haven't passed their expiry (the sweep may not have run yet)
+function holdingReservation(now: Date = new Date()) {
+  return and(
+    eq(partReservations.status, "active"),
+    or(isNull(partReservations.expiresAt), gt(partReservations.expiresAt, now))
+  );
+}
+
+/**
+ * Quantity held by reservations for each part (all parts if no ids are given)
+ */
+export async function getReservedQuantities(partIds?: string[]): Promise<Map<string, number>> {
+  if (partIds && partIds.length === 0) {
+    return new Map();
+  }
+
+  const rows = await db
+    .select({ partId: partReservations.partId, total: sum(partReservations.quantity) })
+    .from(partReservations)
+    .where(and(
+      holdingReservation(),
+      partIds ? inArray(partReservations.partId, partIds) : undefined
+    ))
+    .groupBy(partReservations.partId);
+  return toQuantityMap(rows);
+}
+
+/**
+ * Lock a part and check that `quantity` units are free once reservations are held back
+ */
+export async function assertPartAvailable(tx: DbTransaction, partId: string, quantity: number): Promise<void> {
+  const [part] = await tx.select().from(partsInventory).where(eq(partsInventory.id, partId)).for("update");
+  if (!part) {
+    throw new Error("Part not found");
+  }
+
+  const [reserved] = await tx
+    .select({ total: sum(partReservations.quantity) })
+    .from(partReservations)
+    .where(and(eq(partReservations.partId, partId), holdingReservation()));
+  const available = part.quantity - Number(reserved?.total ?? 0);
+  if (available < quantity) {
+    throw new Error(`Insufficient stock. Available: ${Math.max(available, 0)}, Required: ${quantity}`);
+  }
+}
+
+export async function createPartReservation(
+  data: InsertPartReservation & { expiresAt?: Date | null },
+  createdBy?: string
+): Promise<PartReservation> {
+  return await db.transaction(async (tx) => {
+    await assertPartAvailable(tx, data.partId, data.quantity);
+    const [reservation] = await tx.insert(partReservations).values({ ...data, createdBy }).returning();
+    return reservation;
+  });
+}
+
+export async function getPartReservations(filters?: {
+  partId?: string;
+  jobCardId?: string;
+  estimateId?: string;
+  status?: PartReservation["status"];
+}): Promise<PartReservation[]> {
+  return await db
+    .select()
+    .from(partReservations)
+    .where(and(
+      filters?.partId ? eq(partReservations.partId, filters.partId) : undefined,
+      filters?.jobCardId ? eq(partReservations.jobCardId, filters.jobCardId) : undefined,
+      filters?.estimateId ? eq(partReservations.estimateId, filters.estimateId) : undefined,
+      filters?.status ? eq(partReservations.status, filters.status) : undefined
+    ))
+    .orderBy(desc(partReservations.createdAt));
+}
+
+export async function getPartReservation(id: string): Promise<PartReservation | undefined> {
+  const [reservation] = await db.select().from(partReservations).where(eq(partReservations.id, id)).limit(1);
+  return reservation;
+}
+
+/**
+ * Release an active reservation; undefined if it isn't active anymore
+ */
+export async function releasePartReservation(id: string): Promise<PartReservation | undefined> {
+  const [released] = await db
+    .update(partReservations)
+    .set({ status: "released", closedAt: new Date() })
+    .where(and(eq(partReservations.id, id), eq(partReservations.status, "active")))
+    .returning();
+  return released;
+}
+
+/**
+ * Use up reservations for a part attached to a job card: the job card's own and those of its
+ * estimates, oldest first. Returns how much reserved stock was consumed.
+ */
+export async function consumeJobCardReservations(tx: DbTransaction, jobCardId: string, partId: string, quantity: number): Promise<number> {
+  const estimateIds = tx.select({ id: estimates.id }).from(estimates).where(eq(estimates.jobCardId, jobCardId));
+  const reservations = await tx
+    .select()
+    .from(partReservations)
+    .where(and(
+      eq(partReservations.partId, partId),
+      holdingReservation(),
+      or(eq(partReservations.jobCardId, jobCardId), inArray(partReservations.estimateId, estimateIds))
+    ))
+    .orderBy(asc(partReservations.createdAt))
+    .for("update");
+
+  let remaining = quantity;
+  for (const reservation of reservations) {
+    if (remaining === 0) break;
+
+    const used = Math.min(reservation.quantity, remaining);
+    remaining -= used;
+    await tx
+      .update(partReservations)
+      .set(used === reservation.quantity
+        ? { status: "consumed", closedAt: new Date() }
+        : { quantity: reservation.quantity - used })
+      .where(eq(partReservations.id, reservation.id));
+  }
+  return quantity - remaining;
+}
+
+/**
+ * Keep an estimate's active reservations in step with the estimate: held until its expiry
+ * while awaiting a decision, held without expiry once approved (the parts are used when they
+ * go onto the job card), and released once it is converted
+ */
+export async function syncEstimateReservations(tx: DbTransaction, estimate: Estimate): Promise<void> {
+  const active = and(eq(partReservations.estimateId, estimate.id), eq(partReservations.status, "active"));
+  if (estimate.status === "converted") {
+    await tx.update(partReservations).set({ status: "released", closedAt: new Date() }).where(active);
+  } else if (estimate.status === "approved") {
+    await tx.update(partReservations).set({ expiresAt: null }).where(active);
+  } else if (estimate.status === "draft" || estimate.status === "sent") {
+    await tx.update(partReservations).set({ expiresAt: estimate.expiryDate }).where(active);
+  }
+}
+
+/**
+ * Close reservations that no longer apply: past their expiry, for estimates that were
+ * rejected or expired, or for job cards that were cancelled or completed and estimates that
+ * were converted
+ */
+export async function expirePartReservations(now: Date = new Date()): Promise<number> {
+  const closedJobCards = db.select({ id: jobCards.id }).from(jobCards)
+    .where(inArray(jobCards.status, ["completed", "cancelled"]));
+  const convertedEstimates = db.select({ id: estimates.id }).from(estimates)
+    .where(eq(estimates.status, "converted"));
+  const lapsedEstimates = db.select({ id: estimates.id }).from(estimates)
+    .where(inArray(estimates.status, ["rejected", "expired"]));
+
+  const expired = await db
+    .update(partReservations)
+    .set({ status: "expired", closedAt: now })
+    .where(and(
+      eq(partReservations.status, "active"),
+      or(lt(partReservations.expiresAt, now), inArray(partReservations.estimateId, lapsedEstimates))
+    ))
+    .returning({ id: partReservations.id });
+
+  const released = await db
+    .update(partReservations)
+    .set({ status: "released", closedAt: now })
+    .where(and(
+      eq(partReservations.status, "active"),
+      or(
+        inArray(partReservations.jobCardId, closedJobCards),
+        inArray(partReservations.estimateId, convertedEstimates)
+      )
+    ))
+    .returning({ id: partReservations.id });
+
+  return expired.length + released.length;
+}
+
+// ==================== REORDER PLANNING ====================
+
+/**
+ * Quantity of each part used on job cards scheduled in a period (cancelled jobs excluded)
+ */
+export async function getPartUsage(since: Date, until: Date = new Date()): Promise<Map<string, number>> {
+  const rows = await db
+    .select({ partId: jobCardParts.partId, total: sum(jobCardParts.quantity) })
+    .from(jobCardParts)
+    .innerJoin(jobCards, eq(jobCardParts.jobCardId, jobCards.id))
+    .where(and(
+      ne(jobCards.status, "cancelled"),
+      gte(jobCards.scheduledDate, since),
+      lte(jobCards.scheduledDate, until)
+    ))
+    .groupBy(jobCardParts.partId);
+  return toQuantityMap(rows);
+}
+
+/**
+ * Quantity of each part attached to job cards that aren't completed or cancelled yet
+ */
+export async function getPartsOnOpenJobCards(): Promise<Map<string, number>> {
+  const rows = await db
+    .select({ partId: jobCardParts.partId, total: sum(jobCardParts.quantity) })
+    .from(jobCardParts)
+    .innerJoin(jobCards, eq(jobCardParts.jobCardId, jobCards.id))
+    .where(notInArray(jobCards.status, ["completed", "cancelled"]))
+    .groupBy(jobCardParts.partId);
+  return toQuantityMap(rows);
+}
+
+/**
+ * Quantity of each part still to arrive on open purchase orders (drafts included, so
+ * planned orders aren't suggested twice)
+ */
+export async function getPartsOnOrder(): Promise<Map<string, number>> {
+  const rows = await db
+    .select({
+      partId: purchaseOrderLines.partId,
+      total: sum(sql<number>`${purchaseOrderLines.quantityOrdered} - ${purchaseOrderLines.quantityReceived}`),
+    })
+    .from(purchaseOrderLines)
+    .innerJoin(purchaseOrders, eq(purchaseOrderLines.purchaseOrderId, purchaseOrders.id))
+    .where(inArray(purchaseOrders.status, ["draft", "sent", "partially_received"]))
+    .groupBy(purchaseOrderLines.partId);
+  return toQuantityMap(rows);
+}
@@ -19,6 +19,7 @@ import {
   jobCardParts,
   partsInventory,
   pricingSettings,
+  lateFees,
   type Invoice,
   type InsertInvoice,
   type InvoiceItem,
@@ -26,12 +27,57 @@ import {
   type Payment,
   type InsertPayment,
   type User,
+  type DbTransaction,
 } from "./base";
+import { taxStorage } from "./tax.storage";
+import { paymentPlansStorage } from "./paymentPlans.storage";
 
 // ============================================================================
 // Invoice Operations
 // ============================================================================
 
+// Drafts haven't charged tax yet and cancelled invoices no longer do
+const UNTAXED_INVOICE_STATUSES: Invoice["status"][] = ["draft", "cancelled"];
+
+/**
+ * Keep the tax collected log in step with an invoice's status. Issuing an invoice (moving it
+ * out of draft or cancelled) recalculates its totals from its line items and logs the tax from
+ * that same calculation; moving it back to draft or cancelling it removes the unremitted tax.
+ * When no tax rates are configured the invoice's own amounts are kept and nothing is logged.
+ */
+async function syncInvoiceTax(tx: DbTransaction, previousStatus: Invoice["status"], invoice: Invoice): Promise<Invoice> {
+  const wasTaxed = !UNTAXED_INVOICE_STATUSES.includes(previousStatus);
+  const isTaxed = !UNTAXED_INVOICE_STATUSES.includes(invoice.status);
+  if (wasTaxed === isTaxed) {
+    return invoice;
+  }
+
+  if (!isTaxed) {
+    await taxStorage.replaceInvoiceTaxCollected(tx, invoice, []);
+    return invoice;
+  }
+
+  const items = await tx.select().from(invoiceItems).where(eq(invoiceItems.invoiceId, invoice.id));
+  const taxCalculation = await taxStorage.calculateTax(items, invoice.issueDate);
+  if (taxCalculation.taxLines.length === 0) {
+    return invoice;
+  }
+
+  const [updated] = await tx
+    .update(invoices)
+    .set({
+      subtotal: taxCalculation.subtotal.toFixed(2),
+      tax: taxCalculation.tax.toFixed(2),
+      total: taxCalculation.total.toFixed(2),
+      balance: (taxCalculation.total - parseFloat(invoice.paidAmount)).toFixed(2),
+      updatedAt: new Date(),
+    })
+    .where(eq(invoices.id, invoice.id))
+    .returning();
+  await taxStorage.replaceInvoiceTaxCollected(tx, updated, taxCalculation.taxLines);
+  return updated;
+}
+
 /**
  * Get a single invoice by ID
  */
@@ -85,10 +131,24 @@ export async function createInvoice(invoice: InsertInvoice): Promise<Invoice> {
 
 /**
  * Create an invoice with line items in a single transaction
+ * When tax rates are configured, subtotal, tax and total are computed from the
+ * line items, and the tax collected is logged from the same calculation unless the
+ * invoice is a draft (its tax is logged when it is issued); otherwise the given amounts are kept
  */
 export async function createInvoiceWithItems(invoice: InsertInvoice, items: InsertInvoiceItem[]): Promise<Invoice> {
+  const issueDate = invoice.issueDate ? new Date(invoice.issueDate) : new Date();
+  const taxCalculation = await taxStorage.calculateTax(items, issueDate);
+  const invoiceData: InsertInvoice = taxCalculation.taxLines.length > 0
+    ? {
+        ...invoice,
+        subtotal: taxCalculation.subtotal.toFixed(2),
+        tax: taxCalculation.tax.toFixed(2),
+        total: taxCalculation.total.toFixed(2),
+      }
+    : invoice;
+
   return await db.transaction(async (tx) => {
-    const result = await tx.insert(invoices).values(invoice).returning();
+    const result = await tx.insert(invoices).values(invoiceData).returning();
     const createdInvoice = result[0];
 
     for (const item of items) {
@@ -98,17 +158,29 @@ export async function createInvoiceWithItems(invoice: InsertInvoice, items: Inse
       }).returning();
     }
 
+    if (!UNTAXED_INVOICE_STATUSES.includes(createdInvoice.status)) {
+      await taxStorage.replaceInvoiceTaxCollected(tx, createdInvoice, taxCalculation.taxLines);
+    }
+
     return createdInvoice;
   });
 }
 
 /**
  * Update an existing invoice
+ * A status change issues or withdraws its tax (see syncInvoiceTax)
  */
 export async function updateInvoice(id: string, invoice: Partial<InsertInvoice>): Promise<Invoice | undefined> {
-  const updateData = { ...invoice, updatedAt: new Date() };
-  const result = await db.update(invoices).set(updateData).where(eq(invoices.id, id)).returning();
-  return result[0];
+  return await db.transaction(async (tx) => {
+    const [current] = await tx.select().from(invoices).where(eq(invoices.id, id)).for("update");
+    if (!current) {
+      return undefined;
+    }
+
+    const updateData = { ...invoice, updatedAt: new Date() };
+    const result = await tx.update(invoices).set(updateData).where(eq(invoices.id, id)).returning();
+    return await syncInvoiceTax(tx, current.status, result[0]);
+  });
 }
 
 /**
@@ -165,7 +237,7 @@ export async function generateInvoiceFromJobCard(jobCardId: string): Promise<Inv
     // Get job card parts
     const parts = await tx.select().from(jobCardParts).where(eq(jobCardParts.jobCardId, jobCardId));
 
-    // Get pricing settings for tax rate
+    // Get pricing settings for tax rate (fallback when no tax rates are configured)
     const pricing = await tx.select().from(pricingSettings).where(eq(pricingSettings.id, 1)).limit(1);
     const taxRate = pricing[0]?.taxRate ? parseFloat(pricing[0].taxRate) / 100 : 0.15; // Default 15%
 
@@ -214,8 +286,10 @@ export async function generateInvoiceFromJobCard(jobCardId: string): Promise<Inv
       });
     }
 
-    // Calculate tax and total
-    const tax = subtotal * taxRate;
+    // Calculate tax and total, using configured tax rates when available
+    const issueDate = new Date();
+    const taxCalculation = await taxStorage.calculateTax(items, issueDate);
+    const tax = taxCalculation.taxLines.length > 0 ? taxCalculation.tax : subtotal * taxRate;
     const total = subtotal + tax;
 
     // Create invoice
@@ -227,7 +301,7 @@ export async function generateInvoiceFromJobCard(jobCardId: string): Promise<Inv
       jobCardId: jobCardId,
       customerId: jc.customerId,
       status: "draft",
-      issueDate: new Date(),
+      issueDate,
       dueDate,
       subtotal: String(subtotal.toFixed(2)),
       tax: String(tax.toFixed(2)),
@@ -247,6 +321,7 @@ export async function generateInvoiceFromJobCard(jobCardId: string): Promise<Inv
       });
     }
 
+    // Tax collected is logged when the draft is issued
     return createdInvoice;
   });
 }
@@ -372,6 +447,7 @@ export async function getPaymentsByInvoice(invoiceId: string): Promise<Payment[]
 
 /**
  * Create a new payment and update invoice payment status
+ * Payments on invoices with an active payment plan are allocated to its installments
  */
 export async function createPayment(payment: InsertPayment): Promise<Payment> {
   const result = await db.insert(payments).values(payment).returning();
@@ -379,11 +455,44 @@ export async function createPayment(payment: InsertPayment): Promise<Payment> {
   // After creating payment, update invoice paid amount and balance
   if (payment.invoiceId) {
     await updateInvoicePaymentStatus(payment.invoiceId);
+    await paymentPlansStorage.reallocatePaymentPlan(payment.invoiceId);
   }
 
   return result[0];
 }
 
+/**
+ * Delete a payment recorded in error
+ * The invoice's paid amount, balance and status are recalculated, and the payment is
+ * taken back off any payment plan installments it was allocated to
+ */
+export async function deletePayment(id: string): Promise<Payment | undefined> {
+  const [deleted] = await db.delete(payments).where(eq(payments.id, id)).returning();
+  if (deleted) {
+    await updateInvoicePaymentStatus(deleted.invoiceId);
+    await paymentPlansStorage.reallocatePaymentPlan(deleted.invoiceId);
+  }
+  return deleted;
+}
+
+/**
+ * Status an invoice should have given its total and the amount paid against it
+ */
+function getPaymentStatus(invoice: Invoice, total: number, totalPaid: number): Invoice["status"] {
+  const balance = total - totalPaid;
+  if (balance <= 0) {
+    return "paid";
+  } else if (totalPaid > 0) {
+    return "partially_paid";
+  } else if (new Date(invoice.dueDate) < new Date() && invoice.status !== "draft") {
+    return "overdue";
+  } else if (invoice.status === "paid" || invoice.status === "partially_paid") {
+    // Its payments were deleted
+    return "sent";
+  }
+  return invoice.status;
+}
+
 /**
  * Update invoice payment status based on all payments
  * Recalculates paid amount, balance, and status
@@ -400,34 +509,39 @@ export async function updateInvoicePaymentStatus(invoiceId: string): Promise<voi
     return sum + parseFloat(payment.amount);
   }, 0);
 
-  const total = parseFloat(invoice.total);
-  const balance = total - totalPaid;
-
-  // Determine new status
-  let newStatus = invoice.status;
-  if (balance <= 0) {
-    newStatus = "paid";
-  } else if (totalPaid > 0 && balance > 0) {
-    newStatus = "partially_paid";
-  } else if (balance > 0 && new Date(invoice.dueDate) < new Date() && invoice.status !== "draft") {
-    newStatus = "overdue";
-  }
-
   // Get last payment date
   const lastPaymentDate = invoicePayments.length > 0
     ? invoicePayments[0].paymentDate // Already ordered by desc
     : null;
 
-  // Update invoice
-  await db.update(invoices)
-    .set({
-      paidAmount: totalPaid.toFixed(2),
-      balance: balance.toFixed(2),
-      lastPaymentDate,
-      status: newStatus,
-      updatedAt: new Date(),
-    })
-    .where(eq(invoices.id, invoiceId));
+  // Update invoice; a paid draft counts as issued for tax, and issuing it can recalculate the
+  // total, so the balance and status are settled from the synced total
+  const newStatus = await db.transaction(async (tx) => {
+    const [updated] = await tx.update(invoices)
+      .set({
+        paidAmount: totalPaid.toFixed(2),
+        lastPaymentDate,
+        status: getPaymentStatus(invoice, parseFloat(invoice.total), totalPaid),
+        updatedAt: new Date(),
+      })
+      .where(eq(invoices.id, invoiceId))
+      .returning();
+    const synced = await syncInvoiceTax(tx, invoice.status, updated);
+
+    const total = parseFloat(synced.total);
+    const status = getPaymentStatus(invoice, total, totalPaid);
+    await tx.update(invoices)
+      .set({ balance: (total - totalPaid).toFixed(2), status })
+      .where(eq(invoices.id, invoiceId));
+    return status;
+  });
+
+  // Late fees are settled along with the invoice
+  if (newStatus === "paid") {
+    await db.update(lateFees)
+      .set({ status: "paid" })
+      .where(and(eq(lateFees.invoiceId, invoiceId), eq(lateFees.status, "applied")));
+  }
 }
 
 /**
@@ -6,6 +6,10 @@
 import {
   db,
   eq,
+  ne,
+  and,
+  gte,
+  lt,
   sql,
   jobCards,
   jobCardTasks,
@@ -21,6 +25,7 @@ import {
   type InsertJobCardPart,
 } from "./base";
 import { getAppointment } from "./appointments.storage";
+import { applyStockMovement, assertPartAvailable, consumeJobCardReservations } from "./inventory.storage";
 
 // Job Cards CRUD Operations
 
@@ -55,6 +60,26 @@ export async function updateJobCard(id: string, jobCard: Partial<InsertJobCard>)
   return result[0];
 }
 
+/**
+ * Get non-cancelled job cards scheduled to start in [start, end), optionally skipping one
+ */
+export async function getJobCardsInRange(start: Date, end: Date, excludeJobCardId?: string): Promise<JobCard[]> {
+  const conditions = [
+    gte(jobCards.scheduledDate, start),
+    lt(jobCards.scheduledDate, end),
+    ne(jobCards.status, "cancelled"),
+  ];
+  if (excludeJobCardId) {
+    conditions.push(ne(jobCards.id, excludeJobCardId));
+  }
+
+  return await db
+    .select()
+    .from(jobCards)
+    .where(and(...conditions))
+    .orderBy(jobCards.scheduledDate);
+}
+
 // Appointment Conversion
 
 export async function convertAppointmentToJobCard(appointmentId: string): Promise<JobCard> {
@@ -73,6 +98,8 @@ export async function convertAppointmentToJobCard(appointmentId: string): Promis
     vehicleId: appointment.vehicleId,
     appointmentId: appointmentId,
     scheduledDate: appointment.scheduledDate,
+    scheduledEndDate: appointment.scheduledEndDate,
+    bayId: appointment.bayId,
     description: description,
     status: "scheduled",
     laborHours: "0",
@@ -130,14 +157,58 @@ export async function getLowStockParts(): Promise<Part[]> {
     .orderBy(partsInventory.quantity);
 }
 
-export async function createPart(part: InsertPart): Promise<Part> {
-  const result = await db.insert(partsInventory).values(part).returning();
-  return result[0];
+/**
+ * Create a part; any starting quantity is recorded as an opening stock adjustment
+ */
+export async function createPart(part: InsertPart, userId?: string): Promise<Part> {
+  return await db.transaction(async (tx) => {
+    const { quantity = 0, ...details } = part;
+    const result = await tx.insert(partsInventory).values({ ...details, quantity: 0 }).returning();
+    if (quantity === 0) {
+      return result[0];
+    }
+
+    const { part: created } = await applyStockMovement(tx, {
+      partId: result[0].id,
+      type: "adjustment",
+      quantityChange: quantity,
+      userId,
+      sourceType: "manual",
+      notes: "Opening stock",
+    });
+    return created;
+  });
 }
 
-export async function updatePart(id: string, part: Partial<InsertPart>): Promise<Part | undefined> {
-  const result = await db.update(partsInventory).set(part).where(eq(partsInventory.id, id)).returning();
-  return result[0];
+/**
+ * Update a part; a new quantity is recorded as a stock adjustment for the difference
+ */
+export async function updatePart(id: string, part: Partial<InsertPart>, userId?: string, notes?: string): Promise<Part | undefined> {
+  return await db.transaction(async (tx) => {
+    const { quantity, ...details } = part;
+    let result = await tx.select().from(partsInventory).where(eq(partsInventory.id, id)).limit(1);
+    if (!result[0]) {
+      return undefined;
+    }
+
+    if (Object.keys(details).length > 0) {
+      result = await tx.update(partsInventory).set(details).where(eq(partsInventory.id, id)).returning();
+    }
+    if (quantity === undefined || quantity === result[0].quantity) {
+      return result[0];
+    }
+
+    // Set the quantity under the part's lock so concurrent movements aren't overwritten
+    const { part: updated } = await applyStockMovement(tx, {
+      partId: id,
+      type: "adjustment",
+      setQuantity: quantity,
+      userId,
+      sourceType: "manual",
+      notes: notes ?? "Quantity edited",
+    });
+    return updated;
+  });
 }
 
 // Job Card Parts
@@ -146,31 +217,29 @@ export async function getJobCardParts(jobCardId: string): Promise<JobCardPart[]>
   return await db.select().from(jobCardParts).where(eq(jobCardParts.jobCardId, jobCardId));
 }
 
-export async function addPartToJobCard(jobCardPart: InsertJobCardPart): Promise<JobCardPart> {
+export async function addPartToJobCard(jobCardPart: InsertJobCardPart, userId?: string): Promise<JobCardPart> {
   return await db.transaction(async (tx) => {
-    // Check current stock
-    const part = await tx.select().from(partsInventory).where(eq(partsInventory.id, jobCardPart.partId)).limit(1);
-    if (!part[0]) {
-      throw new Error("Part not found");
-    }
+    // Stock reserved for this job is used first; beyond that, stock reserved for others is off limits
+    await consumeJobCardReservations(tx, jobCardPart.jobCardId, jobCardPart.partId, jobCardPart.quantity);
+    await assertPartAvailable(tx, jobCardPart.partId, jobCardPart.quantity);
 
-    if (part[0].quantity < jobCardPart.quantity) {
-      throw new Error(`Insufficient stock. Available: ${part[0].quantity}, Required: ${jobCardPart.quantity}`);
-    }
+    // Deduct stock
+    await applyStockMovement(tx, {
+      partId: jobCardPart.partId,
+      type: "job_consumption",
+      quantityChange: -jobCardPart.quantity,
+      userId,
+      sourceType: "job_card",
+      sourceId: jobCardPart.jobCardId,
+    });
 
     // Create job card part record
     const result = await tx.insert(jobCardParts).values(jobCardPart).returning();
-
-    // Deduct stock
-    await tx.update(partsInventory)
-      .set({ quantity: sql`${partsInventory.quantity} - ${jobCardPart.quantity}` })
-      .where(eq(partsInventory.id, jobCardPart.partId));
-
     return result[0];
   });
 }
 
-export async function removePartFromJobCard(jobCardPartId: string): Promise<void> {
+export async function removePartFromJobCard(jobCardPartId: string, userId?: string): Promise<void> {
   await db.transaction(async (tx) => {
     // Get the job card part to know how much stock to add back
     const jobCardPart = await tx.select().from(jobCardParts).where(eq(jobCardParts.id, jobCardPartId)).limit(1);
@@ -179,16 +248,22 @@ export async function removePartFromJobCard(jobCardPartId: string): Promise<void
     }
 
     // Add stock back
-    await tx.update(partsInventory)
-      .set({ quantity: sql`${partsInventory.quantity} + ${jobCardPart[0].quantity}` })
-      .where(eq(partsInventory.id, jobCardPart[0].partId));
+    await applyStockMovement(tx, {
+      partId: jobCardPart[0].partId,
+      type: "return",
+      quantityChange: jobCardPart[0].quantity,
+      userId,
+      sourceType: "job_card",
+      sourceId: jobCardPart[0].jobCardId,
+      notes: "Removed from job card",
+    });
 
     // Delete the job card part
     await tx.delete(jobCardParts).where(eq(jobCardParts.id, jobCardPartId));
   });
 }
 
-export async function updateJobCardPartQuantity(jobCardPartId: string, newQuantity: number): Promise<JobCardPart> {
+export async function updateJobCardPartQuantity(jobCardPartId: string, newQuantity: number, userId?: string): Promise<JobCardPart> {
   return await db.transaction(async (tx) => {
     // Get current job card part
     const currentPart = await tx.select().from(jobCardParts).where(eq(jobCardParts.id, jobCardPartId)).limit(1);
@@ -196,28 +271,21 @@ export async function updateJobCardPartQuantity(jobCardPartId: string, newQuanti
       throw new Error("Job card part not found");
     }
 
+    // More used deducts stock (fails on insufficient stock), less used returns it
     const quantityDiff = newQuantity - currentPart[0].quantity;
-
     if (quantityDiff > 0) {
-      // Need to deduct more stock
-      const part = await tx.select().from(partsInventory).where(eq(partsInventory.id, currentPart[0].partId)).limit(1);
-      if (!part[0]) {
-        throw new Error("Part not found");
-      }
-
-      if (part[0].quantity < quantityDiff) {
-        throw new Error(`Insufficient stock. Available: ${part[0].quantity}, Required: ${quantityDiff}`);
-      }
-
-      await tx.update(partsInventory)
-        .set({ quantity: sql`${partsInventory.quantity} - ${quantityDiff}` })
-        .where(eq(partsInventory.id, currentPart[0].partId));
-    } else if (quantityDiff < 0) {
-      // Add stock back
-      const stockToReturn = Math.abs(quantityDiff);
-      await tx.update(partsInventory)
-        .set({ quantity: sql`${partsInventory.quantity} + ${stockToReturn}` })
-        .where(eq(partsInventory.id, currentPart[0].partId));
+      await consumeJobCardReservations(tx, currentPart[0].jobCardId, currentPart[0].partId, quantityDiff);
+      await assertPartAvailable(tx, currentPart[0].partId, quantityDiff);
+    }
+    if (quantityDiff !== 0) {
+      await applyStockMovement(tx, {
+        partId: currentPart[0].partId,
+        type: quantityDiff > 0 ? "job_consumption" : "return",
+        quantityChange: -quantityDiff,
+        userId,
+        sourceType: "job_card",
+        sourceId: currentPart[0].jobCardId,
+      });
     }
 
     // Update the job card part quantity
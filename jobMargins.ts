@@ -0,0 +1,114 @@
+/**
+ * Job Margins
+ *
+ * Gross margin on a job card or invoice, split into parts and labour:
+ * - Parts cost is what was booked to COGS for the job card (weighted-average cost at the
+ *   time each part was consumed, net of returns)
+ * - Labour cost is mechanic time from the job card's timer sessions at each mechanic's
+ *   laborCostRate, falling back to pricingSettings.defaultLaborCostRate
+ * - Job card revenue is the parts at priceAtTime plus laborHours at laborRate; invoice revenue
+ *   is its parts and labour line items. An invoice with no job card has no recorded cost.
+ */
+
+import { storage } from "./storage";
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export interface MarginLine {
+  revenue: number;
+  cost: number;
+  margin: number;
+  marginPercent: number | null;
+}
+
+export interface JobMargin {
+  jobCardId: string | null;
+  invoiceId?: string;
+  parts: MarginLine;
+  labour: MarginLine & { hoursLogged: number };
+  total: MarginLine;
+}
+
+function marginLine(revenue: number, cost: number): MarginLine {
+  const margin = revenue - cost;
+  return {
+    revenue: roundCurrency(revenue),
+    cost: roundCurrency(cost),
+    margin: roundCurrency(margin),
+    marginPercent: revenue > 0 ? roundCurrency((margin / revenue) * 100) : null,
+  };
+}
+
+/**
+ * Parts and labour cost recorded against a job card
+ */
+async function getJobCardCosts(jobCardId: string): Promise<{ partsCost: number; labourCost: number; hoursLogged: number }> {
+  const [cogs, laborSeconds, pricing] = await Promise.all([
+    storage.getJobCardCogs(jobCardId),
+    storage.getJobCardLaborSeconds(jobCardId),
+    storage.getPricingSettings(),
+  ]);
+  const partsCost = cogs.reduce((total, row) => total + row.amount, 0);
+  const defaultRate = parseFloat(pricing?.defaultLaborCostRate || "0");
+
+  let labourCost = 0;
+  let seconds = 0;
+  for (const [mechanicId, logged] of laborSeconds) {
+    const mechanic = await storage.getUser(mechanicId);
+    const rate = mechanic?.laborCostRate ? parseFloat(mechanic.laborCostRate) : defaultRate;
+    labourCost += (logged / 3600) * rate;
+    seconds += logged;
+  }
+
+  return { partsCost, labourCost, hoursLogged: roundCurrency(seconds / 3600) };
+}
+
+function buildMargin(
+  jobCardId: string | null,
+  revenue: { parts: number; labour: number },
+  costs: { partsCost: number; labourCost: number; hoursLogged: number }
+): JobMargin {
+  return {
+    jobCardId,
+    parts: marginLine(revenue.parts, costs.partsCost),
+    labour: { ...marginLine(revenue.labour, costs.labourCost), hoursLogged: costs.hoursLogged },
+    total: marginLine(revenue.parts + revenue.labour, costs.partsCost + costs.labourCost),
+  };
+}
+
+export async function getJobCardMargin(jobCardId: string): Promise<JobMargin | undefined> {
+  const jobCard = await storage.getJobCard(jobCardId);
+  if (!jobCard) {
+    return undefined;
+  }
+
+  const [parts, costs] = await Promise.all([
+    storage.getJobCardParts(jobCardId),
+    getJobCardCosts(jobCardId),
+  ]);
+  const partsRevenue = parts.reduce((total, part) => total + part.quantity * parseFloat(part.priceAtTime), 0);
+  const labourRevenue = parseFloat(jobCard.laborHours || "0") * parseFloat(jobCard.laborRate || "0");
+
+  return buildMargin(jobCardId, { parts: partsRevenue, labour: labourRevenue }, costs);
+}
+
+export async function getInvoiceMargin(invoiceId: string): Promise<JobMargin | undefined> {
+  const invoice = await storage.getInvoice(invoiceId);
+  if (!invoice) {
+    return undefined;
+  }
+
+  const items = await storage.getInvoiceItems(invoiceId);
+  const revenue = { parts: 0, labour: 0 };
+  for (const item of items) {
+    revenue[item.type === "labour" ? "labour" : "parts"] += parseFloat(item.total);
+  }
+
+  const costs = invoice.jobCardId
+    ? await getJobCardCosts(invoice.jobCardId)
+    : { partsCost: 0, labourCost: 0, hoursLogged: 0 };
+
+  return { ...buildMargin(invoice.jobCardId, revenue, costs), invoiceId };
+}
@@ -0,0 +1,109 @@
+/**
+ * Background Job Scheduler
+ *
+ * Runs recurring jobs (late fees, reminders, ...) on fixed intervals inside the
+ * API server process. A job is never started while its previous run is still
+ * in progress, and a failing run is logged without stopping the schedule.
+ * Each job's last run time is stored, so after a restart a job that is due (or
+ * has never run) runs straight away instead of waiting a full interval.
+ *
+ * Set DISABLE_SCHEDULED_JOBS=true to turn the scheduler off (e.g., when several
+ * API instances share one database and only one should run jobs).
+ */
+
+import { storage } from "./storage";
+import { runLateFeeJob } from "./lateFeeAssessment";
+import { runPaymentPlanJob } from "./paymentPlanMonitor";
+import { runPaymentReminderJob } from "./paymentReminderRunner";
+import { pushNotificationService } from "./pushNotifications";
+import { runCampaignDispatcher } from "./campaignSender";
+import { routeQueuedConversations } from "./chatRouter";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<unknown>;
+  running: boolean;
+  timer?: NodeJS.Timeout;
+}
+
+const jobs: ScheduledJob[] = [];
+
+async function runJob(job: ScheduledJob): Promise<void> {
+  if (job.running) return;
+
+  job.running = true;
+  try {
+    await storage.recordScheduledJobRun(job.name, new Date());
+    await job.run();
+  } catch (error) {
+    console.error(`Scheduled job "${job.name}" failed:`, error);
+  } finally {
+    job.running = false;
+  }
+}
+
+/**
+ * Register a job to run every intervalMs
+ * The first run is one interval after lastRunAt, or straight away if that has
+ * passed or the job has never run.
+ */
+export function scheduleJob(
+  name: string,
+  intervalMs: number,
+  run: () => Promise<unknown>,
+  lastRunAt?: Date
+): void {
+  const job: ScheduledJob = { name, intervalMs, run, running: false };
+  const firstRunDelay = lastRunAt ? Math.max(0, lastRunAt.getTime() + intervalMs - Date.now()) : 0;
+  job.timer = setTimeout(() => {
+    job.timer = setInterval(() => {
+      void runJob(job);
+    }, intervalMs);
+    void runJob(job);
+  }, firstRunDelay);
+  jobs.push(job);
+}
+
+/**
+ * Register all recurring jobs, resuming each from its last recorded run
+ */
+export async function startScheduledJobs(): Promise<void> {
+  if (process.env.DISABLE_SCHEDULED_JOBS === "true") {
+    console.log("Scheduled jobs disabled (DISABLE_SCHEDULED_JOBS=true)");
+    return;
+  }
+
+  const lastRuns = new Map<string, Date>();
+  try {
+    for (const jobRun of await storage.getScheduledJobRuns()) {
+      lastRuns.set(jobRun.name, jobRun.lastRunAt);
+    }
+  } catch (error) {
+    console.error("Could not load scheduled job run times; running all jobs now:", error);
+  }
+
+  const schedule = (name: string, intervalMs: number, run: () => Promise<unknown>) =>
+    scheduleJob(name, intervalMs, run, lastRuns.get(name));
+
+  schedule("late-fees", 24 * HOUR_MS, () => runLateFeeJob());
+  schedule("payment-plans", 24 * HOUR_MS, () => runPaymentPlanJob());
+  schedule("payment-reminders", 24 * HOUR_MS, () => runPaymentReminderJob());
+  schedule("push-receipts", HOUR_MS, () => pushNotificationService.checkReceipts());
+  schedule("segment-recounts", 6 * HOUR_MS, () => storage.recountDynamicSegments());
+  schedule("campaign-dispatcher", MINUTE_MS, () => runCampaignDispatcher());
+  schedule("chat-routing", MINUTE_MS, () => routeQueuedConversations());
+  schedule("part-reservations", 15 * MINUTE_MS, () => storage.expirePartReservations());
+
+  console.log(`Scheduled jobs started: ${jobs.map(job => job.name).join(", ")}`);
+}
+
+export function stopScheduledJobs(): void {
+  for (const job of jobs) {
+    if (job.timer) clearTimeout(job.timer);
+  }
+  jobs.length = 0;
+}
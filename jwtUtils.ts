@@ -40,6 +40,7 @@ export interface JWTPayload {
   email: string;
   role: string;
   type: "access" | "refresh";
+  exp?: number; // Set by jwt.sign from expiresIn (seconds since epoch)
 }
 
 export function generateAccessToken(userId: string, email: string, role: string): string {
@@ -0,0 +1,170 @@
+/**
+ * Late Fee Assessment Job
+ *
+ * Scans overdue invoices (other than those on an active payment plan) and applies
+ * late fees according to lateFeeSettings:
+ * - Grace period after the due date before the first fee
+ * - Percentage (of the outstanding balance, excluding earlier fees) or fixed fee
+ * - Optional recurring fees every recurringIntervalDays
+ * - Caps on total fees per invoice (fixed amount and % of invoice total)
+ *
+ * Each fee is recorded against its overdue period (0 for the first, then one per
+ * recurring interval) and an invoice can only be charged once per period, so a manual
+ * run overlapping the scheduled one cannot double-charge.
+ *
+ * Runs daily from the job scheduler and on demand via POST /api/late-fees/run.
+ */
+
+import { storage } from "./storage";
+import { ACTIVE_LATE_FEE_STATUSES } from "./storage/lateFees.storage";
+import type { Invoice, LateFee, LateFeeSettings } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LateFeeAssessment {
+  invoiceId: string;
+  invoiceNumber: string;
+  customerId: string;
+  daysOverdue: number;
+  feeType: string;
+  feeAmount: number;
+  calculationBasis: string | null;
+  assessmentPeriod: number;
+}
+
+export interface LateFeeJobResult {
+  enabled: boolean;
+  dryRun: boolean;
+  invoicesScanned: number;
+  assessments: LateFeeAssessment[];
+  errors: Array<{ invoiceId: string; message: string }>;
+}
+
+/**
+ * Work out the fee due on one invoice, or null if no fee is due yet
+ */
+export function assessLateFee(
+  invoice: Invoice,
+  existingFees: LateFee[],
+  settings: LateFeeSettings,
+  asOf: Date
+): LateFeeAssessment | null {
+  const daysOverdue = Math.floor((asOf.getTime() - new Date(invoice.dueDate).getTime()) / DAY_MS);
+  if (daysOverdue <= settings.gracePeriodDays) {
+    return null;
+  }
+
+  const interval = settings.recurringIntervalDays || 30;
+  const assessmentPeriod = settings.applyRecurring
+    ? Math.floor((daysOverdue - settings.gracePeriodDays - 1) / interval)
+    : 0;
+  // A period is only assessed once, even if its fee was later waived or voided
+  if (existingFees.some(fee => fee.assessmentPeriod === assessmentPeriod)) {
+    return null;
+  }
+
+  const activeFees = existingFees.filter(fee => ACTIVE_LATE_FEE_STATUSES.includes(fee.status));
+  if (activeFees.length > 0) {
+    if (!settings.applyRecurring) {
+      return null;
+    }
+    const lastApplied = Math.max(...activeFees.map(fee => new Date(fee.appliedDate).getTime()));
+    if (asOf.getTime() - lastApplied < interval * DAY_MS) {
+      return null;
+    }
+  }
+
+  // Invoice total already includes earlier fees; the fee and caps are measured against the original amount
+  const feesToDate = activeFees.reduce((acc, fee) => acc + parseFloat(fee.feeAmount), 0);
+  const originalTotal = parseFloat(invoice.total) - feesToDate;
+  const outstanding = Math.max(0, originalTotal - parseFloat(invoice.paidAmount || "0"));
+
+  let feeAmount: number;
+  let calculationBasis: string | null = null;
+  if (settings.feeType === "percentage") {
+    feeAmount = outstanding * (parseFloat(settings.feePercentage) / 100);
+    calculationBasis = outstanding.toFixed(2);
+  } else {
+    feeAmount = parseFloat(settings.feeAmount);
+  }
+
+  const caps: number[] = [];
+  if (settings.maxFeeAmount) {
+    caps.push(parseFloat(settings.maxFeeAmount));
+  }
+  if (settings.maxFeePercentage) {
+    caps.push(originalTotal * (parseFloat(settings.maxFeePercentage) / 100));
+  }
+  if (caps.length > 0) {
+    feeAmount = Math.min(feeAmount, Math.min(...caps) - feesToDate);
+  }
+
+  feeAmount = Math.round(feeAmount * 100) / 100;
+  if (feeAmount <= 0) {
+    return null;
+  }
+
+  return {
+    invoiceId: invoice.id,
+    invoiceNumber: invoice.invoiceNumber,
+    customerId: invoice.customerId,
+    daysOverdue,
+    feeType: settings.feeType,
+    feeAmount,
+    calculationBasis,
+    assessmentPeriod,
+  };
+}
+
+/**
+ * Assess and (unless dryRun) apply late fees to all overdue invoices
+ */
+export async function runLateFeeJob(options: { dryRun?: boolean; asOf?: Date } = {}): Promise<LateFeeJobResult> {
+  const dryRun = options.dryRun ?? false;
+  const asOf = options.asOf ?? new Date();
+  const result: LateFeeJobResult = { enabled: false, dryRun, invoicesScanned: 0, assessments: [], errors: [] };
+
+  const settings = await storage.getLateFeeSettings();
+  if (!settings?.enabled) {
+    return result;
+  }
+  result.enabled = true;
+
+  const cutoff = new Date(asOf.getTime() - settings.gracePeriodDays * DAY_MS);
+  const overdueInvoices = await storage.getInvoicesDueBefore(cutoff);
+  result.invoicesScanned = overdueInvoices.length;
+
+  for (const invoice of overdueInvoices) {
+    try {
+      const existingFees = await storage.getLateFeesByInvoice(invoice.id);
+      const assessment = assessLateFee(invoice, existingFees, settings, asOf);
+      if (!assessment) continue;
+
+      if (!dryRun) {
+        const applied = await storage.applyLateFee({
+          invoiceId: assessment.invoiceId,
+          customerId: assessment.customerId,
+          feeAmount: assessment.feeAmount.toFixed(2),
+          feeType: assessment.feeType,
+          calculationBasis: assessment.calculationBasis,
+          daysOverdue: assessment.daysOverdue,
+          appliedDate: asOf,
+          assessmentPeriod: assessment.assessmentPeriod,
+        });
+        // Another run charged this period first
+        if (!applied) continue;
+      }
+
+      result.assessments.push(assessment);
+    } catch (error: any) {
+      console.error(`Error assessing late fee for invoice ${invoice.invoiceNumber}:`, error);
+      result.errors.push({ invoiceId: invoice.id, message: error.message || "Unknown error" });
+    }
+  }
+
+  if (!dryRun) {
+    console.log(`Late fee job: ${result.assessments.length} fee(s) applied across ${result.invoicesScanned} overdue invoice(s)`);
+  }
+
+  return result;
+}
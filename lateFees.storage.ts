@@ -0,0 +1,226 @@
+/**
+ * Late Fees Storage Module
+ * Handles late payment fee data operations:
+ * - Late fee settings (single row config)
+ * - Late fees applied to overdue invoices
+ * - Waiving and voiding fees with invoice balance adjustment
+ */
+
+import {
+  db,
+  eq,
+  and,
+  desc,
+  sql,
+  lt,
+  inArray,
+  notInArray,
+  lateFeeSettings,
+  lateFees,
+  invoices,
+  paymentPlans,
+  paymentPlanInstallments,
+  type LateFeeSettings,
+  type InsertLateFeeSettings,
+  type LateFee,
+  type InsertLateFee,
+  type Invoice,
+} from "./base";
+import { updateInvoicePaymentStatus } from "./invoices.storage";
+import { paymentPlansStorage } from "./paymentPlans.storage";
+
+// Fee statuses that still count against the customer
+export const ACTIVE_LATE_FEE_STATUSES = ["applied", "paid"];
+
+class LateFeesStorage {
+  // ============================================================
+  // LATE FEE SETTINGS
+  // ============================================================
+
+  async getLateFeeSettings(): Promise<LateFeeSettings | null> {
+    const [settings] = await db
+      .select()
+      .from(lateFeeSettings)
+      .where(eq(lateFeeSettings.id, 1))
+      .limit(1);
+    return settings || null;
+  }
+
+  async updateLateFeeSettings(data: Partial<InsertLateFeeSettings>): Promise<LateFeeSettings> {
+    const [settings] = await db
+      .select()
+      .from(lateFeeSettings)
+      .where(eq(lateFeeSettings.id, 1))
+      .limit(1);
+
+    if (settings) {
+      const [updated] = await db
+        .update(lateFeeSettings)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(lateFeeSettings.id, 1))
+        .returning();
+      return updated;
+    } else {
+      const [created] = await db
+        .insert(lateFeeSettings)
+        .values({ id: 1, ...data })
+        .returning();
+      return created;
+    }
+  }
+
+  // ============================================================
+  // LATE FEES
+  // ============================================================
+
+  async getLateFees(filters?: { invoiceId?: string; customerId?: string; status?: string }): Promise<LateFee[]> {
+    const conditions = [];
+
+    if (filters?.invoiceId) {
+      conditions.push(eq(lateFees.invoiceId, filters.invoiceId));
+    }
+    if (filters?.customerId) {
+      conditions.push(eq(lateFees.customerId, filters.customerId));
+    }
+    if (filters?.status) {
+      conditions.push(eq(lateFees.status, filters.status));
+    }
+
+    return await db
+      .select()
+      .from(lateFees)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(lateFees.appliedDate));
+  }
+
+  async getLateFee(id: string): Promise<LateFee | undefined> {
+    const [fee] = await db
+      .select()
+      .from(lateFees)
+      .where(eq(lateFees.id, id))
+      .limit(1);
+    return fee;
+  }
+
+  async getLateFeesByInvoice(invoiceId: string): Promise<LateFee[]> {
+    return await this.getLateFees({ invoiceId });
+  }
+
+  /**
+   * Get unpaid invoices whose due date is before the given cutoff
+   * Invoices on an active payment plan are left out; the plan's own schedule and
+   * missed-payment fees apply to them instead
+   */
+  async getInvoicesDueBefore(cutoff: Date): Promise<Invoice[]> {
+    return await db
+      .select()
+      .from(invoices)
+      .where(
+        and(
+          inArray(invoices.status, ["sent", "partially_paid", "overdue"]),
+          lt(invoices.dueDate, cutoff),
+          sql`CAST(${invoices.total} AS DECIMAL) - CAST(${invoices.paidAmount} AS DECIMAL) > 0`,
+          notInArray(
+            invoices.id,
+            db.select({ invoiceId: paymentPlans.invoiceId }).from(paymentPlans).where(eq(paymentPlans.status, "active"))
+          )
+        )
+      )
+      .orderBy(invoices.dueDate);
+  }
+
+  /**
+   * Apply a late fee to an invoice
+   * The fee is added to the invoice total, then balance and status are recalculated.
+   * Returns null without charging anything when the invoice already has a fee for the
+   * same assessment period, so overlapping late fee runs cannot charge twice.
+   */
+  async applyLateFee(fee: InsertLateFee): Promise<LateFee | null> {
+    const created = await db.transaction(async (tx) => {
+      const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, fee.invoiceId)).for("update");
+      if (!invoice) {
+        throw new Error("Invoice not found");
+      }
+
+      const [createdFee] = await tx
+        .insert(lateFees)
+        .values({ ...fee, status: "applied" })
+        .onConflictDoNothing({ target: [lateFees.invoiceId, lateFees.assessmentPeriod] })
+        .returning();
+      if (!createdFee) {
+        return null;
+      }
+
+      await tx
+        .update(invoices)
+        .set({
+          total: (parseFloat(invoice.total) + parseFloat(fee.feeAmount)).toFixed(2),
+          updatedAt: new Date(),
+        })
+        .where(eq(invoices.id, invoice.id));
+
+      return createdFee;
+    });
+
+    if (created) {
+      await updateInvoicePaymentStatus(fee.invoiceId);
+    }
+    return created;
+  }
+
+  /**
+   * Reverse an applied late fee
+   * - waived: the fee was valid but forgiven
+   * - void: the fee was applied in error
+   * The fee is removed from the invoice total (and from the installment it was charged for, if
+   * any) and the invoice status and its payment plan's allocation are recalculated
+   */
+  async reverseLateFee(id: string, status: "waived" | "void", userId: string, reason: string): Promise<LateFee> {
+    const reversed = await db.transaction(async (tx) => {
+      // Lock the fee so concurrent reversals see each other's status change
+      const [fee] = await tx.select().from(lateFees).where(eq(lateFees.id, id)).limit(1).for("update");
+      if (!fee) {
+        throw new Error("Late fee not found");
+      }
+      if (fee.status !== "applied") {
+        throw new Error(`Late fee is already ${fee.status}`);
+      }
+
+      const [updatedFee] = await tx
+        .update(lateFees)
+        .set({
+          status,
+          waivedBy: userId,
+          waivedAt: new Date(),
+          waivedReason: reason,
+        })
+        .where(eq(lateFees.id, id))
+        .returning();
+
+      const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, fee.invoiceId)).limit(1).for("update");
+      if (invoice) {
+        await tx
+          .update(invoices)
+          .set({
+            total: Math.max(0, parseFloat(invoice.total) - parseFloat(fee.feeAmount)).toFixed(2),
+            updatedAt: new Date(),
+          })
+          .where(eq(invoices.id, invoice.id));
+      }
+
+      await tx
+        .update(paymentPlanInstallments)
+        .set({ lateFee: "0" })
+        .where(eq(paymentPlanInstallments.lateFeeId, id));
+
+      return updatedFee;
+    });
+
+    await updateInvoicePaymentStatus(reversed.invoiceId);
+    await paymentPlansStorage.reallocatePaymentPlan(reversed.invoiceId);
+    return reversed;
+  }
+}
+
+// Export singleton instance
+export const lateFeesStorage = new LateFeesStorage();
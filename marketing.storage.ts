@@ -1,6 +1,7 @@
 /**
  * Marketing Storage Module
- * Handles email campaigns, coupons, loyalty points, customer referrals, and promotional banners
+ * Handles email campaigns (audiences and per-recipient delivery), coupons, loyalty points,
+ * customer referrals, and promotional banners
  */
 
 import {
@@ -9,8 +10,11 @@ import {
   and,
   desc,
   sql,
+  lte,
+  inArray,
   // Marketing-related tables
   emailCampaigns,
+  campaignRecipients,
   coupons,
   loyaltyPointsTransactions,
   loyaltySettings,
@@ -19,6 +23,8 @@ import {
   // Marketing-related types
   type EmailCampaign,
   type InsertEmailCampaign,
+  type CampaignRecipient,
+  type InsertCampaignRecipient,
   type Coupon,
   type InsertCoupon,
   type LoyaltyPointsTransaction,
@@ -32,6 +38,26 @@ import {
 
 // Import sum function from drizzle-orm
 import { sum } from "drizzle-orm";
+import { crmStorage, parseSegmentFilters } from "./crm.storage";
+import { searchCustomers } from "./users.storage";
+
+export interface CampaignAudience {
+  recipients: User[];
+  optedOut: number;
+  missingEmail: number;
+}
+
+/**
+ * Whether a campaign says who it goes to: recipients, a segment, tags, a filter,
+ * or explicitly every customer
+ */
+export function hasCampaignTargeting(campaign: EmailCampaign): boolean {
+  return campaign.recipientIds.length > 0
+    || !!campaign.segmentId
+    || (campaign.tagIds?.length ?? 0) > 0
+    || (!!campaign.recipientFilter && Object.keys(campaign.recipientFilter).length > 0)
+    || campaign.targetAllCustomers;
+}
 
 class MarketingStorage {
   // ========================================
@@ -62,6 +88,149 @@ class MarketingStorage {
     return result[0];
   }
 
+  /**
+   * Get scheduled campaigns whose send time has arrived
+   */
+  async getDueScheduledCampaigns(asOf: Date = new Date()): Promise<EmailCampaign[]> {
+    return await db
+      .select()
+      .from(emailCampaigns)
+      .where(and(eq(emailCampaigns.status, "scheduled"), lte(emailCampaigns.scheduledFor, asOf)))
+      .orderBy(emailCampaigns.scheduledFor);
+  }
+
+  async updateEmailCampaignDelivery(
+    id: string,
+    delivery: { status?: string; sentCount?: number; failedCount?: number; sentAt?: Date }
+  ): Promise<EmailCampaign | undefined> {
+    const result = await db
+      .update(emailCampaigns)
+      .set({ ...delivery, updatedAt: new Date() })
+      .where(eq(emailCampaigns.id, id))
+      .returning();
+    return result[0];
+  }
+
+  // ========================================
+  // CAMPAIGN AUDIENCE & RECIPIENTS
+  // ========================================
+
+  /**
+   * Resolve who a campaign goes to
+   * - recipientIds, when set, is the audience
+   * - otherwise the segment, tags and recipientFilter are combined (customers must match all given)
+   * - with none of those, every active customer only if targetAllCustomers is set, else nobody
+   * Customers who opted out of marketing or have no email are excluded and counted
+   */
+  async getCampaignAudience(campaign: EmailCampaign): Promise<CampaignAudience> {
+    const audience: CampaignAudience = { recipients: [], optedOut: 0, missingEmail: 0 };
+    if (!hasCampaignTargeting(campaign)) {
+      return audience;
+    }
+
+    const intersect = (current: Set<string> | null, ids: string[]): Set<string> =>
+      current === null ? new Set(ids) : new Set(ids.filter(id => current.has(id)));
+
+    let targetIds: Set<string> | null = null;
+    if (campaign.recipientIds.length > 0) {
+      targetIds = intersect(targetIds, campaign.recipientIds);
+    } else {
+      if (campaign.segmentId) {
+        const members = await crmStorage.getCustomerSegmentMembers(campaign.segmentId);
+        targetIds = intersect(targetIds, members.map(member => member.id));
+      }
+      if (campaign.tagIds && campaign.tagIds.length > 0) {
+        targetIds = intersect(targetIds, await crmStorage.getCustomerIdsByTags(campaign.tagIds));
+      }
+      if (campaign.recipientFilter && Object.keys(campaign.recipientFilter).length > 0) {
+        const matches = await searchCustomers("", parseSegmentFilters(campaign.recipientFilter));
+        targetIds = intersect(targetIds, matches.map(match => match.id));
+      }
+    }
+
+    const ids = targetIds ? Array.from(targetIds) : null;
+    if (ids !== null && ids.length === 0) {
+      return audience;
+    }
+
+    const conditions = [eq(users.role, "customer"), eq(users.isActive, true)];
+    if (ids !== null) {
+      conditions.push(inArray(users.id, ids));
+    }
+    const customers = await db.select().from(users).where(and(...conditions));
+
+    for (const customer of customers) {
+      if (customer.marketingOptOut) {
+        audience.optedOut++;
+      } else if (!customer.email) {
+        audience.missingEmail++;
+      } else {
+        audience.recipients.push(customer);
+      }
+    }
+    return audience;
+  }
+
+  /**
+   * Add recipients to a campaign; customers already on it are left untouched
+   */
+  async addCampaignRecipients(recipients: InsertCampaignRecipient[]): Promise<void> {
+    if (recipients.length === 0) return;
+    await db.insert(campaignRecipients).values(recipients).onConflictDoNothing();
+  }
+
+  async getCampaignRecipients(campaignId: string, status?: string, limit?: number): Promise<CampaignRecipient[]> {
+    const conditions = [eq(campaignRecipients.campaignId, campaignId)];
+    if (status) {
+      conditions.push(eq(campaignRecipients.status, status));
+    }
+    const query = db
+      .select()
+      .from(campaignRecipients)
+      .where(and(...conditions))
+      .orderBy(campaignRecipients.createdAt);
+    return limit ? await query.limit(limit) : await query;
+  }
+
+  async getCampaignRecipientCounts(campaignId: string): Promise<Record<string, number>> {
+    const rows = await db
+      .select({ status: campaignRecipients.status, count: sql<number>`count(*)::int` })
+      .from(campaignRecipients)
+      .where(eq(campaignRecipients.campaignId, campaignId))
+      .groupBy(campaignRecipients.status);
+    return Object.fromEntries(rows.map(row => [row.status, row.count]));
+  }
+
+  /**
+   * Mark every recipient still waiting on a campaign as cancelled
+   */
+  async cancelPendingCampaignRecipients(campaignId: string): Promise<number> {
+    const cancelled = await db
+      .update(campaignRecipients)
+      .set({ status: "cancelled" })
+      .where(and(eq(campaignRecipients.campaignId, campaignId), eq(campaignRecipients.status, "pending")))
+      .returning({ id: campaignRecipients.id });
+    return cancelled.length;
+  }
+
+  async updateCampaignRecipient(id: string, data: Partial<InsertCampaignRecipient>): Promise<CampaignRecipient | undefined> {
+    const result = await db
+      .update(campaignRecipients)
+      .set(data)
+      .where(eq(campaignRecipients.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async getCampaignRecipientByUnsubscribeToken(token: string): Promise<CampaignRecipient | undefined> {
+    const result = await db
+      .select()
+      .from(campaignRecipients)
+      .where(eq(campaignRecipients.unsubscribeToken, token))
+      .limit(1);
+    return result[0];
+  }
+
   // ========================================
   // COUPONS
   // ========================================
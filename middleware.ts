@@ -303,3 +303,35 @@ export const requireRoleOrPermission = (allowedRoles: string[], permissionCode:
     }
   };
 };
+
+// Per-IP request limit for public endpoints (counts live in this process)
+export const rateLimit = (options: { windowMs: number; max: number; message?: string }): RequestHandler => {
+  const hits = new Map<string, { count: number; resetAt: number }>();
+  let nextSweepAt = 0;
+
+  return (req, res, next) => {
+    const now = Date.now();
+    const key = req.ip || "unknown";
+
+    // Drop expired windows once per window so the map doesn't grow without bound
+    if (now >= nextSweepAt) {
+      for (const [ip, hit] of hits) {
+        if (hit.resetAt <= now) hits.delete(ip);
+      }
+      nextSweepAt = now + options.windowMs;
+    }
+
+    let entry = hits.get(key);
+    if (!entry || entry.resetAt <= now) {
+      entry = { count: 0, resetAt: now + options.windowMs };
+      hits.set(key, entry);
+    }
+
+    entry.count++;
+    if (entry.count > options.max) {
+      res.setHeader("Retry-After", Math.ceil((entry.resetAt - now) / 1000));
+      return res.status(429).json({ message: options.message || "Too many requests, please try again later" });
+    }
+    next();
+  };
+};
@@ -5,6 +5,7 @@
  * - Job card timer sessions
  * - Approval requests
  * - Customer notes
+ * - Scheduled job run times
  * - Notifications (placeholder for future implementation)
  */
 
@@ -30,6 +31,8 @@ import {
   customerNotes,
   type CustomerNote,
   type InsertCustomerNote,
+  scheduledJobRuns,
+  type ScheduledJobRun,
   users,
   invoices,
   appointments,
@@ -270,6 +273,20 @@ class MiscStorage {
     return await db.select().from(jobCardTimerSessions).where(eq(jobCardTimerSessions.id, sessionId));
   }
 
+  /**
+   * Seconds each mechanic has logged on a job card, counting a running timer up to now
+   */
+  async getJobCardLaborSeconds(jobCardId: string): Promise<Map<string, number>> {
+    const sessions = await db.select().from(jobCardTimerSessions).where(eq(jobCardTimerSessions.jobCardId, jobCardId));
+    const seconds = new Map<string, number>();
+    for (const session of sessions) {
+      const running = session.isActive ? Math.floor((Date.now() - session.startTime.getTime()) / 1000) : 0;
+      const logged = running + (session.totalSeconds ?? 0);
+      seconds.set(session.mechanicId, (seconds.get(session.mechanicId) ?? 0) + logged);
+    }
+    return seconds;
+  }
+
   async createTimerSession(session: InsertJobCardTimerSession): Promise<JobCardTimerSession> {
     const result = await db.insert(jobCardTimerSessions).values(session).returning();
     return result[0];
@@ -373,6 +390,21 @@ class MiscStorage {
     return result[0];
   }
 
+  // ============================================================
+  // SCHEDULED JOB RUNS
+  // ============================================================
+
+  async getScheduledJobRuns(): Promise<ScheduledJobRun[]> {
+    return await db.select().from(scheduledJobRuns);
+  }
+
+  async recordScheduledJobRun(name: string, lastRunAt: Date): Promise<void> {
+    await db
+      .insert(scheduledJobRuns)
+      .values({ name, lastRunAt })
+      .onConflictDoUpdate({ target: scheduledJobRuns.name, set: { lastRunAt } });
+  }
+
   // ============================================================
   // NOTIFICATIONS (Placeholder for future implementation)
   // ============================================================
@@ -0,0 +1,266 @@
+/**
+ * Notifications Storage Module
+ * Handles push notification data operations:
+ * - Per-user notification preferences
+ * - Notification history (push tickets, receipts and failures)
+ * - Clearing push tokens that Expo reports as invalid
+ * - Badge counts for the mobile app, derived from the unseen records behind them
+ */
+
+import {
+  db,
+  eq,
+  and,
+  desc,
+  gte,
+  lte,
+  isNotNull,
+  inArray,
+  notInArray,
+  or,
+  count,
+  users,
+  appointments,
+  jobCards,
+  invoices,
+  towRequests,
+  approvalRequests,
+  partsInventory,
+  notificationPreferences,
+  notificationHistory,
+  type NotificationPreferences,
+  type UpdateNotificationPreferences,
+  type NotificationHistory,
+  type InsertNotificationHistory,
+  badgeCounts,
+  badgeItems,
+  type BadgeCounts,
+} from "./base";
+
+export const BADGE_CATEGORIES = ["appointments", "jobCards", "invoices", "towRequests", "approvals", "lowStock"] as const;
+export type BadgeCategory = typeof BADGE_CATEGORIES[number];
+
+// Badge items whose record is still open, per category
+const stillNeedsAttention = or(
+  and(
+    eq(badgeItems.category, "appointments"),
+    inArray(
+      badgeItems.recordId,
+      db.select({ id: appointments.id }).from(appointments).where(notInArray(appointments.status, ["completed", "cancelled"]))
+    )
+  ),
+  and(
+    eq(badgeItems.category, "jobCards"),
+    inArray(
+      badgeItems.recordId,
+      db.select({ id: jobCards.id }).from(jobCards).where(notInArray(jobCards.status, ["completed", "cancelled"]))
+    )
+  ),
+  and(
+    eq(badgeItems.category, "invoices"),
+    inArray(
+      badgeItems.recordId,
+      db.select({ id: invoices.id }).from(invoices).where(inArray(invoices.status, ["sent", "partially_paid", "overdue"]))
+    )
+  ),
+  and(
+    eq(badgeItems.category, "towRequests"),
+    inArray(
+      badgeItems.recordId,
+      db.select({ id: towRequests.id }).from(towRequests).where(notInArray(towRequests.status, ["completed", "cancelled"]))
+    )
+  ),
+  and(
+    eq(badgeItems.category, "approvals"),
+    inArray(
+      badgeItems.recordId,
+      db.select({ id: approvalRequests.id }).from(approvalRequests).where(eq(approvalRequests.status, "pending"))
+    )
+  ),
+  and(
+    eq(badgeItems.category, "lowStock"),
+    inArray(
+      badgeItems.recordId,
+      db.select({ id: partsInventory.id }).from(partsInventory).where(lte(partsInventory.quantity, partsInventory.lowStockThreshold))
+    )
+  )
+);
+
+class NotificationsStorage {
+  // ============================================================
+  // NOTIFICATION PREFERENCES
+  // ============================================================
+
+  async getNotificationPreferences(userId: string): Promise<NotificationPreferences | undefined> {
+    const [preferences] = await db
+      .select()
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId))
+      .limit(1);
+    return preferences;
+  }
+
+  /**
+   * Get a user's preferences, creating the default (all enabled) row if missing
+   */
+  async getOrCreateNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+    const existing = await this.getNotificationPreferences(userId);
+    if (existing) {
+      return existing;
+    }
+
+    const [created] = await db
+      .insert(notificationPreferences)
+      .values({ userId })
+      .returning();
+    return created;
+  }
+
+  async updateNotificationPreferences(userId: string, data: UpdateNotificationPreferences): Promise<NotificationPreferences> {
+    await this.getOrCreateNotificationPreferences(userId);
+
+    const [updated] = await db
+      .update(notificationPreferences)
+      .set({ ...data, userId, updatedAt: new Date() })
+      .where(eq(notificationPreferences.userId, userId))
+      .returning();
+    return updated;
+  }
+
+  // ============================================================
+  // NOTIFICATION HISTORY
+  // ============================================================
+
+  async createNotificationHistory(entries: InsertNotificationHistory[]): Promise<NotificationHistory[]> {
+    if (entries.length === 0) {
+      return [];
+    }
+    return await db.insert(notificationHistory).values(entries).returning();
+  }
+
+  async getNotificationHistory(userId: string, limit: number = 50): Promise<NotificationHistory[]> {
+    return await db
+      .select()
+      .from(notificationHistory)
+      .where(eq(notificationHistory.userId, userId))
+      .orderBy(desc(notificationHistory.sentAt))
+      .limit(limit);
+  }
+
+  /**
+   * Get sent notifications whose Expo delivery receipt has not been checked yet
+   */
+  async getNotificationsAwaitingReceipt(since: Date): Promise<NotificationHistory[]> {
+    return await db
+      .select()
+      .from(notificationHistory)
+      .where(
+        and(
+          eq(notificationHistory.status, "sent"),
+          isNotNull(notificationHistory.expoTicketId),
+          gte(notificationHistory.sentAt, since)
+        )
+      )
+      .orderBy(notificationHistory.sentAt);
+  }
+
+  async updateNotificationHistoryStatus(
+    ids: string[],
+    status: "delivered" | "failed",
+    errorMessage?: string
+  ): Promise<void> {
+    if (ids.length === 0) return;
+
+    await db
+      .update(notificationHistory)
+      .set({ status, errorMessage: errorMessage ?? null })
+      .where(inArray(notificationHistory.id, ids));
+  }
+
+  // ============================================================
+  // BADGE COUNTS
+  // ============================================================
+
+  /**
+   * Count a user's unseen badge items per category
+   * Items drop out on their own once their record no longer needs attention (approval decided,
+   * invoice paid or cancelled, part restocked, appointment, job card or tow request completed or
+   * cancelled, record deleted).
+   * The counts are stored on the user's badgeCounts row and returned.
+   */
+  async getBadgeCounts(userId: string): Promise<BadgeCounts> {
+    const rows = await db
+      .select({ category: badgeItems.category, count: count() })
+      .from(badgeItems)
+      .where(and(eq(badgeItems.userId, userId), stillNeedsAttention))
+      .groupBy(badgeItems.category);
+
+    const counts = Object.fromEntries(BADGE_CATEGORIES.map(category => [category, 0])) as Record<BadgeCategory, number>;
+    for (const row of rows) {
+      if (BADGE_CATEGORIES.includes(row.category as BadgeCategory)) {
+        counts[row.category as BadgeCategory] = Number(row.count);
+      }
+    }
+    const total = BADGE_CATEGORIES.reduce((acc, category) => acc + counts[category], 0);
+
+    const [stored] = await db
+      .insert(badgeCounts)
+      .values({ userId, ...counts, total })
+      .onConflictDoUpdate({
+        target: badgeCounts.userId,
+        set: { ...counts, total, updatedAt: new Date() },
+      })
+      .returning();
+    return stored;
+  }
+
+  /**
+   * Add a record to a badge category for each user and return their updated counts
+   * A record counts once per user, however many notifications are sent about it
+   */
+  async addBadgeItems(userIds: string[], category: BadgeCategory, recordId: string): Promise<BadgeCounts[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+
+    await db
+      .insert(badgeItems)
+      .values(userIds.map(userId => ({ userId, category, recordId })))
+      .onConflictDoNothing();
+
+    const updated: BadgeCounts[] = [];
+    for (const userId of userIds) {
+      updated.push(await this.getBadgeCounts(userId));
+    }
+    return updated;
+  }
+
+  /**
+   * Clear a category (or every category) once the user has seen it
+   */
+  async markBadgesSeen(userId: string, category?: BadgeCategory): Promise<BadgeCounts> {
+    await db
+      .delete(badgeItems)
+      .where(category ? and(eq(badgeItems.userId, userId), eq(badgeItems.category, category)) : eq(badgeItems.userId, userId));
+    return await this.getBadgeCounts(userId);
+  }
+
+  // ============================================================
+  // PUSH TOKENS
+  // ============================================================
+
+  /**
+   * Remove a push token from every user holding it (e.g., after DeviceNotRegistered)
+   */
+  async clearPushToken(pushToken: string): Promise<number> {
+    const cleared = await db
+      .update(users)
+      .set({ pushToken: null, updatedAt: new Date() })
+      .where(eq(users.pushToken, pushToken))
+      .returning({ id: users.id });
+    return cleared.length;
+  }
+}
+
+// Export singleton instance
+export const notificationsStorage = new NotificationsStorage();
@@ -0,0 +1,55 @@
+/**
+ * Payment Plan Monitor Job
+ *
+ * Moves overdue installments of active payment plans to late or missed, charges
+ * the plan's late fee per missed payment on the invoice, and defaults plans that
+ * have missed too many installments.
+ *
+ * Runs daily from the job scheduler and on demand via POST /api/payment-plans/run.
+ */
+
+import { storage } from "./storage";
+
+export interface PaymentPlanJobResult {
+  late: number;
+  missed: number;
+  defaulted: number;
+  lateFeesApplied: number;
+}
+
+export async function runPaymentPlanJob(asOf: Date = new Date()): Promise<PaymentPlanJobResult> {
+  const statusResult = await storage.updateInstallmentStatuses(asOf);
+
+  let lateFeesApplied = 0;
+  for (const { installment, plan, daysPastDue } of statusResult.missed) {
+    if (!plan.lateFeePerMissedPayment || parseFloat(plan.lateFeePerMissedPayment) <= 0) continue;
+
+    try {
+      const fee = await storage.applyLateFee({
+        invoiceId: plan.invoiceId,
+        customerId: plan.customerId,
+        feeAmount: plan.lateFeePerMissedPayment,
+        feeType: "fixed",
+        daysOverdue: daysPastDue,
+        appliedDate: asOf,
+        notes: `Missed payment plan installment #${installment.installmentNumber}`,
+      });
+      if (fee) {
+        await storage.linkInstallmentLateFee(installment.id, fee.id);
+        lateFeesApplied++;
+      }
+    } catch (error) {
+      console.error(`Error applying missed installment fee for plan ${plan.id}:`, error);
+    }
+  }
+
+  const result = {
+    late: statusResult.late,
+    missed: statusResult.missed.length,
+    defaulted: statusResult.defaulted,
+    lateFeesApplied,
+  };
+
+  console.log(`Payment plan job: ${result.late} late, ${result.missed} missed, ${result.defaulted} defaulted`);
+  return result;
+}
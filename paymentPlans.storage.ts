@@ -0,0 +1,439 @@
+/**
+ * Payment Plans Storage Module
+ * Handles installment payment plans for invoices:
+ * - Plan creation with down payment and generated installment schedule
+ * - Allocation of invoice payments against installments
+ * - Late / missed installment tracking and plan default
+ */
+
+import {
+  db,
+  eq,
+  and,
+  asc,
+  desc,
+  lt,
+  gte,
+  inArray,
+  paymentPlans,
+  paymentPlanInstallments,
+  invoices,
+  payments,
+  type PaymentPlan,
+  type PaymentPlanInstallment,
+  type InsertPaymentPlanInstallment,
+  type Payment,
+  type Invoice,
+} from "./base";
+
+export type PaymentPlanFrequency = "weekly" | "biweekly" | "monthly";
+
+// Only issued invoices with money still owed can be put on a plan
+const PLANNABLE_INVOICE_STATUSES: Invoice["status"][] = ["sent", "partially_paid", "overdue"];
+
+export interface PaymentPlanInput {
+  invoiceId: string;
+  numberOfInstallments: number;
+  frequency: PaymentPlanFrequency;
+  startDate: Date;
+  downPayment?: number;
+  planName?: string;
+  lateFeePerMissedPayment?: string;
+  missedAfterDays?: number;
+  maxMissedPayments?: number;
+  notes?: string;
+  createdBy: string;
+}
+
+export interface PaymentPlanSummary {
+  plan: PaymentPlan;
+  installments: PaymentPlanInstallment[];
+  nextDueDate: Date | null;
+  nextInstallmentAmount: number;
+  remainingBalance: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Due date of the Nth period after the start date
+ */
+function addPeriods(start: Date, frequency: PaymentPlanFrequency, periods: number): Date {
+  const date = new Date(start);
+  if (frequency === "weekly") {
+    date.setDate(date.getDate() + 7 * periods);
+  } else if (frequency === "biweekly") {
+    date.setDate(date.getDate() + 14 * periods);
+  } else {
+    date.setMonth(date.getMonth() + periods);
+  }
+  return date;
+}
+
+const outstandingOn = (installment: PaymentPlanInstallment): number =>
+  parseFloat(installment.amount) + parseFloat(installment.lateFee || "0") - parseFloat(installment.paidAmount || "0");
+
+class PaymentPlansStorage {
+  // ============================================================
+  // PAYMENT PLANS
+  // ============================================================
+
+  async getAllPaymentPlans(filters?: { customerId?: string; status?: string }): Promise<PaymentPlan[]> {
+    const conditions = [];
+
+    if (filters?.customerId) {
+      conditions.push(eq(paymentPlans.customerId, filters.customerId));
+    }
+    if (filters?.status) {
+      conditions.push(eq(paymentPlans.status, filters.status));
+    }
+
+    return await db
+      .select()
+      .from(paymentPlans)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(paymentPlans.createdAt));
+  }
+
+  async getPaymentPlan(id: string): Promise<PaymentPlan | undefined> {
+    const [plan] = await db
+      .select()
+      .from(paymentPlans)
+      .where(eq(paymentPlans.id, id))
+      .limit(1);
+    return plan;
+  }
+
+  async getPaymentPlansByInvoice(invoiceId: string): Promise<PaymentPlan[]> {
+    return await db
+      .select()
+      .from(paymentPlans)
+      .where(eq(paymentPlans.invoiceId, invoiceId))
+      .orderBy(desc(paymentPlans.createdAt));
+  }
+
+  async getActivePaymentPlanForInvoice(invoiceId: string): Promise<PaymentPlan | undefined> {
+    const [plan] = await db
+      .select()
+      .from(paymentPlans)
+      .where(and(eq(paymentPlans.invoiceId, invoiceId), eq(paymentPlans.status, "active")))
+      .limit(1);
+    return plan;
+  }
+
+  async getPaymentPlanInstallments(planId: string): Promise<PaymentPlanInstallment[]> {
+    return await db
+      .select()
+      .from(paymentPlanInstallments)
+      .where(eq(paymentPlanInstallments.planId, planId))
+      .orderBy(asc(paymentPlanInstallments.installmentNumber));
+  }
+
+  /**
+   * Plan with its schedule, next due date and remaining balance (mobile view)
+   */
+  async getPaymentPlanSummary(planId: string): Promise<PaymentPlanSummary | undefined> {
+    const plan = await this.getPaymentPlan(planId);
+    if (!plan) return undefined;
+
+    const installments = await this.getPaymentPlanInstallments(planId);
+    const next = installments.find(installment => installment.status !== "paid");
+    const remainingBalance = installments.reduce((acc, installment) => acc + Math.max(0, outstandingOn(installment)), 0);
+
+    return {
+      plan,
+      installments,
+      nextDueDate: next ? next.dueDate : null,
+      nextInstallmentAmount: next ? Math.round(outstandingOn(next) * 100) / 100 : 0,
+      remainingBalance: Math.round(remainingBalance * 100) / 100,
+    };
+  }
+
+  /**
+   * Create a payment plan for the outstanding balance of an invoice
+   * A down payment becomes installment 0, due on the start date; the rest is split
+   * evenly across the installments, with rounding absorbed by the last one
+   */
+  async createPaymentPlan(input: PaymentPlanInput): Promise<PaymentPlan> {
+    return await db.transaction(async (tx) => {
+      const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, input.invoiceId)).limit(1);
+      if (!invoice) {
+        throw new Error("Invoice not found");
+      }
+      if (!PLANNABLE_INVOICE_STATUSES.includes(invoice.status)) {
+        throw new Error(`Cannot create a payment plan for a ${invoice.status.replace("_", " ")} invoice`);
+      }
+
+      const [existing] = await tx
+        .select({ id: paymentPlans.id })
+        .from(paymentPlans)
+        .where(and(eq(paymentPlans.invoiceId, input.invoiceId), eq(paymentPlans.status, "active")))
+        .limit(1);
+      if (existing) {
+        throw new Error("Invoice already has an active payment plan");
+      }
+
+      const outstanding = parseFloat(invoice.total) - parseFloat(invoice.paidAmount || "0");
+      const downPayment = input.downPayment ?? 0;
+      if (outstanding <= 0) {
+        throw new Error("Invoice has no outstanding balance");
+      }
+      if (input.numberOfInstallments < 1) {
+        throw new Error("A payment plan needs at least one installment");
+      }
+      if (downPayment < 0 || downPayment >= outstanding) {
+        throw new Error("Down payment must be less than the outstanding balance");
+      }
+
+      const financed = outstanding - downPayment;
+      const installmentAmount = Math.floor((financed / input.numberOfInstallments) * 100) / 100;
+      const firstDueDate = downPayment > 0 ? addPeriods(input.startDate, input.frequency, 1) : input.startDate;
+      const endDate = addPeriods(firstDueDate, input.frequency, input.numberOfInstallments - 1);
+
+      const [plan] = await tx
+        .insert(paymentPlans)
+        .values({
+          invoiceId: invoice.id,
+          customerId: invoice.customerId,
+          planName: input.planName || `${input.numberOfInstallments}-Installment Payment Plan`,
+          totalAmount: outstanding.toFixed(2),
+          numberOfInstallments: input.numberOfInstallments,
+          installmentAmount: installmentAmount.toFixed(2),
+          frequency: input.frequency,
+          startDate: input.startDate,
+          endDate,
+          nextDueDate: input.startDate,
+          downPayment: downPayment.toFixed(2),
+          lateFeePerMissedPayment: input.lateFeePerMissedPayment,
+          missedAfterDays: input.missedAfterDays,
+          maxMissedPayments: input.maxMissedPayments,
+          notes: input.notes,
+          createdBy: input.createdBy,
+        })
+        .returning();
+
+      const installments: InsertPaymentPlanInstallment[] = [];
+      if (downPayment > 0) {
+        installments.push({
+          planId: plan.id,
+          installmentNumber: 0,
+          dueDate: input.startDate,
+          amount: downPayment.toFixed(2),
+          notes: "Down payment",
+        });
+      }
+      for (let i = 0; i < input.numberOfInstallments; i++) {
+        const isLast = i === input.numberOfInstallments - 1;
+        const amount = isLast ? financed - installmentAmount * (input.numberOfInstallments - 1) : installmentAmount;
+        installments.push({
+          planId: plan.id,
+          installmentNumber: i + 1,
+          dueDate: addPeriods(firstDueDate, input.frequency, i),
+          amount: amount.toFixed(2),
+        });
+      }
+
+      await tx.insert(paymentPlanInstallments).values(installments);
+
+      return plan;
+    });
+  }
+
+  async cancelPaymentPlan(id: string, reason?: string): Promise<PaymentPlan | undefined> {
+    const [updated] = await db
+      .update(paymentPlans)
+      .set({
+        status: "cancelled",
+        nextDueDate: null,
+        ...(reason ? { notes: reason } : {}),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(paymentPlans.id, id), eq(paymentPlans.status, "active")))
+      .returning();
+    return updated;
+  }
+
+  // ============================================================
+  // PAYMENT ALLOCATION
+  // ============================================================
+
+  /**
+   * Allocate the payments made on an invoice since its plan was set up against the plan's
+   * installments, oldest payment to oldest installment
+   * The allocation is rebuilt from the payments on file, so a deleted payment comes back off
+   * the installments it paid (and a completed plan reopens). Does nothing when the invoice
+   * has no active or completed plan.
+   */
+  async reallocatePaymentPlan(invoiceId: string, asOf: Date = new Date()): Promise<PaymentPlan | undefined> {
+    return await db.transaction(async (tx) => {
+      const [plan] = await tx
+        .select()
+        .from(paymentPlans)
+        .where(and(eq(paymentPlans.invoiceId, invoiceId), inArray(paymentPlans.status, ["active", "completed"])))
+        .orderBy(desc(paymentPlans.createdAt))
+        .limit(1)
+        .for("update");
+      if (!plan) return undefined;
+
+      const planPayments = await tx
+        .select()
+        .from(payments)
+        .where(and(eq(payments.invoiceId, invoiceId), gte(payments.createdAt, plan.createdAt)))
+        .orderBy(asc(payments.paymentDate), asc(payments.createdAt));
+      const installments = await tx
+        .select()
+        .from(paymentPlanInstallments)
+        .where(eq(paymentPlanInstallments.planId, plan.id))
+        .orderBy(asc(paymentPlanInstallments.installmentNumber));
+
+      let paymentIndex = 0;
+      let available = planPayments.length > 0 ? parseFloat(planPayments[0].amount) : 0;
+
+      for (const installment of installments) {
+        const owed = parseFloat(installment.amount) + parseFloat(installment.lateFee || "0");
+        let paidAmount = 0;
+        let payment: Payment | undefined;
+
+        while (paidAmount < owed && paymentIndex < planPayments.length) {
+          payment = planPayments[paymentIndex];
+          const applied = Math.min(owed - paidAmount, available);
+          paidAmount = Math.round((paidAmount + applied) * 100) / 100;
+          available = Math.round((available - applied) * 100) / 100;
+          if (available <= 0) {
+            paymentIndex++;
+            available = paymentIndex < planPayments.length ? parseFloat(planPayments[paymentIndex].amount) : 0;
+          }
+        }
+
+        const fullyPaid = paidAmount >= owed;
+        // An installment that is no longer paid goes back to pending or late; the plan monitor moves it on from there
+        const status = fullyPaid
+          ? "paid"
+          : installment.status === "paid"
+            ? (installment.dueDate < asOf ? "late" : "pending")
+            : installment.status;
+
+        await tx
+          .update(paymentPlanInstallments)
+          .set({
+            paidAmount: paidAmount.toFixed(2),
+            paymentId: payment?.id ?? null,
+            paidDate: fullyPaid && payment ? payment.paymentDate : null,
+            status,
+          })
+          .where(eq(paymentPlanInstallments.id, installment.id));
+
+        installment.status = status;
+      }
+
+      const unpaid = installments.filter(installment => installment.status !== "paid");
+      const installmentsPaid = installments.filter(
+        installment => installment.status === "paid" && installment.installmentNumber > 0
+      ).length;
+      const totalPaid = planPayments.reduce((acc, payment) => acc + parseFloat(payment.amount), 0);
+
+      const [updated] = await tx
+        .update(paymentPlans)
+        .set({
+          totalPaid: totalPaid.toFixed(2),
+          installmentsPaid,
+          nextDueDate: unpaid.length > 0 ? unpaid[0].dueDate : null,
+          status: unpaid.length === 0 ? "completed" : "active",
+          updatedAt: new Date(),
+        })
+        .where(eq(paymentPlans.id, plan.id))
+        .returning();
+
+      return updated;
+    });
+  }
+
+  /**
+   * Record the late fee charged on the invoice for a missed installment, so reversing the fee
+   * can take it back off the installment
+   */
+  async linkInstallmentLateFee(installmentId: string, lateFeeId: string): Promise<void> {
+    await db
+      .update(paymentPlanInstallments)
+      .set({ lateFeeId })
+      .where(eq(paymentPlanInstallments.id, installmentId));
+  }
+
+  // ============================================================
+  // INSTALLMENT STATUS TRACKING
+  // ============================================================
+
+  /**
+   * Move overdue installments of active plans to late or missed, and default plans
+   * that have missed too many payments
+   * - pending -> late once the due date has passed
+   * - late -> missed once missedAfterDays have passed (late fee per missed payment applied)
+   */
+  async updateInstallmentStatuses(asOf: Date = new Date()): Promise<{
+    late: number;
+    missed: Array<{ installment: PaymentPlanInstallment; plan: PaymentPlan; daysPastDue: number }>;
+    defaulted: number;
+  }> {
+    const result = {
+      late: 0,
+      missed: [] as Array<{ installment: PaymentPlanInstallment; plan: PaymentPlan; daysPastDue: number }>,
+      defaulted: 0,
+    };
+
+    const overdue = await db
+      .select({ installment: paymentPlanInstallments, plan: paymentPlans })
+      .from(paymentPlanInstallments)
+      .innerJoin(paymentPlans, eq(paymentPlanInstallments.planId, paymentPlans.id))
+      .where(
+        and(
+          eq(paymentPlans.status, "active"),
+          inArray(paymentPlanInstallments.status, ["pending", "late"]),
+          lt(paymentPlanInstallments.dueDate, asOf)
+        )
+      );
+
+    const affectedPlans = new Map<string, PaymentPlan>();
+
+    for (const { installment, plan } of overdue) {
+      const daysPastDue = Math.floor((asOf.getTime() - new Date(installment.dueDate).getTime()) / DAY_MS);
+
+      if (daysPastDue >= plan.missedAfterDays) {
+        await db
+          .update(paymentPlanInstallments)
+          .set({
+            status: "missed",
+            lateFee: plan.lateFeePerMissedPayment || installment.lateFee,
+          })
+          .where(eq(paymentPlanInstallments.id, installment.id));
+        result.missed.push({ installment, plan, daysPastDue });
+        affectedPlans.set(plan.id, plan);
+      } else if (installment.status === "pending") {
+        await db
+          .update(paymentPlanInstallments)
+          .set({ status: "late" })
+          .where(eq(paymentPlanInstallments.id, installment.id));
+        result.late++;
+      }
+    }
+
+    for (const plan of Array.from(affectedPlans.values())) {
+      const missed = await db
+        .select({ id: paymentPlanInstallments.id })
+        .from(paymentPlanInstallments)
+        .where(and(eq(paymentPlanInstallments.planId, plan.id), eq(paymentPlanInstallments.status, "missed")));
+
+      if (missed.length >= plan.maxMissedPayments) {
+        await db
+          .update(paymentPlans)
+          .set({ status: "defaulted", updatedAt: new Date() })
+          .where(eq(paymentPlans.id, plan.id));
+        result.defaulted++;
+      }
+    }
+
+    return result;
+  }
+}
+
+// Export singleton instance
+export const paymentPlansStorage = new PaymentPlansStorage();
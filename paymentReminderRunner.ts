@@ -0,0 +1,226 @@
+/**
+ * Payment Reminder (Dunning) Job
+ *
+ * Emails customers about overdue invoices (other than those on an active payment
+ * plan) using paymentReminderSettings:
+ * - Four stages (first, second, third, final) triggered by days overdue
+ * - Only the latest stage reached is sent; earlier stages that were skipped are not
+ * - Each stage is claimed in paymentRemindersLog before it is sent, so it goes out at most
+ *   once per invoice even when runs overlap (failed sends are retried on the next run)
+ *
+ * Runs daily from the job scheduler and on demand via POST /api/payment-reminders/run.
+ */
+
+import { storage } from "./storage";
+import { sendEmail, personalizeContent, getInvoiceEmailRecipients } from "./email";
+import type { Invoice, PaymentReminderLog, PaymentReminderSettings } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ReminderStage = "first" | "second" | "third" | "final";
+
+// Latest stage first so the highest threshold reached wins
+const REMINDER_STAGES: ReminderStage[] = ["final", "third", "second", "first"];
+
+export interface PaymentReminder {
+  invoiceId: string;
+  invoiceNumber: string;
+  customerId: string;
+  reminderType: ReminderStage;
+  daysOverdue: number;
+  emailTo: string | null;
+  emailSubject: string;
+  emailBody: string;
+  status: "pending" | "sent" | "failed";
+  errorMessage?: string;
+}
+
+export interface PaymentReminderJobResult {
+  enabled: boolean;
+  dryRun: boolean;
+  invoicesScanned: number;
+  reminders: PaymentReminder[];
+  sent: number;
+  failed: number;
+}
+
+function getStageSettings(settings: PaymentReminderSettings, stage: ReminderStage) {
+  switch (stage) {
+    case "first":
+      return { days: settings.firstReminderDays, subject: settings.firstReminderSubject, body: settings.firstReminderBody };
+    case "second":
+      return { days: settings.secondReminderDays, subject: settings.secondReminderSubject, body: settings.secondReminderBody };
+    case "third":
+      return { days: settings.thirdReminderDays, subject: settings.thirdReminderSubject, body: settings.thirdReminderBody };
+    case "final":
+      return { days: settings.finalReminderDays, subject: settings.finalReminderSubject, body: settings.finalReminderBody };
+  }
+}
+
+/**
+ * Pick the reminder stage due for an invoice, or null if nothing should be sent
+ */
+export function selectReminderStage(
+  daysOverdue: number,
+  settings: PaymentReminderSettings,
+  previousReminders: PaymentReminderLog[]
+): ReminderStage | null {
+  const stage = REMINDER_STAGES.find(s => daysOverdue >= getStageSettings(settings, s).days);
+  if (!stage) {
+    return null;
+  }
+
+  // Never re-send a stage, and never step back to an earlier one
+  const sentStages = previousReminders
+    .filter(log => log.status === "sent")
+    .map(log => log.reminderType as ReminderStage);
+  const latestSent = REMINDER_STAGES.findIndex(s => sentStages.includes(s));
+  if (latestSent !== -1 && latestSent <= REMINDER_STAGES.indexOf(stage)) {
+    return null;
+  }
+
+  return stage;
+}
+
+// Reminder bodies are stored as plain text
+function toHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\n/g, "<br>");
+}
+
+/**
+ * Find overdue invoices and send (unless dryRun) the reminder due for each
+ */
+export async function runPaymentReminderJob(
+  options: { dryRun?: boolean; asOf?: Date } = {}
+): Promise<PaymentReminderJobResult> {
+  const dryRun = options.dryRun ?? false;
+  const asOf = options.asOf ?? new Date();
+  const result: PaymentReminderJobResult = { enabled: false, dryRun, invoicesScanned: 0, reminders: [], sent: 0, failed: 0 };
+
+  const settings = await storage.getPaymentReminderSettings();
+  if (!settings?.enabled) {
+    return result;
+  }
+  result.enabled = true;
+
+  const businessInfo = await storage.getLandingPageSettings();
+  const pricingSettings = await storage.getPricingSettings();
+  const companyName = settings.fromName || businessInfo?.businessName || "316 Automotive";
+  const currency = pricingSettings?.currencySymbol || "$";
+
+  const earliestThreshold = Math.min(
+    settings.firstReminderDays,
+    settings.secondReminderDays,
+    settings.thirdReminderDays,
+    settings.finalReminderDays
+  );
+  const cutoff = new Date(asOf.getTime() - earliestThreshold * DAY_MS);
+  const overdueInvoices: Invoice[] = await storage.getInvoicesDueBefore(cutoff);
+  result.invoicesScanned = overdueInvoices.length;
+
+  for (const invoice of overdueInvoices) {
+    const daysOverdue = Math.floor((asOf.getTime() - new Date(invoice.dueDate).getTime()) / DAY_MS);
+    const previousReminders = await storage.getPaymentRemindersLog({ invoiceId: invoice.id });
+    const stage = selectReminderStage(daysOverdue, settings, previousReminders);
+    if (!stage) continue;
+
+    const customer = await storage.getUser(invoice.customerId);
+    const outstanding = parseFloat(invoice.total) - parseFloat(invoice.paidAmount || "0");
+    const templateData = {
+      invoiceNumber: invoice.invoiceNumber,
+      customerName: `${customer?.firstName || ""} ${customer?.lastName || ""}`.trim() || "Valued Customer",
+      invoiceAmount: `${currency}${outstanding.toFixed(2)}`,
+      daysOverdue,
+      companyName,
+    };
+    const templates = getStageSettings(settings, stage);
+
+    const reminder: PaymentReminder = {
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      customerId: invoice.customerId,
+      reminderType: stage,
+      daysOverdue,
+      emailTo: null,
+      emailSubject: personalizeContent(templates.subject || "", templateData),
+      emailBody: personalizeContent(templates.body || "", templateData),
+      status: "pending",
+    };
+
+    let cc: string[] | undefined;
+    try {
+      if (!customer) {
+        throw new Error("Customer not found");
+      }
+      const recipients = getInvoiceEmailRecipients(customer);
+      reminder.emailTo = recipients.to;
+      cc = recipients.cc;
+    } catch (error: any) {
+      reminder.status = "failed";
+      reminder.errorMessage = error.message;
+    }
+
+    if (dryRun) {
+      result.reminders.push(reminder);
+      continue;
+    }
+
+    let log: PaymentReminderLog | undefined;
+    try {
+      log = await storage.claimPaymentReminder({
+        invoiceId: reminder.invoiceId,
+        customerId: reminder.customerId,
+        reminderType: reminder.reminderType,
+        daysOverdue: reminder.daysOverdue,
+        emailTo: reminder.emailTo || "",
+        emailSubject: reminder.emailSubject,
+        emailBody: reminder.emailBody,
+        sentAt: asOf,
+      });
+    } catch (error) {
+      console.error(`Error claiming payment reminder for invoice ${invoice.invoiceNumber}:`, error);
+      continue;
+    }
+    // Already sent, or another run is sending it
+    if (!log) continue;
+    result.reminders.push(reminder);
+
+    if (reminder.status === "pending") {
+      const sendResult = await sendEmail({
+        to: reminder.emailTo!,
+        cc,
+        subject: reminder.emailSubject,
+        html: toHtml(reminder.emailBody),
+        plainText: reminder.emailBody,
+      });
+      reminder.status = sendResult.success ? "sent" : "failed";
+      reminder.errorMessage = sendResult.error;
+    }
+
+    if (reminder.status === "sent") {
+      result.sent++;
+    } else {
+      result.failed++;
+    }
+
+    // A row left pending by a failed update is not re-sent
+    try {
+      await storage.updatePaymentReminderLog(log.id, {
+        status: reminder.status,
+        errorMessage: reminder.errorMessage,
+      });
+    } catch (error) {
+      console.error(`Error logging payment reminder for invoice ${invoice.invoiceNumber}:`, error);
+    }
+  }
+
+  if (!dryRun) {
+    console.log(`Payment reminder job: ${result.sent} sent, ${result.failed} failed across ${result.invoicesScanned} overdue invoice(s)`);
+  }
+
+  return result;
+}
@@ -0,0 +1,61 @@
+/**
+ * Purchase Order Billing
+ *
+ * Once a purchase order is fully received, or short-closed after a partial delivery, it is
+ * converted into a vendor bill (parts_inventory) with one line per PO line at the received
+ * quantity and the PO's unit cost, so the order, the stock receipts and the payable all carry
+ * the same figures. The bill is linked back via purchaseOrders.vendorBillId and is only created
+ * once, even when two requests bill the same order.
+ */
+
+import { storage } from "./storage";
+import type { PurchaseOrder } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export async function billPurchaseOrder(
+  order: PurchaseOrder,
+  recordedBy: string,
+  vendorInvoiceNumber?: string
+): Promise<PurchaseOrder> {
+  if (order.vendorBillId) {
+    return order;
+  }
+  if (order.status !== "received" && order.status !== "closed") {
+    throw new Error("Only a received or closed purchase order can be billed");
+  }
+
+  const vendor = await storage.getVendorById(order.vendorId);
+  if (!vendor) {
+    throw new Error("Vendor not found");
+  }
+
+  const lines = (await storage.getPurchaseOrderLines(order.id)).filter(line => line.quantityReceived > 0);
+  if (lines.length === 0) {
+    throw new Error("Nothing was received on this purchase order");
+  }
+  const lineItems = lines.map(line => ({
+    description: line.description,
+    quantity: line.quantityReceived,
+    unitPrice: line.unitCost,
+    total: (line.quantityReceived * parseFloat(line.unitCost)).toFixed(2),
+    partId: line.partId,
+  }));
+  const total = lineItems.reduce((sum, item) => sum + parseFloat(item.total), 0);
+  const billDate = order.receivedAt ?? new Date();
+  const netDays = parseInt(vendor.paymentTerms?.match(/Net (\d+)/i)?.[1] || "0");
+
+  return await storage.createPurchaseOrderBill(order.id, {
+    vendorId: vendor.id,
+    vendorInvoiceNumber,
+    subtotal: total.toFixed(2),
+    tax: "0",
+    total: total.toFixed(2),
+    billDate,
+    dueDate: new Date(billDate.getTime() + netDays * DAY_MS),
+    status: "unpaid",
+    category: "parts_inventory",
+    description: `Purchase order ${order.poNumber}`,
+    recordedBy,
+  }, lineItems);
+}
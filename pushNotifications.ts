@@ -0,0 +1,363 @@
+/**
+ * Push Notification Service
+ *
+ * Builds notifications for app events and delivers them to users' devices:
+ * - Checks each user's notificationPreferences before badging or sending
+ * - Adds the record to the matching badge category and sends the user's total as the app badge
+ * - Sends through a pluggable transport (Expo push API by default)
+ * - Records every ticket or failure in notificationHistory
+ * - Polls Expo delivery receipts and prunes tokens reported as DeviceNotRegistered
+ *
+ * Set EXPO_PUSH_API_URL to point the Expo transport at a local stub, or call
+ * pushNotificationService.setTransport() to swap the transport entirely.
+ */
+
+import type { User, NotificationPreferences } from "@shared/schema";
+import { storage } from "./storage";
+import type { BadgeCategory } from "./storage/notifications.storage";
+import { publish } from "./realtime";
+
+const EXPO_PUSH_API_URL = process.env.EXPO_PUSH_API_URL || "https://exp.host/--/api/v2/push";
+const SEND_CHUNK_SIZE = 100;
+const RECEIPT_CHUNK_SIZE = 1000;
+const RECEIPT_WINDOW_MS = 24 * 60 * 60 * 1000; // Expo keeps receipts for about a day
+
+export interface PushNotification {
+  title: string;
+  body: string;
+  data?: Record<string, any>;
+  channelId?: string;
+}
+
+export interface PushMessage extends PushNotification {
+  to: string;
+  sound?: "default" | null;
+  badge?: number;
+}
+
+export interface PushTicket {
+  status: "ok" | "error";
+  id?: string;
+  message?: string;
+  details?: { error?: string };
+}
+
+export type PushReceipt = Omit<PushTicket, "id">;
+
+/**
+ * Delivery backend for push messages
+ * Tickets must be returned in the same order as the messages
+ */
+export interface PushTransport {
+  send(messages: PushMessage[]): Promise<PushTicket[]>;
+  getReceipts(ticketIds: string[]): Promise<Record<string, PushReceipt>>;
+}
+
+export class ExpoPushTransport implements PushTransport {
+  constructor(private baseUrl: string = EXPO_PUSH_API_URL) {}
+
+  private async post(path: string, body: unknown): Promise<any> {
+    const headers: Record<string, string> = {
+      "Accept": "application/json",
+      "Content-Type": "application/json",
+    };
+    if (process.env.EXPO_ACCESS_TOKEN) {
+      headers["Authorization"] = `Bearer ${process.env.EXPO_ACCESS_TOKEN}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new Error(`Expo push API responded with ${response.status}`);
+    }
+    return await response.json();
+  }
+
+  async send(messages: PushMessage[]): Promise<PushTicket[]> {
+    const tickets: PushTicket[] = [];
+    for (let i = 0; i < messages.length; i += SEND_CHUNK_SIZE) {
+      const result = await this.post("/send", messages.slice(i, i + SEND_CHUNK_SIZE));
+      tickets.push(...(result.data || []));
+    }
+    return tickets;
+  }
+
+  async getReceipts(ticketIds: string[]): Promise<Record<string, PushReceipt>> {
+    const receipts: Record<string, PushReceipt> = {};
+    for (let i = 0; i < ticketIds.length; i += RECEIPT_CHUNK_SIZE) {
+      const result = await this.post("/getReceipts", { ids: ticketIds.slice(i, i + RECEIPT_CHUNK_SIZE) });
+      Object.assign(receipts, result.data || {});
+    }
+    return receipts;
+  }
+}
+
+// Maps notification data (type/action) to the preference flag that controls it
+const PREFERENCE_KEYS: Record<string, keyof NotificationPreferences> = {
+  "appointment:created": "appointmentCreated",
+  "appointment:confirmed": "appointmentConfirmed",
+  "appointment:cancelled": "appointmentCancelled",
+  "appointment:new": "newAppointment",
+  "job_card:completed": "jobCardCompleted",
+  "invoice:generated": "invoiceGenerated",
+  "tow_request:assigned": "towDriverAssigned",
+  "tow_request:en_route": "towEnRoute",
+  "tow_request:completed": "towCompleted",
+  "approval:pending": "approvalPending",
+  "low_stock:alert": "lowStockAlert",
+};
+
+// Maps notification data.type to the badge category it counts toward and the data key holding its record id
+const BADGE_CATEGORY_BY_TYPE: Record<string, { category: BadgeCategory; recordKey: string }> = {
+  appointment: { category: "appointments", recordKey: "appointmentId" },
+  job_card: { category: "jobCards", recordKey: "jobCardId" },
+  invoice: { category: "invoices", recordKey: "invoiceId" },
+  tow_request: { category: "towRequests", recordKey: "towRequestId" },
+  approval: { category: "approvals", recordKey: "approvalId" },
+  low_stock: { category: "lowStock", recordKey: "partId" },
+};
+
+export function isExpoPushToken(token: string): boolean {
+  return /^Expo(nent)?PushToken\[.+\]$/.test(token);
+}
+
+class PushNotificationService {
+  private transport: PushTransport = new ExpoPushTransport();
+
+  setTransport(transport: PushTransport): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Whether the user's preferences allow this notification
+   * Notifications without a matching preference flag are always allowed
+   */
+  private isAllowed(notification: PushNotification, preferences?: NotificationPreferences): boolean {
+    if (!preferences) return true;
+    const key = PREFERENCE_KEYS[`${notification.data?.type}:${notification.data?.action}`];
+    return key ? preferences[key] !== false : true;
+  }
+
+  async sendToUser(user: User, notification: PushNotification): Promise<void> {
+    await this.sendToMultipleUsers([user], notification);
+  }
+
+  async sendToMultipleUsers(users: User[], notification: PushNotification): Promise<void> {
+    const allowedUsers: User[] = [];
+    for (const user of users) {
+      const preferences = await storage.getNotificationPreferences(user.id);
+      if (this.isAllowed(notification, preferences)) {
+        allowedUsers.push(user);
+      }
+    }
+
+    // Badges count for every allowed user, even those without a device to push to
+    const badgeTotals = new Map<string, number>();
+    const badge = BADGE_CATEGORY_BY_TYPE[notification.data?.type];
+    const recordId = badge ? notification.data?.[badge.recordKey] : undefined;
+    if (badge && recordId) {
+      const counts = await storage.addBadgeItems(allowedUsers.map(user => user.id), badge.category, String(recordId));
+      counts.forEach(count => {
+        badgeTotals.set(count.userId, count.total);
+        publish(`user:${count.userId}`, "badges", count);
+      });
+    }
+
+    const recipients: Array<{ user: User; token: string }> = [];
+    for (const user of allowedUsers) {
+      if (!user.pushToken) continue;
+      if (!isExpoPushToken(user.pushToken)) {
+        console.warn(`Clearing malformed push token for user ${user.id}`);
+        await storage.clearPushToken(user.pushToken);
+        continue;
+      }
+      recipients.push({ user, token: user.pushToken });
+    }
+    if (recipients.length === 0) return;
+
+    const messages: PushMessage[] = recipients.map(({ user, token }) => ({
+      to: token,
+      sound: "default",
+      badge: badgeTotals.get(user.id),
+      ...notification,
+    }));
+
+    let tickets: PushTicket[];
+    try {
+      tickets = await this.transport.send(messages);
+    } catch (error: any) {
+      console.error("Error sending push notifications:", error);
+      tickets = messages.map(() => ({ status: "error" as const, message: error.message || "Transport error" }));
+    }
+
+    const invalidTokens = new Set<string>();
+    await storage.createNotificationHistory(recipients.map(({ user, token }, index) => {
+      const ticket = tickets[index] || { status: "error", message: "No ticket returned" };
+      if (ticket.details?.error === "DeviceNotRegistered") {
+        invalidTokens.add(token);
+      }
+      return {
+        userId: user.id,
+        title: notification.title,
+        body: notification.body,
+        data: notification.data,
+        channelId: notification.channelId,
+        status: ticket.status === "ok" ? "sent" : "failed",
+        errorMessage: ticket.status === "ok" ? null : ticket.message || ticket.details?.error || "Unknown error",
+        expoTicketId: ticket.id,
+        pushToken: token,
+      };
+    }));
+
+    for (const token of invalidTokens) {
+      await storage.clearPushToken(token);
+    }
+  }
+
+  /**
+   * Check Expo delivery receipts for recent tickets, marking each notification
+   * delivered or failed and pruning the tokens they were sent to when the device is
+   * no longer registered (a user who has since registered a new device keeps it)
+   */
+  async checkReceipts(): Promise<{ checked: number; delivered: number; failed: number; tokensPruned: number }> {
+    const pending = await storage.getNotificationsAwaitingReceipt(new Date(Date.now() - RECEIPT_WINDOW_MS));
+    const result = { checked: 0, delivered: 0, failed: 0, tokensPruned: 0 };
+    if (pending.length === 0) return result;
+
+    const receipts = await this.transport.getReceipts(pending.map(entry => entry.expoTicketId!));
+
+    const delivered: string[] = [];
+    const unregisteredTokens = new Set<string>();
+    for (const entry of pending) {
+      const receipt = receipts[entry.expoTicketId!];
+      if (!receipt) continue; // Not ready yet
+      result.checked++;
+
+      if (receipt.status === "ok") {
+        delivered.push(entry.id);
+        continue;
+      }
+
+      result.failed++;
+      await storage.updateNotificationHistoryStatus(
+        [entry.id],
+        "failed",
+        receipt.message || receipt.details?.error || "Delivery failed"
+      );
+      if (receipt.details?.error === "DeviceNotRegistered" && entry.pushToken) {
+        unregisteredTokens.add(entry.pushToken);
+      }
+    }
+
+    await storage.updateNotificationHistoryStatus(delivered, "delivered");
+    result.delivered = delivered.length;
+
+    for (const token of unregisteredTokens) {
+      result.tokensPruned += await storage.clearPushToken(token);
+    }
+
+    return result;
+  }
+
+  // ============================================================
+  // NOTIFICATION BUILDERS
+  // ============================================================
+
+  createAppointmentNotification(
+    type: "created" | "confirmed" | "cancelled",
+    details: { appointmentId: string; serviceType: string; scheduledDate: Date }
+  ): PushNotification {
+    const when = new Date(details.scheduledDate).toLocaleString();
+    const content = {
+      created: { title: "Appointment Requested", body: `Your ${details.serviceType} appointment for ${when} has been received` },
+      confirmed: { title: "Appointment Confirmed", body: `Your ${details.serviceType} appointment is confirmed for ${when}` },
+      cancelled: { title: "Appointment Cancelled", body: `Your ${details.serviceType} appointment for ${when} has been cancelled` },
+    }[type];
+
+    return {
+      ...content,
+      data: { type: "appointment", action: type, appointmentId: details.appointmentId },
+      channelId: "appointments",
+    };
+  }
+
+  createJobCardNotification(
+    type: "started" | "in_progress" | "completed" | "on_hold",
+    details: { jobCardId: string; description?: string | null; vehicleMake?: string | null; vehicleModel?: string | null }
+  ): PushNotification {
+    const vehicle = [details.vehicleMake, details.vehicleModel].filter(Boolean).join(" ") || "your vehicle";
+    const content = {
+      started: { title: "Work Started", body: `We've started working on ${vehicle}` },
+      in_progress: { title: "Work In Progress", body: `Work on ${vehicle} is in progress` },
+      completed: { title: "Vehicle Ready", body: `Work on ${vehicle} is complete and ready for pickup` },
+      on_hold: { title: "Waiting on Parts", body: `Work on ${vehicle} is on hold while we wait for parts` },
+    }[type];
+
+    return {
+      ...content,
+      data: { type: "job_card", action: type, jobCardId: details.jobCardId },
+      channelId: "job_updates",
+    };
+  }
+
+  createInvoiceNotification(details: { invoiceId: string; invoiceNumber: string; total: number }): PushNotification {
+    return {
+      title: "New Invoice",
+      body: `Invoice ${details.invoiceNumber} for $${details.total.toFixed(2)} is ready`,
+      data: { type: "invoice", action: "generated", invoiceId: details.invoiceId, invoiceNumber: details.invoiceNumber },
+      channelId: "invoices",
+    };
+  }
+
+  createTowRequestNotification(
+    type: "assigned" | "en_route" | "arrived" | "towing" | "completed" | "cancelled",
+    details: { towRequestId: string; driverName?: string; eta?: number }
+  ): PushNotification {
+    const content = {
+      assigned: {
+        title: "Tow Driver Assigned",
+        body: details.driverName ? `${details.driverName} has been assigned to your tow` : "A driver has been assigned to your tow",
+      },
+      en_route: {
+        title: "Tow Truck On The Way",
+        body: details.eta ? `Your tow truck will arrive in about ${details.eta} minutes` : "Your tow truck is on the way",
+      },
+      arrived: { title: "Tow Truck Arrived", body: "Your tow truck has arrived at the pickup location" },
+      towing: { title: "Vehicle In Tow", body: "Your vehicle is on its way to the drop-off location" },
+      completed: { title: "Tow Completed", body: "Your vehicle has been delivered" },
+      cancelled: { title: "Tow Cancelled", body: "Your tow request has been cancelled" },
+    }[type];
+
+    return {
+      ...content,
+      data: { type: "tow_request", action: type, towRequestId: details.towRequestId },
+      channelId: "tow_requests",
+    };
+  }
+
+  createApprovalNotification(details: { approvalId: string; description: string; estimatedCost: number }): PushNotification {
+    return {
+      title: "Approval Needed",
+      body: details.estimatedCost > 0
+        ? `${details.description} ($${details.estimatedCost.toFixed(2)})`
+        : details.description,
+      data: { type: "approval", action: "pending", approvalId: details.approvalId },
+      channelId: "approvals",
+    };
+  }
+
+  createLowStockNotification(details: { partId: string; partName: string; quantityInStock: number }): PushNotification {
+    return {
+      title: "Low Stock Alert",
+      body: `${details.partName} is running low (${details.quantityInStock} left)`,
+      data: { type: "low_stock", action: "alert", partId: details.partId },
+      channelId: "inventory",
+    };
+  }
+}
+
+// Export singleton instance
+export const pushNotificationService = new PushNotificationService();
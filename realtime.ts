@@ -0,0 +1,271 @@
+/**
+ * Real-time Events (Server-Sent Events)
+ *
+ * Clients open GET /api/events with a JWT access token (Authorization header, or
+ * ?access_token= for EventSource, which can't set headers) and receive events on:
+ * - user:<userId>        their own channel (badge updates), always subscribed
+ * - role:<role>          their role's channel (dispatch/job board updates), always subscribed
+ * - chat:<conversationId> messages, typing, read receipts and agent assignment; staff or the conversation's customer
+ * - tow:<towRequestId>   location and status updates; staff, the assigned driver or the customer
+ * - jobCard:<jobCardId>  status changes; staff or the job card's customer
+ *
+ * Extra channels are requested with ?channels=a,b and each one is authorized when connecting.
+ * Access is checked again before every event is delivered: a deactivated user's stream is
+ * closed and a channel the user lost access to (e.g. a reassigned tow) is dropped. Streams
+ * opened with a JWT close when the token expires, so the client reconnects with a fresh one.
+ * Subscriptions live in this process, so events only reach clients connected to the same instance.
+ */
+
+import type { Request, Response, NextFunction } from "express";
+import type { JobCard, TowRequest, User } from "@shared/schema";
+import { storage } from "./storage";
+import { getUserId } from "./middleware";
+import { verifyAccessToken } from "./jwtUtils";
+import type { AuthenticatedRequest } from "./types";
+
+export type RealtimeEventType =
+  | "chat.message"
+  | "chat.typing"
+  | "chat.read"
+  | "chat.assigned"
+  | "chat.escalated"
+  | "tow.location"
+  | "tow.status"
+  | "jobCard.status"
+  | "badges";
+
+interface RealtimeClient {
+  id: number;
+  userId: string;
+  channels: Set<string>;
+  res: Response;
+  closed: boolean;
+  delivery: Promise<void>; // Events are checked and written one at a time, in order
+  close: () => void;
+}
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+const RETRY_MS = 5000;
+const STAFF_ROLES = ["admin", "manager", "mechanic", "receptionist"];
+
+const subscribers = new Map<string, Set<RealtimeClient>>();
+let nextClientId = 1;
+let nextEventId = 1;
+
+/**
+ * Send an event to everyone subscribed to a channel
+ */
+export function publish(channel: string, type: RealtimeEventType, data: unknown): void {
+  const clients = subscribers.get(channel);
+  if (!clients || clients.size === 0) {
+    return;
+  }
+
+  const payload = `id: ${nextEventId++}\nevent: ${type}\ndata: ${JSON.stringify({ channel, data })}\n\n`;
+  for (const client of clients) {
+    deliver(client, channel, payload);
+  }
+}
+
+function unsubscribe(client: RealtimeClient, channel: string): void {
+  client.channels.delete(channel);
+  const clients = subscribers.get(channel);
+  clients?.delete(client);
+  if (clients?.size === 0) subscribers.delete(channel);
+}
+
+/**
+ * Write an event to a client if they still have access to the channel
+ */
+function deliver(client: RealtimeClient, channel: string, payload: string): void {
+  client.delivery = client.delivery
+    .then(async () => {
+      if (client.closed || !client.channels.has(channel)) return;
+      const user = await storage.getUser(client.userId);
+      if (!user || user.isActive === false) {
+        client.close();
+        return;
+      }
+      if (!(await canSubscribe(user, channel))) {
+        unsubscribe(client, channel);
+        return;
+      }
+      if (!client.closed) client.res.write(payload);
+    })
+    .catch(error => {
+      console.error(`Failed to deliver event on ${channel}:`, error);
+    });
+}
+
+export function publishToUsers(userIds: Array<string | null | undefined>, type: RealtimeEventType, data: unknown): void {
+  for (const userId of new Set(userIds)) {
+    if (userId) publish(`user:${userId}`, type, data);
+  }
+}
+
+export function publishToRoles(roles: string[], type: RealtimeEventType, data: unknown): void {
+  for (const role of roles) {
+    publish(`role:${role}`, type, data);
+  }
+}
+
+// Roles that watch the dispatch and job boards
+const BOARD_ROLES = ["admin", "manager", "receptionist"];
+
+export function publishTowStatus(request: TowRequest, previousStatus: string): void {
+  const data = {
+    towRequestId: request.id,
+    requestNumber: request.requestNumber,
+    status: request.status,
+    previousStatus,
+    assignedDriverId: request.assignedDriverId,
+    estimatedArrival: request.estimatedArrival,
+  };
+  publish(`tow:${request.id}`, "tow.status", data);
+  publishToUsers([request.customerId], "tow.status", data);
+  publishToRoles(BOARD_ROLES, "tow.status", data);
+}
+
+export function publishJobCardStatus(jobCard: JobCard, previousStatus: string): void {
+  const data = {
+    jobCardId: jobCard.id,
+    status: jobCard.status,
+    previousStatus,
+    mechanicId: jobCard.mechanicId,
+    vehicleId: jobCard.vehicleId,
+  };
+  publish(`jobCard:${jobCard.id}`, "jobCard.status", data);
+  publishToUsers([jobCard.customerId, jobCard.mechanicId], "jobCard.status", data);
+  publishToRoles(BOARD_ROLES, "jobCard.status", data);
+}
+
+/**
+ * Whether a user may subscribe to a channel
+ */
+async function canSubscribe(user: User, channel: string): Promise<boolean> {
+  const [kind, id] = channel.split(":");
+  if (!id) {
+    return false;
+  }
+
+  switch (kind) {
+    case "user":
+      return id === user.id;
+    case "role":
+      return id === user.role;
+    case "chat": {
+      const conversation = await storage.getChatConversation(id);
+      return !!conversation && (STAFF_ROLES.includes(user.role) || conversation.customerId === user.id);
+    }
+    case "tow": {
+      const request = await storage.getTowRequest(id);
+      if (!request) return false;
+      const { getTowActor } = await import("./towStatus");
+      return !!(await getTowActor(user, request));
+    }
+    case "jobCard": {
+      const jobCard = await storage.getJobCard(id);
+      return !!jobCard && (STAFF_ROLES.includes(user.role) || jobCard.customerId === user.id);
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Let EventSource clients pass the access token as a query parameter
+ */
+export function acceptQueryToken(req: Request, _res: Response, next: NextFunction): void {
+  if (!req.headers.authorization && typeof req.query.access_token === "string") {
+    req.headers.authorization = `Bearer ${req.query.access_token}`;
+  }
+  next();
+}
+
+/**
+ * When the JWT the stream was opened with expires (session-authenticated streams don't)
+ */
+function getTokenExpiry(req: Request): number | null {
+  const authorization = req.headers.authorization;
+  if (!authorization?.startsWith("Bearer ")) {
+    return null;
+  }
+  const payload = verifyAccessToken(authorization.substring(7));
+  return payload?.exp ? payload.exp * 1000 : null;
+}
+
+/**
+ * GET /api/events handler (after authentication): holds the response open as an event stream
+ */
+export async function streamEvents(req: AuthenticatedRequest, res: Response): Promise<void> {
+  // Listen before any await so a client that disconnects while being authorized is never subscribed
+  let disconnected = false;
+  let cleanup = () => {
+    disconnected = true;
+  };
+  req.on("close", () => cleanup());
+
+  const userId = getUserId(req);
+  const user = userId ? await storage.getUser(userId) : undefined;
+  if (!user || user.isActive === false) {
+    res.status(401).json({ message: "User account not found or deactivated" });
+    return;
+  }
+
+  const requested = typeof req.query.channels === "string"
+    ? req.query.channels.split(",").map(channel => channel.trim()).filter(Boolean)
+    : [];
+  for (const channel of requested) {
+    if (!(await canSubscribe(user, channel))) {
+      res.status(403).json({ message: `Not authorized for channel ${channel}` });
+      return;
+    }
+  }
+  if (disconnected) {
+    return;
+  }
+
+  const expiresAt = getTokenExpiry(req);
+  const client: RealtimeClient = {
+    id: nextClientId++,
+    userId: user.id,
+    channels: new Set([`user:${user.id}`, `role:${user.role}`, ...requested]),
+    res,
+    closed: false,
+    delivery: Promise.resolve(),
+    close: () => {
+      cleanup();
+      res.end();
+    },
+  };
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    "Connection": "keep-alive",
+    "X-Accel-Buffering": "no", // Disable proxy buffering
+  });
+  res.write(`retry: ${RETRY_MS}\n`);
+  res.write(`event: ready\ndata: ${JSON.stringify({ channels: Array.from(client.channels) })}\n\n`);
+
+  for (const channel of client.channels) {
+    if (!subscribers.has(channel)) subscribers.set(channel, new Set());
+    subscribers.get(channel)!.add(client);
+  }
+
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_INTERVAL_MS);
+  const expiry = expiresAt === null ? null : setTimeout(() => {
+    res.write(`event: expired\ndata: {}\n\n`);
+    client.close();
+  }, Math.max(expiresAt - Date.now(), 0));
+
+  cleanup = () => {
+    if (client.closed) return;
+    client.closed = true;
+    clearInterval(heartbeat);
+    if (expiry) clearTimeout(expiry);
+    for (const channel of Array.from(client.channels)) {
+      unsubscribe(client, channel);
+    }
+  };
+}
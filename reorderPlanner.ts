@@ -0,0 +1,140 @@
+/**
+ * Reorder Planner
+ *
+ * Works out which parts to reorder from how fast they are actually used rather than only the
+ * static lowStockThreshold:
+ * - Average daily usage from jobCardParts on job cards scheduled in the lookback window
+ * - Reorder point = usage over the part's lead time + safety stock (SAFETY_DAYS of usage),
+ *   never below lowStockThreshold
+ * - Stock position = available stock (on hand less reservations) + quantity still to arrive
+ *   on open purchase orders. Parts on open job cards are already deducted from quantity and
+ *   are reported as allocated.
+ * - At or below the reorder point, suggest enough to get back above it and cover
+ *   COVER_DAYS of usage
+ *
+ * Suggestions can be turned into draft purchase orders, one per preferred vendor.
+ */
+
+import { storage } from "./storage";
+import type { Part, PurchaseOrder } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_LOOKBACK_DAYS = 90;
+const SAFETY_DAYS = 7;
+const COVER_DAYS = 30;
+
+export interface ReorderSuggestion {
+  partId: string;
+  partName: string;
+  partNumber: string;
+  preferredVendorId: string | null;
+  quantity: number;
+  reserved: number;
+  allocatedToOpenJobs: number;
+  onOrder: number;
+  averageDailyUsage: number;
+  leadTimeDays: number;
+  reorderPoint: number;
+  suggestedQuantity: number;
+  unitCost: string;
+}
+
+/**
+ * Reorder figures for one part given its usage over the lookback window
+ */
+export function planReorder(
+  part: Part,
+  usage: { used: number; lookbackDays: number; reserved: number; allocated: number; onOrder: number }
+): ReorderSuggestion {
+  const averageDailyUsage = usage.used / usage.lookbackDays;
+  const safetyStock = Math.ceil(averageDailyUsage * SAFETY_DAYS);
+  const reorderPoint = Math.max(Math.ceil(averageDailyUsage * part.leadTimeDays) + safetyStock, part.lowStockThreshold);
+  const position = part.quantity - usage.reserved + usage.onOrder;
+
+  let suggestedQuantity = 0;
+  if (position <= reorderPoint) {
+    const target = reorderPoint + Math.max(Math.ceil(averageDailyUsage * COVER_DAYS), 1);
+    suggestedQuantity = target - position;
+  }
+
+  return {
+    partId: part.id,
+    partName: part.name,
+    partNumber: part.partNumber,
+    preferredVendorId: part.preferredVendorId,
+    quantity: part.quantity,
+    reserved: usage.reserved,
+    allocatedToOpenJobs: usage.allocated,
+    onOrder: usage.onOrder,
+    averageDailyUsage: Math.round(averageDailyUsage * 100) / 100,
+    leadTimeDays: part.leadTimeDays,
+    reorderPoint,
+    suggestedQuantity,
+    unitCost: part.purchasePrice,
+  };
+}
+
+/**
+ * Parts that should be reordered now, most urgent (furthest below their reorder point) first
+ */
+export async function getReorderSuggestions(lookbackDays: number = DEFAULT_LOOKBACK_DAYS): Promise<ReorderSuggestion[]> {
+  const [parts, used, reserved, allocated, onOrder] = await Promise.all([
+    storage.getAllParts(),
+    storage.getPartUsage(new Date(Date.now() - lookbackDays * DAY_MS)),
+    storage.getReservedQuantities(),
+    storage.getPartsOnOpenJobCards(),
+    storage.getPartsOnOrder(),
+  ]);
+
+  return parts
+    .map(part => planReorder(part, {
+      used: used.get(part.id) ?? 0,
+      lookbackDays,
+      reserved: reserved.get(part.id) ?? 0,
+      allocated: allocated.get(part.id) ?? 0,
+      onOrder: onOrder.get(part.id) ?? 0,
+    }))
+    .filter(suggestion => suggestion.suggestedQuantity > 0)
+    .sort((a, b) => (a.quantity - a.reserved + a.onOrder - a.reorderPoint) - (b.quantity - b.reserved + b.onOrder - b.reorderPoint));
+}
+
+/**
+ * Draft purchase orders for the current suggestions, one per preferred vendor.
+ * Parts without a preferred vendor are returned as skipped.
+ */
+export async function createReorderPurchaseOrders(
+  createdBy: string,
+  options: { partIds?: string[]; lookbackDays?: number } = {}
+): Promise<{ purchaseOrders: PurchaseOrder[]; skipped: ReorderSuggestion[] }> {
+  let suggestions = await getReorderSuggestions(options.lookbackDays);
+  if (options.partIds) {
+    suggestions = suggestions.filter(suggestion => options.partIds!.includes(suggestion.partId));
+  }
+
+  const byVendor = new Map<string, ReorderSuggestion[]>();
+  const skipped: ReorderSuggestion[] = [];
+  for (const suggestion of suggestions) {
+    if (!suggestion.preferredVendorId) {
+      skipped.push(suggestion);
+      continue;
+    }
+    byVendor.set(suggestion.preferredVendorId, [...(byVendor.get(suggestion.preferredVendorId) ?? []), suggestion]);
+  }
+
+  const purchaseOrders: PurchaseOrder[] = [];
+  for (const [vendorId, lines] of byVendor) {
+    const leadTimeDays = Math.max(...lines.map(line => line.leadTimeDays));
+    purchaseOrders.push(await storage.createPurchaseOrder({
+      vendorId,
+      expectedDate: new Date(Date.now() + leadTimeDays * DAY_MS),
+      notes: "Generated from reorder suggestions",
+      lines: lines.map(line => ({
+        partId: line.partId,
+        quantityOrdered: line.suggestedQuantity,
+        unitCost: parseFloat(line.unitCost),
+      })),
+    }, createdBy));
+  }
+
+  return { purchaseOrders, skipped };
+}
@@ -3,10 +3,9 @@ import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { db } from "./db";
 import { setupAuth, isAuthenticated } from "./auth";
-import { requireRole, requireOwnershipOrRole, getUserId, getAuthenticatedUserId } from "./middleware";
+import { requireRole, requireOwnershipOrRole, getUserId, getAuthenticatedUserId, rateLimit } from "./middleware";
 import type { CustomerFilters } from "./storage";
 import * as XLSX from "xlsx";
-import { sendCampaignEmail } from "./email";
 import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
 import { ObjectPermission, ObjectAccessGroupType } from "./objectAcl";
 import {
@@ -26,9 +25,16 @@ import {
   updateCustomerTagSchema,
   insertCustomerSegmentSchema,
   updateCustomerSegmentSchema,
+  segmentFilterSchema,
+  stockMovementTypeEnum,
 } from "@shared/schema";
 import { eq, and, or, isNull, lte, gte, asc, desc, count } from "drizzle-orm";
 import { pushNotificationService } from "./pushNotifications";
+import { hybridAuth } from "./jwtMiddleware";
+import { acceptQueryToken, streamEvents, publish, publishJobCardStatus } from "./realtime";
+import { BADGE_CATEGORIES, type BadgeCategory } from "./storage/notifications.storage";
+import { isSegmentFilter } from "./storage/crm.storage";
+import { hasCampaignTargeting } from "./storage/marketing.storage";
 import { FirstAtlanticPaymentService } from "./firstAtlanticPayment";
 import { QuickBooksService, shouldSync } from "./quickbooksService";
 import { generateVehicleCode, generateQRToken } from "./vehicleCodeGenerator";
@@ -38,6 +44,7 @@ import {
   insertJobCardSchema,
   insertJobCardTaskSchema,
   insertPartSchema, 
+  insertPartReservationSchema,
   insertVehicleSchema,
   updateVehicleSchema,
   staffUpdateVehicleSchema,
@@ -72,6 +79,9 @@ import {
   insertStaffReviewSchema,
   insertExpenseSchema,
   updateExpenseSchema,
+  insertPurchaseOrderSchema,
+  updatePurchaseOrderSchema,
+  receivePurchaseOrderSchema,
   insertRentalVehicleSchema,
   updateRentalVehicleSchema,
   insertRentalExtraSchema,
@@ -93,7 +103,8 @@ import {
   updateThirdPartyWreckerSchema,
   insertTowPricingZoneSchema,
   updateTowPricingZoneSchema,
-  insertTowRequestSchema,
+  towQuoteRequestSchema,
+  createTowRequestSchema,
   updateTowRequestSchema,
   insertTowRequestLocationSchema,
   insertChatQuickResponseSchema,
@@ -103,7 +114,20 @@ import {
   insertServiceCatalogSchema,
   updateServiceCatalogSchema,
   insertJobCardPartSchema,
+  insertTaxRateSchema,
+  updateTaxRateSchema,
+  updateLateFeeSettingsSchema,
+  updatePaymentReminderSettingsSchema,
+  createPaymentPlanRequestSchema,
+  updateNotificationPreferencesSchema,
+  insertServiceBaySchema,
+  updateServiceBaySchema,
+  mechanicShiftInputSchema,
+  insertMechanicTimeOffSchema,
+  anonymousChatMessageSchema,
   type PricingSettings,
+  type Appointment,
+  type JobCard,
 } from "@shared/schema";
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -241,6 +265,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Set a staff member's hourly cost, used for labour cost in job margins (admin only)
+  app.patch("/api/staff/:id/labor-cost-rate", isAuthenticated, requireRole(["admin"]), async (req: any, res) => {
+    try {
+      const { laborCostRate } = req.body;
+      if (laborCostRate !== null && (isNaN(Number(laborCostRate)) || Number(laborCostRate) < 0)) {
+        return res.status(400).json({ message: "laborCostRate must be a non-negative number or null" });
+      }
+
+      const staff = await storage.getUser(req.params.id);
+      if (!staff) {
+        return res.status(404).json({ message: "Staff member not found" });
+      }
+      if (staff.role === "customer") {
+        return res.status(400).json({ message: "Customers don't have a labor cost rate" });
+      }
+
+      const updated = await storage.updateUser(staff.id, {
+        laborCostRate: laborCostRate === null ? null : Number(laborCostRate).toFixed(2),
+      });
+      res.json({ ...updated, password: undefined });
+    } catch (error) {
+      console.error("Error updating labor cost rate:", error);
+      res.status(500).json({ message: "Failed to update labor cost rate" });
+    }
+  });
+
   // Delete staff member (admin only)
   app.delete("/api/staff/:id", isAuthenticated, requireRole(["admin"]), async (req: any, res) => {
     try {
@@ -337,6 +387,106 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Notification Preferences & History
+  app.get("/api/notifications/preferences", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getAuthenticatedUserId(req);
+      const preferences = await storage.getOrCreateNotificationPreferences(userId);
+      res.json(preferences);
+    } catch (error) {
+      console.error("Error fetching notification preferences:", error);
+      res.status(500).json({ message: "Failed to fetch notification preferences" });
+    }
+  });
+
+  app.patch("/api/notifications/preferences", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getAuthenticatedUserId(req);
+      const validated = updateNotificationPreferencesSchema.parse(req.body);
+      const preferences = await storage.updateNotificationPreferences(userId, validated);
+      res.json(preferences);
+    } catch (error) {
+      console.error("Error updating notification preferences:", error);
+      res.status(400).json({ message: "Failed to update notification preferences" });
+    }
+  });
+
+  app.get("/api/notifications/history", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getAuthenticatedUserId(req);
+      const limit = req.query.limit ? Math.min(parseInt(req.query.limit as string), 200) : 50;
+      const history = await storage.getNotificationHistory(userId, limit);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching notification history:", error);
+      res.status(500).json({ message: "Failed to fetch notification history" });
+    }
+  });
+
+  // Poll Expo delivery receipts now (admin only); also runs hourly
+  app.post("/api/notifications/receipts/check", isAuthenticated, requireRole(["admin"]), async (req: any, res) => {
+    try {
+      const result = await pushNotificationService.checkReceipts();
+      res.json(result);
+    } catch (error) {
+      console.error("Error checking push receipts:", error);
+      res.status(500).json({ message: "Failed to check push receipts" });
+    }
+  });
+
+  // Badge Counts
+  // Real-time event stream (SSE) for chat, tow tracking, job card status and badges
+  app.get("/api/events", acceptQueryToken, hybridAuth, async (req: any, res) => {
+    try {
+      await streamEvents(req, res);
+    } catch (error) {
+      console.error("Error opening event stream:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to open event stream" });
+      }
+    }
+  });
+
+  app.get("/api/badges", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getAuthenticatedUserId(req);
+      const counts = await storage.getBadgeCounts(userId);
+      res.json(counts);
+    } catch (error) {
+      console.error("Error fetching badge counts:", error);
+      res.status(500).json({ message: "Failed to fetch badge counts" });
+    }
+  });
+
+  // Mark every badge category as seen
+  app.post("/api/badges/seen", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getAuthenticatedUserId(req);
+      const counts = await storage.markBadgesSeen(userId);
+      publish(`user:${userId}`, "badges", counts);
+      res.json(counts);
+    } catch (error) {
+      console.error("Error clearing badge counts:", error);
+      res.status(500).json({ message: "Failed to clear badge counts" });
+    }
+  });
+
+  app.post("/api/badges/:category/seen", isAuthenticated, async (req: any, res) => {
+    try {
+      const category = req.params.category as BadgeCategory;
+      if (!BADGE_CATEGORIES.includes(category)) {
+        return res.status(400).json({ message: `Category must be one of: ${BADGE_CATEGORIES.join(", ")}` });
+      }
+      const userId = getAuthenticatedUserId(req);
+      const counts = await storage.markBadgesSeen(userId, category);
+      publish(`user:${userId}`, "badges", counts);
+      res.json(counts);
+    } catch (error) {
+      console.error("Error clearing badge count:", error);
+      res.status(500).json({ message: "Failed to clear badge count" });
+    }
+  });
+
   // Dashboard Statistics
   app.get("/api/dashboard/stats", isAuthenticated, requireRole(["admin", "manager", "mechanic", "receptionist"]), async (req: any, res) => {
     try {
@@ -367,6 +517,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Bookable slots for a date, sized to the requested services
+  app.get("/api/appointments/availability", isAuthenticated, async (req: any, res) => {
+    try {
+      const { date, services, excludeAppointmentId } = req.query;
+      if (typeof date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return res.status(400).json({ message: "date is required (YYYY-MM-DD)" });
+      }
+
+      // services may be repeated or comma-separated
+      const serviceList = ([] as string[])
+        .concat(services || [])
+        .flatMap((service: string) => service.split(","))
+        .map((service: string) => service.trim())
+        .filter(Boolean);
+
+      const { getAvailability } = await import("./appointmentAvailability");
+      const availability = await getAvailability(date, serviceList, {
+        excludeAppointmentId: excludeAppointmentId as string | undefined,
+      });
+      res.json(availability);
+    } catch (error) {
+      console.error("Error fetching appointment availability:", error);
+      res.status(500).json({ message: "Failed to fetch appointment availability" });
+    }
+  });
+
   app.post("/api/appointments", isAuthenticated, async (req: any, res) => {
     try {
       const userId = getAuthenticatedUserId(req);
@@ -390,10 +566,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...req.body,
         customerId, // Use server-derived value
         scheduledDate: req.body.scheduledDate ? new Date(req.body.scheduledDate) : undefined,
+        scheduledEndDate: req.body.scheduledEndDate ? new Date(req.body.scheduledEndDate) : undefined,
       };
 
       const validated = insertAppointmentSchema.parse(appointmentData);
-      const appointment = await storage.createAppointment(validated);
+
+      const { checkAppointmentSlot, getAppointmentServices, withShopDayLock } = await import("./appointmentAvailability");
+      const booking = await withShopDayLock(validated.scheduledDate, async () => {
+        const slot = await checkAppointmentSlot(validated.scheduledDate, getAppointmentServices(validated), {
+          bayId: validated.bayId,
+        });
+        if (!slot.available) {
+          return { reason: slot.reason };
+        }
+        return {
+          appointment: await storage.createAppointment({
+            ...validated,
+            scheduledEndDate: validated.scheduledEndDate ?? slot.end,
+          }),
+        };
+      });
+      if (!booking.appointment) {
+        return res.status(400).json({ message: `Requested time is not available: ${booking.reason}` });
+      }
+      const appointment = booking.appointment;
       
       // Send push notification to customer
       const customer = await storage.getUser(customerId);
@@ -406,6 +602,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const notification = pushNotificationService.createAppointmentNotification(
           'created',
           {
+            appointmentId: appointment.id,
             serviceType: servicesText,
             scheduledDate: appointment.scheduledDate,
           }
@@ -429,7 +626,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const staffNotification = {
           title: 'New Appointment',
           body: `New ${appointmentTypeText} appointment for ${servicesText} scheduled for ${appointment.scheduledDate.toLocaleString()}`,
-          data: { type: 'appointment', action: 'new' },
+          data: { type: 'appointment', action: 'new', appointmentId: appointment.id },
           channelId: 'appointments',
         };
         pushNotificationService.sendToMultipleUsers(adminManagers, staffNotification).catch(err => {
@@ -450,17 +647,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const updateData = {
         ...req.body,
         scheduledDate: req.body.scheduledDate ? new Date(req.body.scheduledDate) : undefined,
+        scheduledEndDate: req.body.scheduledEndDate ? new Date(req.body.scheduledEndDate) : undefined,
       };
 
       const validated = updateAppointmentSchema.parse(updateData);
-      const appointment = await storage.updateAppointment(req.params.id, validated);
+
+      // Get original appointment to check status change and validate reschedules
+      const originalAppointment = await storage.getAppointment(req.params.id);
+      if (!originalAppointment) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+
+      const rescheduled = validated.scheduledDate && validated.scheduledDate.getTime() !== originalAppointment.scheduledDate.getTime();
+      const bayChanged = validated.bayId && validated.bayId !== originalAppointment.bayId;
+      let appointment: Appointment | undefined;
+      if (rescheduled || bayChanged) {
+        const { checkAppointmentSlot, getAppointmentServices, withShopDayLock } = await import("./appointmentAvailability");
+        const scheduledDate = validated.scheduledDate ?? originalAppointment.scheduledDate;
+        const booking = await withShopDayLock(scheduledDate, async () => {
+          const slot = await checkAppointmentSlot(scheduledDate, getAppointmentServices(originalAppointment), {
+            excludeAppointmentId: originalAppointment.id,
+            bayId: validated.bayId ?? originalAppointment.bayId,
+          });
+          if (!slot.available) {
+            return { reason: slot.reason };
+          }
+          if (rescheduled && validated.scheduledEndDate === undefined) {
+            validated.scheduledEndDate = slot.end;
+          }
+          return { appointment: await storage.updateAppointment(req.params.id, validated) };
+        });
+        if (booking.reason) {
+          return res.status(400).json({ message: `Requested time is not available: ${booking.reason}` });
+        }
+        appointment = booking.appointment;
+      } else {
+        appointment = await storage.updateAppointment(req.params.id, validated);
+      }
       if (!appointment) {
         return res.status(404).json({ message: "Appointment not found" });
       }
       
-      // Get original appointment to check status change
-      const originalAppointment = await storage.getAppointment(req.params.id);
-      
       // Send push notification if status changed to confirmed
       if (validated.status === 'confirmed' && originalAppointment?.status !== 'confirmed') {
         const customer = await storage.getUser(appointment.customerId);
@@ -472,6 +699,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           const notification = pushNotificationService.createAppointmentNotification(
             'confirmed',
             {
+              appointmentId: appointment.id,
               serviceType: servicesText,
               scheduledDate: appointment.scheduledDate,
             }
@@ -493,6 +721,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           const notification = pushNotificationService.createAppointmentNotification(
             'cancelled',
             {
+              appointmentId: appointment.id,
               serviceType: servicesText,
               scheduledDate: appointment.scheduledDate,
             }
@@ -536,6 +765,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const notification = pushNotificationService.createAppointmentNotification(
           'cancelled',
           {
+            appointmentId: updated.id,
             serviceType: updated.serviceType,
             scheduledDate: updated.scheduledDate,
           }
@@ -804,6 +1034,150 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Service Bays
+  app.get("/api/service-bays", isAuthenticated, requireRole(["admin", "manager", "receptionist", "mechanic"]), async (req: any, res) => {
+    try {
+      const bays = await storage.getServiceBays(req.query.includeInactive === "true");
+      res.json(bays);
+    } catch (error) {
+      console.error("Error fetching service bays:", error);
+      res.status(500).json({ message: "Failed to fetch service bays" });
+    }
+  });
+
+  app.post("/api/service-bays", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const validated = insertServiceBaySchema.parse(req.body);
+      const bay = await storage.createServiceBay(validated);
+      res.json(bay);
+    } catch (error) {
+      console.error("Error creating service bay:", error);
+      res.status(400).json({ message: "Failed to create service bay" });
+    }
+  });
+
+  app.patch("/api/service-bays/:id", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const validated = updateServiceBaySchema.parse(req.body);
+      const bay = await storage.updateServiceBay(req.params.id, validated);
+      if (!bay) {
+        return res.status(404).json({ message: "Service bay not found" });
+      }
+      res.json(bay);
+    } catch (error) {
+      console.error("Error updating service bay:", error);
+      res.status(400).json({ message: "Failed to update service bay" });
+    }
+  });
+
+  // Mechanic Shifts & Time Off
+  app.get("/api/mechanics/:id/shifts", isAuthenticated, requireRole(["admin", "manager", "receptionist", "mechanic"]), async (req: any, res) => {
+    try {
+      const shifts = await storage.getMechanicShifts(req.params.id);
+      res.json(shifts);
+    } catch (error) {
+      console.error("Error fetching mechanic shifts:", error);
+      res.status(500).json({ message: "Failed to fetch mechanic shifts" });
+    }
+  });
+
+  // Replace a mechanic's weekly shifts; days not listed are days off
+  app.put("/api/mechanics/:id/shifts", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const mechanic = await storage.getUser(req.params.id);
+      if (!mechanic || mechanic.role !== "mechanic") {
+        return res.status(404).json({ message: "Mechanic not found" });
+      }
+
+      const parsed = mechanicShiftInputSchema.array().safeParse(req.body.shifts);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid shifts", errors: parsed.error.errors });
+      }
+      if (new Set(parsed.data.map(shift => shift.dayOfWeek)).size !== parsed.data.length) {
+        return res.status(400).json({ message: "Only one shift per day is allowed" });
+      }
+
+      const shifts = await storage.setMechanicShifts(mechanic.id, parsed.data);
+      res.json(shifts);
+    } catch (error) {
+      console.error("Error updating mechanic shifts:", error);
+      res.status(500).json({ message: "Failed to update mechanic shifts" });
+    }
+  });
+
+  app.get("/api/mechanics/:id/time-off", isAuthenticated, requireRole(["admin", "manager", "receptionist", "mechanic"]), async (req: any, res) => {
+    try {
+      const { from, to } = req.query;
+      const timeOff = await storage.getMechanicTimeOff({
+        mechanicId: req.params.id,
+        from: from ? new Date(from as string) : undefined,
+        to: to ? new Date(to as string) : undefined,
+      });
+      res.json(timeOff);
+    } catch (error) {
+      console.error("Error fetching mechanic time off:", error);
+      res.status(500).json({ message: "Failed to fetch mechanic time off" });
+    }
+  });
+
+  app.post("/api/mechanics/:id/time-off", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const userId = getAuthenticatedUserId(req);
+      const mechanic = await storage.getUser(req.params.id);
+      if (!mechanic || mechanic.role !== "mechanic") {
+        return res.status(404).json({ message: "Mechanic not found" });
+      }
+
+      const validated = insertMechanicTimeOffSchema.parse({
+        ...req.body,
+        mechanicId: mechanic.id,
+        startDate: req.body.startDate ? new Date(req.body.startDate) : undefined,
+        endDate: req.body.endDate ? new Date(req.body.endDate) : undefined,
+        createdBy: userId,
+      });
+      const timeOff = await storage.createMechanicTimeOff(validated);
+      res.json(timeOff);
+    } catch (error) {
+      console.error("Error creating mechanic time off:", error);
+      res.status(400).json({ message: "Failed to create mechanic time off" });
+    }
+  });
+
+  app.delete("/api/mechanic-time-off/:id", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const deleted = await storage.deleteMechanicTimeOff(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Time off entry not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting mechanic time off:", error);
+      res.status(500).json({ message: "Failed to delete mechanic time off" });
+    }
+  });
+
+  // Daily dispatch board: work per bay and per mechanic, plus unassigned jobs
+  app.get("/api/dispatch-board", isAuthenticated, requireRole(["admin", "manager", "receptionist", "mechanic"]), async (req: any, res) => {
+    try {
+      const { getZonedDateString } = await import("./businessHours");
+      const { getDispatchBoard } = await import("./shopCapacity");
+
+      let date = req.query.date as string | undefined;
+      if (!date) {
+        const settings = await storage.getAppointmentSettings();
+        date = getZonedDateString(new Date(), settings.timezone);
+      } else if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return res.status(400).json({ message: "date must be YYYY-MM-DD" });
+      }
+
+      const board = await getDispatchBoard(date);
+      res.json(board);
+    } catch (error) {
+      console.error("Error fetching dispatch board:", error);
+      res.status(500).json({ message: "Failed to fetch dispatch board" });
+    }
+  });
+
   // Payment Gateway Settings
   app.get("/api/settings/payment-gateway", isAuthenticated, requireRole(["admin"]), async (req: any, res) => {
     try {
@@ -2098,6 +2472,186 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Purchase Orders
+  app.get("/api/purchase-orders", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const { vendorId, status } = req.query;
+      const orders = await storage.getPurchaseOrders({ vendorId, status });
+      res.json(orders);
+    } catch (error) {
+      console.error("Error fetching purchase orders:", error);
+      res.status(500).json({ message: "Failed to fetch purchase orders" });
+    }
+  });
+
+  app.post("/api/purchase-orders", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const validated = insertPurchaseOrderSchema.parse(req.body);
+      const vendor = await storage.getVendorById(validated.vendorId);
+      if (!vendor) {
+        return res.status(400).json({ message: "Vendor not found" });
+      }
+
+      const order = await storage.createPurchaseOrder(validated, getAuthenticatedUserId(req));
+      const lines = await storage.getPurchaseOrderLines(order.id);
+      res.status(201).json({ ...order, lines });
+    } catch (error: any) {
+      console.error("Error creating purchase order:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid purchase order data", errors: error.errors });
+      }
+      res.status(400).json({ message: error.message || "Failed to create purchase order" });
+    }
+  });
+
+  app.get("/api/purchase-orders/:id", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const order = await storage.getPurchaseOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+      const lines = await storage.getPurchaseOrderLines(order.id);
+      res.json({ ...order, lines });
+    } catch (error) {
+      console.error("Error fetching purchase order:", error);
+      res.status(500).json({ message: "Failed to fetch purchase order" });
+    }
+  });
+
+  // Only drafts can be edited; passing lines replaces them
+  app.patch("/api/purchase-orders/:id", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const order = await storage.getPurchaseOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+      if (order.status !== "draft") {
+        return res.status(400).json({ message: "Only draft purchase orders can be edited" });
+      }
+
+      const validated = updatePurchaseOrderSchema.parse(req.body);
+      const updated = await storage.updatePurchaseOrder(order.id, validated);
+      const lines = await storage.getPurchaseOrderLines(order.id);
+      res.json({ ...updated, lines });
+    } catch (error: any) {
+      console.error("Error updating purchase order:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid purchase order data", errors: error.errors });
+      }
+      res.status(400).json({ message: error.message || "Failed to update purchase order" });
+    }
+  });
+
+  app.delete("/api/purchase-orders/:id", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const order = await storage.getPurchaseOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+      if (order.status !== "draft") {
+        return res.status(400).json({ message: "Only draft purchase orders can be deleted" });
+      }
+
+      await storage.deletePurchaseOrder(order.id);
+      res.json({ message: "Purchase order deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting purchase order:", error);
+      res.status(500).json({ message: "Failed to delete purchase order" });
+    }
+  });
+
+  // Mark a draft as sent to the vendor; it can then be received against
+  app.post("/api/purchase-orders/:id/send", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const order = await storage.getPurchaseOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+      if (order.status !== "draft") {
+        return res.status(400).json({ message: "Purchase order has already been sent" });
+      }
+
+      const updated = await storage.updatePurchaseOrder(order.id, { status: "sent", sentAt: new Date() });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error sending purchase order:", error);
+      res.status(500).json({ message: "Failed to send purchase order" });
+    }
+  });
+
+  // Receive delivered quantities; adds stock and, once everything has arrived, creates the vendor bill
+  app.post("/api/purchase-orders/:id/receive", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const validated = receivePurchaseOrderSchema.parse(req.body);
+      const userId = getAuthenticatedUserId(req);
+      const { purchaseOrder, lines, movements } = await storage.receivePurchaseOrder(req.params.id, validated.lines, userId);
+
+      let order = purchaseOrder;
+      if (order.status === "received") {
+        try {
+          const { billPurchaseOrder } = await import("./purchaseOrders");
+          order = await billPurchaseOrder(order, userId, validated.vendorInvoiceNumber);
+        } catch (error) {
+          // The stock is in either way; the bill can be created with POST /bill
+          console.error(`Failed to bill purchase order ${order.poNumber}:`, error);
+        }
+      }
+      res.json({ ...order, lines, movements });
+    } catch (error: any) {
+      console.error("Error receiving purchase order:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid receipt data", errors: error.errors });
+      }
+      if (error.message === "Purchase order not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(400).json({ message: error.message || "Failed to receive purchase order" });
+    }
+  });
+
+  // Short-close an order the vendor won't complete; whatever was received is billed
+  app.post("/api/purchase-orders/:id/close", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const userId = getAuthenticatedUserId(req);
+      let order = await storage.closePurchaseOrder(req.params.id);
+      const lines = await storage.getPurchaseOrderLines(order.id);
+
+      if (lines.some(line => line.quantityReceived > 0)) {
+        try {
+          const { billPurchaseOrder } = await import("./purchaseOrders");
+          order = await billPurchaseOrder(order, userId, req.body.vendorInvoiceNumber);
+        } catch (error) {
+          // The order is closed either way; the bill can be created with POST /bill
+          console.error(`Failed to bill purchase order ${order.poNumber}:`, error);
+        }
+      }
+      res.json({ ...order, lines });
+    } catch (error: any) {
+      console.error("Error closing purchase order:", error);
+      if (error.message === "Purchase order not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(400).json({ message: error.message || "Failed to close purchase order" });
+    }
+  });
+
+  // Create the vendor bill for a received or closed order (normally done automatically)
+  app.post("/api/purchase-orders/:id/bill", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const order = await storage.getPurchaseOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+
+      const { billPurchaseOrder } = await import("./purchaseOrders");
+      const billed = await billPurchaseOrder(order, getAuthenticatedUserId(req), req.body.vendorInvoiceNumber);
+      res.json(billed);
+    } catch (error: any) {
+      console.error("Error billing purchase order:", error);
+      res.status(400).json({ message: error.message || "Failed to bill purchase order" });
+    }
+  });
+
   // Vendor Payments
   app.get("/api/vendor-payments", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
     try {
@@ -2127,24 +2681,444 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Accounting Reports
-  app.get("/api/reports/ar-aging", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+  // Tax Rates
+  app.get("/api/tax-rates", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
     try {
-      const report = await storage.getARAgingReport();
-      res.json(report);
+      const { jurisdiction, isActive } = req.query;
+      const filters: any = {};
+      if (jurisdiction) filters.jurisdiction = jurisdiction;
+      if (isActive !== undefined) filters.isActive = isActive === "true";
+      const rates = await storage.getAllTaxRates(filters);
+      res.json(rates);
     } catch (error) {
-      console.error("Error generating AR aging report:", error);
-      res.status(500).json({ message: "Failed to generate AR aging report" });
+      console.error("Error fetching tax rates:", error);
+      res.status(500).json({ message: "Failed to fetch tax rates" });
     }
   });
 
-  app.get("/api/reports/ap-aging", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+  app.get("/api/tax-rates/effective", isAuthenticated, async (req: any, res) => {
     try {
-      const report = await storage.getVendorAgingReport();
-      res.json(report);
+      const { date } = req.query;
+      const at = date ? new Date(date as string) : new Date();
+      if (isNaN(at.getTime())) {
+        return res.status(400).json({ message: "Invalid date" });
+      }
+      const rates = await storage.getEffectiveTaxRates(at);
+      res.json(rates);
     } catch (error) {
-      console.error("Error generating AP aging report:", error);
-      res.status(500).json({ message: "Failed to generate AP aging report" });
+      console.error("Error fetching effective tax rates:", error);
+      res.status(500).json({ message: "Failed to fetch effective tax rates" });
+    }
+  });
+
+  // Preview tax for line items before creating an invoice or estimate
+  app.post("/api/tax-rates/calculate", isAuthenticated, requireRole(["admin", "manager", "receptionist"]), async (req: any, res) => {
+    try {
+      const { items, date } = req.body;
+      const calculation = await storage.calculateTax(
+        Array.isArray(items) ? items : [],
+        date ? new Date(date) : new Date()
+      );
+      res.json(calculation);
+    } catch (error) {
+      console.error("Error calculating tax:", error);
+      res.status(400).json({ message: "Failed to calculate tax" });
+    }
+  });
+
+  app.get("/api/tax-rates/:id", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const rate = await storage.getTaxRate(req.params.id);
+      if (!rate) {
+        return res.status(404).json({ message: "Tax rate not found" });
+      }
+      res.json(rate);
+    } catch (error) {
+      console.error("Error fetching tax rate:", error);
+      res.status(500).json({ message: "Failed to fetch tax rate" });
+    }
+  });
+
+  app.post("/api/tax-rates", isAuthenticated, requireRole(["admin"]), async (req: any, res) => {
+    try {
+      const validated = insertTaxRateSchema.parse({
+        ...req.body,
+        rate: req.body.rate !== undefined ? String(req.body.rate) : undefined,
+        effectiveDate: req.body.effectiveDate ? new Date(req.body.effectiveDate) : undefined,
+        expiryDate: req.body.expiryDate ? new Date(req.body.expiryDate) : undefined,
+      });
+      const rate = await storage.createTaxRate(validated);
+      res.status(201).json(rate);
+    } catch (error) {
+      console.error("Error creating tax rate:", error);
+      res.status(400).json({ message: "Failed to create tax rate" });
+    }
+  });
+
+  app.patch("/api/tax-rates/:id", isAuthenticated, requireRole(["admin"]), async (req: any, res) => {
+    try {
+      const validated = updateTaxRateSchema.parse({
+        ...req.body,
+        rate: req.body.rate !== undefined ? String(req.body.rate) : undefined,
+        effectiveDate: req.body.effectiveDate ? new Date(req.body.effectiveDate) : undefined,
+        expiryDate: req.body.expiryDate ? new Date(req.body.expiryDate) : req.body.expiryDate,
+      });
+      const rate = await storage.updateTaxRate(req.params.id, validated);
+      if (!rate) {
+        return res.status(404).json({ message: "Tax rate not found" });
+      }
+      res.json(rate);
+    } catch (error) {
+      console.error("Error updating tax rate:", error);
+      res.status(400).json({ message: "Failed to update tax rate" });
+    }
+  });
+
+  app.delete("/api/tax-rates/:id", isAuthenticated, requireRole(["admin"]), async (req: any, res) => {
+    try {
+      await storage.deleteTaxRate(req.params.id);
+      res.json({ message: "Tax rate deleted successfully" });
+    } catch (error: any) {
+      console.error("Error deleting tax rate:", error);
+      res.status(400).json({ message: error.message || "Failed to delete tax rate" });
+    }
+  });
+
+  // Tax Remittances
+  // Tax collected grouped by filing period and rate (granularity: monthly or quarterly)
+  app.get("/api/tax/periods", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const { granularity = "monthly", taxRateId } = req.query;
+      if (granularity !== "monthly" && granularity !== "quarterly") {
+        return res.status(400).json({ message: "Invalid granularity. Use monthly or quarterly" });
+      }
+      const summary = await storage.getTaxCollectedSummary({
+        granularity,
+        taxRateId: taxRateId as string | undefined,
+      });
+      res.json(summary);
+    } catch (error) {
+      console.error("Error fetching tax periods:", error);
+      res.status(500).json({ message: "Failed to fetch tax periods" });
+    }
+  });
+
+  app.get("/api/tax/remittances", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const { taxRateId, taxPeriod, status } = req.query;
+      const filters: any = {};
+      if (taxRateId) filters.taxRateId = taxRateId;
+      if (taxPeriod) filters.taxPeriod = taxPeriod;
+      if (status) filters.status = status;
+      const remittances = await storage.getAllTaxRemittances(filters);
+      res.json(remittances);
+    } catch (error) {
+      console.error("Error fetching tax remittances:", error);
+      res.status(500).json({ message: "Failed to fetch tax remittances" });
+    }
+  });
+
+  app.get("/api/tax/remittances/:id", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const remittance = await storage.getTaxRemittance(req.params.id);
+      if (!remittance) {
+        return res.status(404).json({ message: "Tax remittance not found" });
+      }
+      const taxCollected = await storage.getTaxCollectedByRemittance(req.params.id);
+      res.json({ ...remittance, taxCollected });
+    } catch (error) {
+      console.error("Error fetching tax remittance:", error);
+      res.status(500).json({ message: "Failed to fetch tax remittance" });
+    }
+  });
+
+  app.post("/api/tax/remittances", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const { taxRateId, taxPeriod, remittanceDate, dueDate, paymentMethod, paymentReference, totalTaxRemitted, status, notes } = req.body;
+      if (!taxRateId || !taxPeriod) {
+        return res.status(400).json({ message: "taxRateId and taxPeriod are required" });
+      }
+
+      const remittance = await storage.createTaxRemittance({
+        taxRateId,
+        taxPeriod,
+        remittanceDate: remittanceDate ? new Date(remittanceDate) : new Date(),
+        dueDate: dueDate ? new Date(dueDate) : undefined,
+        paymentMethod,
+        paymentReference,
+        totalTaxRemitted: totalTaxRemitted !== undefined ? String(totalTaxRemitted) : undefined,
+        status,
+        notes,
+        filedBy: getAuthenticatedUserId(req),
+      });
+      res.status(201).json(remittance);
+    } catch (error: any) {
+      console.error("Error creating tax remittance:", error);
+      res.status(400).json({ message: error.message || "Failed to create tax remittance" });
+    }
+  });
+
+  // Record filing confirmation and attachments for a remittance
+  app.patch("/api/tax/remittances/:id/filing", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const { filingConfirmation, attachments, status, paymentReference, lateFee, notes } = req.body;
+      const remittance = await storage.recordTaxRemittanceFiling(req.params.id, {
+        filingConfirmation,
+        attachments: Array.isArray(attachments) ? attachments : undefined,
+        status,
+        paymentReference,
+        lateFee: lateFee !== undefined ? String(lateFee) : undefined,
+        notes,
+      });
+      if (!remittance) {
+        return res.status(404).json({ message: "Tax remittance not found" });
+      }
+      res.json(remittance);
+    } catch (error) {
+      console.error("Error recording tax filing:", error);
+      res.status(400).json({ message: "Failed to record tax filing" });
+    }
+  });
+
+  app.delete("/api/tax/remittances/:id", isAuthenticated, requireRole(["admin"]), async (req: any, res) => {
+    try {
+      await storage.deleteTaxRemittance(req.params.id);
+      res.json({ message: "Tax remittance deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting tax remittance:", error);
+      res.status(500).json({ message: "Failed to delete tax remittance" });
+    }
+  });
+
+  // Late Fees
+  app.get("/api/settings/late-fees", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const settings = await storage.getLateFeeSettings();
+      res.json(settings);
+    } catch (error) {
+      console.error("Error fetching late fee settings:", error);
+      res.status(500).json({ message: "Failed to fetch late fee settings" });
+    }
+  });
+
+  app.patch("/api/settings/late-fees", isAuthenticated, requireRole(["admin"]), async (req: any, res) => {
+    try {
+      const validated = updateLateFeeSettingsSchema.parse(req.body);
+      const settings = await storage.updateLateFeeSettings(validated);
+      res.json(settings);
+    } catch (error) {
+      console.error("Error updating late fee settings:", error);
+      res.status(400).json({ message: "Failed to update late fee settings" });
+    }
+  });
+
+  app.get("/api/late-fees", isAuthenticated, requireRole(["admin", "manager", "receptionist"]), async (req: any, res) => {
+    try {
+      const { invoiceId, customerId, status } = req.query;
+      const filters: any = {};
+      if (invoiceId) filters.invoiceId = invoiceId;
+      if (customerId) filters.customerId = customerId;
+      if (status) filters.status = status;
+      const fees = await storage.getLateFees(filters);
+      res.json(fees);
+    } catch (error) {
+      console.error("Error fetching late fees:", error);
+      res.status(500).json({ message: "Failed to fetch late fees" });
+    }
+  });
+
+  // Run late fee assessment manually (admin only); dryRun=true previews without applying
+  app.post("/api/late-fees/run", isAuthenticated, requireRole(["admin"]), async (req: any, res) => {
+    try {
+      const { runLateFeeJob } = await import("./lateFeeAssessment");
+      const result = await runLateFeeJob({
+        dryRun: req.body?.dryRun === true || req.query.dryRun === "true",
+      });
+      res.json(result);
+    } catch (error) {
+      console.error("Error running late fee job:", error);
+      res.status(500).json({ message: "Failed to run late fee assessment" });
+    }
+  });
+
+  app.post("/api/late-fees/:id/waive", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const { reason } = req.body;
+      if (!reason) {
+        return res.status(400).json({ message: "A reason is required to waive a late fee" });
+      }
+      const fee = await storage.reverseLateFee(req.params.id, "waived", getAuthenticatedUserId(req), reason);
+      res.json(fee);
+    } catch (error: any) {
+      console.error("Error waiving late fee:", error);
+      res.status(400).json({ message: error.message || "Failed to waive late fee" });
+    }
+  });
+
+  app.post("/api/late-fees/:id/void", isAuthenticated, requireRole(["admin"]), async (req: any, res) => {
+    try {
+      const { reason } = req.body;
+      if (!reason) {
+        return res.status(400).json({ message: "A reason is required to void a late fee" });
+      }
+      const fee = await storage.reverseLateFee(req.params.id, "void", getAuthenticatedUserId(req), reason);
+      res.json(fee);
+    } catch (error: any) {
+      console.error("Error voiding late fee:", error);
+      res.status(400).json({ message: error.message || "Failed to void late fee" });
+    }
+  });
+
+  // Payment Reminders (Dunning)
+  app.get("/api/settings/payment-reminders", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const settings = await storage.getPaymentReminderSettings();
+      res.json(settings);
+    } catch (error) {
+      console.error("Error fetching payment reminder settings:", error);
+      res.status(500).json({ message: "Failed to fetch payment reminder settings" });
+    }
+  });
+
+  app.patch("/api/settings/payment-reminders", isAuthenticated, requireRole(["admin"]), async (req: any, res) => {
+    try {
+      const validated = updatePaymentReminderSettingsSchema.parse(req.body);
+      const settings = await storage.updatePaymentReminderSettings(validated);
+      res.json(settings);
+    } catch (error) {
+      console.error("Error updating payment reminder settings:", error);
+      res.status(400).json({ message: "Failed to update payment reminder settings" });
+    }
+  });
+
+  app.get("/api/payment-reminders/log", isAuthenticated, requireRole(["admin", "manager", "receptionist"]), async (req: any, res) => {
+    try {
+      const { invoiceId, customerId, reminderType } = req.query;
+      const filters: any = {};
+      if (invoiceId) filters.invoiceId = invoiceId;
+      if (customerId) filters.customerId = customerId;
+      if (reminderType) filters.reminderType = reminderType;
+      const log = await storage.getPaymentRemindersLog(filters);
+      res.json(log);
+    } catch (error) {
+      console.error("Error fetching payment reminders log:", error);
+      res.status(500).json({ message: "Failed to fetch payment reminders log" });
+    }
+  });
+
+  // Preview the reminders the next run would send, without sending or logging anything
+  app.get("/api/payment-reminders/preview", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const { runPaymentReminderJob } = await import("./paymentReminderRunner");
+      const result = await runPaymentReminderJob({ dryRun: true });
+      res.json(result);
+    } catch (error) {
+      console.error("Error previewing payment reminders:", error);
+      res.status(500).json({ message: "Failed to preview payment reminders" });
+    }
+  });
+
+  // Send due payment reminders now (admin only)
+  app.post("/api/payment-reminders/run", isAuthenticated, requireRole(["admin"]), async (req: any, res) => {
+    try {
+      const { runPaymentReminderJob } = await import("./paymentReminderRunner");
+      const result = await runPaymentReminderJob();
+      res.json(result);
+    } catch (error) {
+      console.error("Error running payment reminder job:", error);
+      res.status(500).json({ message: "Failed to run payment reminders" });
+    }
+  });
+
+  // Payment Plans
+  app.get("/api/payment-plans", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getAuthenticatedUserId(req);
+      const currentUser = await storage.getUser(userId);
+      const { customerId, status } = req.query;
+      const filters: any = {};
+      if (status) filters.status = status;
+      
+      // Customers only see their own plans
+      if (currentUser?.role === "customer") {
+        filters.customerId = userId;
+      } else if (customerId) {
+        filters.customerId = customerId;
+      }
+      
+      const plans = await storage.getAllPaymentPlans(filters);
+      res.json(plans);
+    } catch (error) {
+      console.error("Error fetching payment plans:", error);
+      res.status(500).json({ message: "Failed to fetch payment plans" });
+    }
+  });
+
+  // Run payment plan monitor manually (admin only)
+  app.post("/api/payment-plans/run", isAuthenticated, requireRole(["admin"]), async (req: any, res) => {
+    try {
+      const { runPaymentPlanJob } = await import("./paymentPlanMonitor");
+      const result = await runPaymentPlanJob();
+      res.json(result);
+    } catch (error) {
+      console.error("Error running payment plan job:", error);
+      res.status(500).json({ message: "Failed to run payment plan monitor" });
+    }
+  });
+
+  app.get("/api/payment-plans/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getAuthenticatedUserId(req);
+      const currentUser = await storage.getUser(userId);
+      const summary = await storage.getPaymentPlanSummary(req.params.id);
+      
+      if (!summary) {
+        return res.status(404).json({ message: "Payment plan not found" });
+      }
+      
+      // Customers can only view their own plans
+      if (currentUser?.role === "customer" && summary.plan.customerId !== userId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      res.json(summary);
+    } catch (error) {
+      console.error("Error fetching payment plan:", error);
+      res.status(500).json({ message: "Failed to fetch payment plan" });
+    }
+  });
+
+  app.post("/api/payment-plans/:id/cancel", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const plan = await storage.cancelPaymentPlan(req.params.id, req.body?.reason);
+      if (!plan) {
+        return res.status(404).json({ message: "Active payment plan not found" });
+      }
+      res.json(plan);
+    } catch (error) {
+      console.error("Error cancelling payment plan:", error);
+      res.status(500).json({ message: "Failed to cancel payment plan" });
+    }
+  });
+
+  // Accounting Reports
+  app.get("/api/reports/ar-aging", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const report = await storage.getARAgingReport();
+      res.json(report);
+    } catch (error) {
+      console.error("Error generating AR aging report:", error);
+      res.status(500).json({ message: "Failed to generate AR aging report" });
+    }
+  });
+
+  app.get("/api/reports/ap-aging", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const report = await storage.getVendorAgingReport();
+      res.json(report);
+    } catch (error) {
+      console.error("Error generating AP aging report:", error);
+      res.status(500).json({ message: "Failed to generate AP aging report" });
     }
   });
 
@@ -2171,6 +3145,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Stock on hand at weighted-average cost as of a date (default now)
+  app.get("/api/reports/inventory-valuation", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const at = req.query.at ? new Date(req.query.at as string) : new Date();
+      if (isNaN(at.getTime())) {
+        return res.status(400).json({ message: "Invalid date" });
+      }
+      const report = await storage.getInventoryValuation(at);
+      res.json(report);
+    } catch (error) {
+      console.error("Error generating inventory valuation:", error);
+      res.status(500).json({ message: "Failed to generate inventory valuation" });
+    }
+  });
+
+  // Tax liability per filing period (YYYY-MM or YYYY-Qn), with CSV export for returns
+  app.get("/api/reports/tax-liability", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const { period, format = "json" } = req.query;
+      if (!period) {
+        return res.status(400).json({ message: "period is required (YYYY-MM or YYYY-Q1..Q4)" });
+      }
+
+      const report = await storage.getTaxLiabilityReport(period as string);
+
+      if (format === "csv") {
+        const csv = storage.convertTaxLiabilityToCSV(report.rates);
+        res.setHeader("Content-Type", "text/csv");
+        res.setHeader("Content-Disposition", `attachment; filename="tax-liability-${report.period}.csv"`);
+        res.send(csv);
+      } else if (format === "json") {
+        res.json(report);
+      } else {
+        res.status(400).json({ message: "Invalid export format. Use csv or json" });
+      }
+    } catch (error: any) {
+      console.error("Error generating tax liability report:", error);
+      res.status(400).json({ message: error.message || "Failed to generate tax liability report" });
+    }
+  });
+
   app.get("/api/reports/customer-payment-history/:customerId", isAuthenticated, async (req: any, res) => {
     try {
       const { customerId } = req.params;
@@ -2349,14 +3364,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const jobCardData = {
         ...req.body,
         scheduledDate: req.body.scheduledDate ? new Date(req.body.scheduledDate) : undefined,
+        scheduledEndDate: req.body.scheduledEndDate ? new Date(req.body.scheduledEndDate) : undefined,
         laborHours: req.body.laborHours !== undefined ? String(req.body.laborHours) : undefined,
         laborRate: req.body.laborRate !== undefined ? String(req.body.laborRate) : undefined,
         totalCost: req.body.totalCost !== undefined ? String(req.body.totalCost) : undefined,
       };
 
       const validated = insertJobCardSchema.parse(jobCardData);
-      const jobCard = await storage.createJobCard(validated);
-      res.json(jobCard);
+
+      // The work window must fit the mechanic's shift and a free bay; the check and the insert
+      // run under the shop day's lock so a concurrent booking can't take the same slot
+      if (validated.status === "completed" || validated.status === "cancelled") {
+        const jobCard = await storage.createJobCard(validated);
+        return res.json(jobCard);
+      }
+
+      const { checkJobCardSchedule, getJobCardEnd, withShopDayLock } = await import("./shopCapacity");
+      const settings = await storage.getAppointmentSettings();
+      const booking = await withShopDayLock(validated.scheduledDate, async () => {
+        const schedule = await checkJobCardSchedule(
+          { start: validated.scheduledDate, end: getJobCardEnd({ ...validated, scheduledEndDate: validated.scheduledEndDate ?? null, laborHours: validated.laborHours ?? null }, settings) },
+          { mechanicId: validated.mechanicId, bayId: validated.bayId, excludeAppointmentId: validated.appointmentId ?? undefined }
+        );
+        if (!schedule.available) {
+          return { reason: schedule.reason };
+        }
+        return { jobCard: await storage.createJobCard(validated) };
+      });
+      if (!booking.jobCard) {
+        return res.status(400).json({ message: `Cannot schedule job card: ${booking.reason}` });
+      }
+      res.json(booking.jobCard);
     } catch (error) {
       console.error("Error creating job card:", error);
       res.status(400).json({ message: "Failed to create job card" });
@@ -2433,6 +3471,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             const notification = pushNotificationService.createJobCardNotification(
               'completed',
               {
+                jobCardId: updated.id,
                 description: updated.description,
                 vehicleMake: vehicle?.make,
                 vehicleModel: vehicle?.model,
@@ -2444,6 +3483,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
         }
         
+        if (updated.status !== jobCard.status) {
+          publishJobCardStatus(updated, jobCard.status);
+        }
+
         res.json(updated);
       } else {
         // Admin/Manager can update all fields except customerId
@@ -2451,35 +3494,79 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const jobCardData = {
           ...req.body,
           scheduledDate: req.body.scheduledDate ? new Date(req.body.scheduledDate) : undefined,
+          scheduledEndDate: req.body.scheduledEndDate ? new Date(req.body.scheduledEndDate) : undefined,
           laborHours: req.body.laborHours !== undefined ? String(req.body.laborHours) : undefined,
           laborRate: req.body.laborRate !== undefined ? String(req.body.laborRate) : undefined,
           totalCost: req.body.totalCost !== undefined ? String(req.body.totalCost) : undefined,
         };
         
         const validated = updateJobCardSchema.parse(jobCardData);
+
+        // Re-check capacity when the window, mechanic or bay changes; the check and the update
+        // run under the shop day's lock so a concurrent booking can't take the same slot
+        const scheduleChanged = (validated.scheduledDate && validated.scheduledDate.getTime() !== jobCard.scheduledDate.getTime())
+          || (validated.scheduledEndDate !== undefined && validated.scheduledEndDate?.getTime() !== jobCard.scheduledEndDate?.getTime())
+          || (validated.mechanicId && validated.mechanicId !== jobCard.mechanicId)
+          || (validated.bayId && validated.bayId !== jobCard.bayId);
+        const finalStatus = validated.status ?? jobCard.status;
+
         const updateData: any = { ...validated };
         if (validated.status === "completed") {
           updateData.completedAt = new Date();
-          
-          // Auto-stop timer when status changes to completed
-          if (jobCard.status !== "completed") {
-            const activeTimer = await storage.getActiveTimerSession(req.params.id);
-            if (activeTimer) {
-              // Calculate total elapsed time
-              const start = new Date(activeTimer.startTime).getTime();
-              const now = Date.now();
-              const elapsed = Math.floor((now - start) / 1000) + (activeTimer.totalSeconds || 0);
-              
-              // Stop the timer
-              await storage.updateTimerSession(activeTimer.id, {
-                endTime: new Date(),
-                totalSeconds: elapsed,
-                isActive: false,
-              });
+        }
+
+        let updated: JobCard | undefined;
+        if (scheduleChanged && finalStatus !== "completed" && finalStatus !== "cancelled") {
+          const { checkJobCardSchedule, getJobCardEnd, withShopDayLock } = await import("./shopCapacity");
+          const settings = await storage.getAppointmentSettings();
+          const merged = {
+            scheduledDate: validated.scheduledDate ?? jobCard.scheduledDate,
+            scheduledEndDate: validated.scheduledEndDate !== undefined ? validated.scheduledEndDate : jobCard.scheduledEndDate,
+            laborHours: validated.laborHours ?? jobCard.laborHours,
+          };
+          const saved = await withShopDayLock(merged.scheduledDate, async () => {
+            const schedule = await checkJobCardSchedule(
+              { start: merged.scheduledDate, end: getJobCardEnd(merged, settings) },
+              {
+                mechanicId: validated.mechanicId !== undefined ? validated.mechanicId : jobCard.mechanicId,
+                bayId: validated.bayId !== undefined ? validated.bayId : jobCard.bayId,
+                excludeJobCardId: jobCard.id,
+              }
+            );
+            if (!schedule.available) {
+              return { reason: schedule.reason };
             }
+            return { updated: await storage.updateJobCard(req.params.id, updateData) };
+          });
+          if (saved.reason) {
+            return res.status(400).json({ message: `Cannot schedule job card: ${saved.reason}` });
           }
+          updated = saved.updated;
+        } else {
+          updated = await storage.updateJobCard(req.params.id, updateData);
         }
-        
+        if (!updated) {
+          return res.status(404).json({ message: "Job card not found" });
+        }
+
+        // Auto-stop timer when status changes to completed
+        if (validated.status === "completed" && jobCard.status !== "completed") {
+          const activeTimer = await storage.getActiveTimerSession(req.params.id);
+          if (activeTimer) {
+            // Calculate total elapsed time
+            const start = new Date(activeTimer.startTime).getTime();
+            const now = Date.now();
+            const elapsed = Math.floor((now - start) / 1000) + (activeTimer.totalSeconds || 0);
+            
+            // Stop the timer
+            await storage.updateTimerSession(activeTimer.id, {
+              endTime: new Date(),
+              totalSeconds: elapsed,
+              isActive: false,
+            });
+          }
+        }
+
         // Auto-start timer when mechanic is assigned
         if (validated.mechanicId && !jobCard.mechanicId && validated.status !== "completed" && validated.status !== "cancelled") {
           // Check if timer already exists to prevent duplicates
@@ -2495,11 +3582,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
             await storage.createTimerSession(timerData);
           }
         }
-        
-        const updated = await storage.updateJobCard(req.params.id, updateData);
-        if (!updated) {
-          return res.status(404).json({ message: "Job card not found" });
-        }
 
         // Send push notifications on status changes
         if (validated.status && validated.status !== jobCard.status) {
@@ -2522,6 +3604,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
               const notification = pushNotificationService.createJobCardNotification(
                 notificationType,
                 {
+                  jobCardId: updated.id,
                   description: updated.description,
                   vehicleMake: vehicle?.make,
                   vehicleModel: vehicle?.model,
@@ -2534,6 +3617,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
         }
 
+        if (updated.status !== jobCard.status) {
+          publishJobCardStatus(updated, jobCard.status);
+        }
+
         res.json(updated);
       }
     } catch (error) {
@@ -2574,6 +3661,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const customer = await storage.getUser(invoice.customerId);
       if (customer) {
         const notification = pushNotificationService.createInvoiceNotification({
+          invoiceId: invoice.id,
           invoiceNumber: invoice.invoiceNumber,
           total: parseFloat(invoice.total || '0'),
         });
@@ -2589,6 +3677,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Parts and labour margin on a job card (sale prices vs. COGS and mechanic time)
+  app.get("/api/job-cards/:id/margin", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const { getJobCardMargin } = await import("./jobMargins");
+      const margin = await getJobCardMargin(req.params.id);
+      if (!margin) {
+        return res.status(404).json({ message: "Job card not found" });
+      }
+      res.json(margin);
+    } catch (error) {
+      console.error("Error calculating job card margin:", error);
+      res.status(500).json({ message: "Failed to calculate job card margin" });
+    }
+  });
+
   // Job Card Parts Management
   app.get("/api/job-cards/:jobCardId/parts", isAuthenticated, async (req: any, res) => {
     try {
@@ -2606,7 +3709,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const jobCardPart = await storage.addPartToJobCard({
         ...validated,
         jobCardId: req.params.jobCardId,
-      });
+      }, getAuthenticatedUserId(req));
       res.json(jobCardPart);
     } catch (error: any) {
       console.error("Error adding part to job card:", error);
@@ -2625,7 +3728,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid quantity" });
       }
 
-      const updatedPart = await storage.updateJobCardPartQuantity(req.params.partId, quantity);
+      const updatedPart = await storage.updateJobCardPartQuantity(req.params.partId, quantity, getAuthenticatedUserId(req));
       res.json(updatedPart);
     } catch (error: any) {
       console.error("Error updating job card part quantity:", error);
@@ -2639,7 +3742,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete("/api/job-cards/parts/:partId", isAuthenticated, requireRole(["admin", "manager", "mechanic"]), async (req: any, res) => {
     try {
-      await storage.removePartFromJobCard(req.params.partId);
+      await storage.removePartFromJobCard(req.params.partId, getAuthenticatedUserId(req));
       res.json({ message: "Part removed from job card and stock restored" });
     } catch (error) {
       console.error("Error removing part from job card:", error);
@@ -2651,7 +3754,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/parts", isAuthenticated, requireRole(["admin", "manager", "mechanic", "receptionist"]), async (req: any, res) => {
     try {
       const parts = await storage.getAllParts();
-      res.json(parts);
+      const reserved = await storage.getReservedQuantities();
+      res.json(parts.map(part => ({
+        ...part,
+        reservedQuantity: reserved.get(part.id) ?? 0,
+        availableQuantity: part.quantity - (reserved.get(part.id) ?? 0),
+      })));
     } catch (error) {
       console.error("Error fetching parts:", error);
       res.status(500).json({ message: "Failed to fetch parts" });
@@ -2668,10 +3776,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Parts to reorder based on recent job card usage, lead times and what's already on order
+  app.get("/api/parts/reorder-suggestions", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const lookbackDays = req.query.lookbackDays ? parseInt(req.query.lookbackDays as string) : undefined;
+      if (lookbackDays !== undefined && (isNaN(lookbackDays) || lookbackDays <= 0)) {
+        return res.status(400).json({ message: "lookbackDays must be a positive number" });
+      }
+
+      const { getReorderSuggestions } = await import("./reorderPlanner");
+      const suggestions = await getReorderSuggestions(lookbackDays);
+      res.json(suggestions);
+    } catch (error) {
+      console.error("Error fetching reorder suggestions:", error);
+      res.status(500).json({ message: "Failed to fetch reorder suggestions" });
+    }
+  });
+
+  // Turn reorder suggestions into draft purchase orders, one per preferred vendor
+  app.post("/api/parts/reorder-suggestions/purchase-orders", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const { partIds, lookbackDays } = req.body;
+      if (partIds !== undefined && (!Array.isArray(partIds) || !partIds.every(id => typeof id === "string"))) {
+        return res.status(400).json({ message: "partIds must be an array of part IDs" });
+      }
+      if (lookbackDays !== undefined && (!Number.isInteger(lookbackDays) || lookbackDays <= 0)) {
+        return res.status(400).json({ message: "lookbackDays must be a positive integer" });
+      }
+
+      const { createReorderPurchaseOrders } = await import("./reorderPlanner");
+      const result = await createReorderPurchaseOrders(getAuthenticatedUserId(req), { partIds, lookbackDays });
+      res.status(201).json(result);
+    } catch (error: any) {
+      console.error("Error creating reorder purchase orders:", error);
+      res.status(500).json({ message: "Failed to create purchase orders" });
+    }
+  });
+
   app.post("/api/parts", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
     try {
       const validated = insertPartSchema.parse(req.body);
-      const part = await storage.createPart(validated);
+      const part = await storage.createPart(validated, getAuthenticatedUserId(req));
       res.json(part);
     } catch (error) {
       console.error("Error creating part:", error);
@@ -2682,8 +3827,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch("/api/parts/:id", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
     try {
       const validated = updatePartSchema.parse(req.body);
-      const part = await storage.updatePart(req.params.id, validated);
-      
+      const part = await storage.updatePart(req.params.id, validated, getAuthenticatedUserId(req));
+      if (!part) {
+        return res.status(404).json({ message: "Part not found" });
+      }
+
       // Check for low stock and send notification to admin/managers
       if (part && part.quantity <= part.lowStockThreshold) {
         const staff = await storage.getAllStaff();
@@ -2692,6 +3840,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         );
         if (adminManagers.length > 0) {
           const notification = pushNotificationService.createLowStockNotification({
+            partId: part.id,
             partName: part.name,
             quantityInStock: part.quantity,
           });
@@ -2700,11 +3849,196 @@ export async function registerRoutes(app: Express): Promise<Server> {
           });
         }
       }
-      
-      res.json(part);
+      
+      res.json(part);
+    } catch (error) {
+      console.error("Error updating part:", error);
+      res.status(400).json({ message: "Failed to update part" });
+    }
+  });
+
+  // Stock movement ledger for a part (newest first), optionally filtered by ?from=&to=&type=
+  app.get("/api/parts/:id/movements", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const { from, to, type } = req.query;
+      const fromDate = from ? new Date(from as string) : undefined;
+      const toDate = to ? new Date(to as string) : undefined;
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        return res.status(400).json({ message: "from and to must be valid dates" });
+      }
+      const movementType = type ? stockMovementTypeEnum.enumValues.find(value => value === type) : undefined;
+      if (type && !movementType) {
+        return res.status(400).json({ message: `type must be one of ${stockMovementTypeEnum.enumValues.join(", ")}` });
+      }
+
+      const movements = await storage.getStockMovements(req.params.id, {
+        from: fromDate,
+        to: toDate,
+        type: movementType,
+      });
+      res.json(movements);
+    } catch (error) {
+      console.error("Error fetching stock movements:", error);
+      res.status(500).json({ message: "Failed to fetch stock movements" });
+    }
+  });
+
+  // Record a receipt, return, adjustment or write-off. Send quantityChange, or countedQuantity
+  // from a stock count to adjust to it (the difference is the shrinkage)
+  app.post("/api/parts/:id/movements", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const { type, quantityChange, countedQuantity, unitCost, notes } = req.body;
+      if (!["receipt", "return", "adjustment", "write_off"].includes(type)) {
+        return res.status(400).json({ message: "type must be receipt, return, adjustment or write_off" });
+      }
+
+      const part = await storage.getPart(req.params.id);
+      if (!part) {
+        return res.status(404).json({ message: "Part not found" });
+      }
+
+      if (countedQuantity !== undefined) {
+        if (!Number.isInteger(countedQuantity) || countedQuantity < 0) {
+          return res.status(400).json({ message: "countedQuantity must be a non-negative integer" });
+        }
+      } else if (!Number.isInteger(quantityChange) || quantityChange === 0) {
+        return res.status(400).json({ message: "quantityChange must be a non-zero integer" });
+      }
+
+      // A count is applied as "set to countedQuantity" once the part is locked
+      const details = {
+        partId: part.id,
+        type,
+        unitCost: unitCost !== undefined ? String(unitCost) : undefined,
+        userId: getAuthenticatedUserId(req),
+        notes,
+      };
+      const result = countedQuantity !== undefined
+        ? await storage.recordStockMovement({ ...details, setQuantity: countedQuantity, sourceType: "stock_count" })
+        : await storage.recordStockMovement({ ...details, quantityChange, sourceType: "manual" });
+      res.status(201).json(result);
+    } catch (error: any) {
+      console.error("Error recording stock movement:", error);
+      if (/Insufficient stock|must (add|remove) stock/.test(error.message ?? "")) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to record stock movement" });
+    }
+  });
+
+  // On-hand vs reserved vs available for a part
+  app.get("/api/parts/:id/availability", isAuthenticated, requireRole(["admin", "manager", "mechanic", "receptionist"]), async (req: any, res) => {
+    try {
+      const part = await storage.getPart(req.params.id);
+      if (!part) {
+        return res.status(404).json({ message: "Part not found" });
+      }
+
+      const reserved = (await storage.getReservedQuantities([part.id])).get(part.id) ?? 0;
+      const reservations = await storage.getPartReservations({ partId: part.id, status: "active" });
+      res.json({
+        partId: part.id,
+        onHand: part.quantity,
+        reserved,
+        available: part.quantity - reserved,
+        reservations,
+      });
+    } catch (error) {
+      console.error("Error fetching part availability:", error);
+      res.status(500).json({ message: "Failed to fetch part availability" });
+    }
+  });
+
+  // Part Reservations - soft holds on stock for a job card or estimate
+  app.get("/api/part-reservations", isAuthenticated, requireRole(["admin", "manager", "mechanic", "receptionist"]), async (req: any, res) => {
+    try {
+      const { partId, jobCardId, estimateId, status } = req.query;
+      const reservations = await storage.getPartReservations({ partId, jobCardId, estimateId, status });
+      res.json(reservations);
+    } catch (error) {
+      console.error("Error fetching part reservations:", error);
+      res.status(500).json({ message: "Failed to fetch part reservations" });
+    }
+  });
+
+  app.post("/api/part-reservations", isAuthenticated, requireRole(["admin", "manager", "mechanic", "receptionist"]), async (req: any, res) => {
+    try {
+      const validated = insertPartReservationSchema.parse(req.body);
+      if (!validated.jobCardId === !validated.estimateId) {
+        return res.status(400).json({ message: "Reserve for either a jobCardId or an estimateId" });
+      }
+
+      let expiresAt: Date | null = null;
+      if (validated.jobCardId) {
+        const jobCard = await storage.getJobCard(validated.jobCardId);
+        if (!jobCard) {
+          return res.status(404).json({ message: "Job card not found" });
+        }
+        if (jobCard.status === "completed" || jobCard.status === "cancelled") {
+          return res.status(400).json({ message: `Cannot reserve parts for a ${jobCard.status} job card` });
+        }
+      } else {
+        const estimate = await storage.getEstimate(validated.estimateId!);
+        if (!estimate) {
+          return res.status(404).json({ message: "Estimate not found" });
+        }
+        if (["rejected", "expired", "converted"].includes(estimate.status)
+          || (estimate.status !== "approved" && estimate.expiryDate <= new Date())) {
+          return res.status(400).json({ message: "Cannot reserve parts for a closed or expired estimate" });
+        }
+        // Held while the estimate awaits a decision; approved estimates hold until the work is done
+        expiresAt = estimate.status === "approved" ? null : estimate.expiryDate;
+      }
+
+      const reservation = await storage.createPartReservation({ ...validated, expiresAt }, getAuthenticatedUserId(req));
+      res.status(201).json(reservation);
+    } catch (error: any) {
+      console.error("Error creating part reservation:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid reservation data", errors: error.errors });
+      }
+      if (error.message?.includes("Insufficient stock") || error.message === "Part not found") {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create part reservation" });
+    }
+  });
+
+  // Release a reservation early (e.g. the customer changed their mind)
+  app.delete("/api/part-reservations/:id", isAuthenticated, requireRole(["admin", "manager", "mechanic", "receptionist"]), async (req: any, res) => {
+    try {
+      const reservation = await storage.getPartReservation(req.params.id);
+      if (!reservation) {
+        return res.status(404).json({ message: "Reservation not found" });
+      }
+
+      const released = await storage.releasePartReservation(reservation.id);
+      if (!released) {
+        return res.status(400).json({ message: `Reservation is already ${reservation.status}` });
+      }
+      res.json(released);
+    } catch (error) {
+      console.error("Error releasing part reservation:", error);
+      res.status(500).json({ message: "Failed to release part reservation" });
+    }
+  });
+
+  // Stock level at a point in time (?at=ISO date, default now)
+  app.get("/api/parts/:id/stock-level", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const at = req.query.at ? new Date(req.query.at as string) : new Date();
+      if (isNaN(at.getTime())) {
+        return res.status(400).json({ message: "Invalid date" });
+      }
+
+      const quantity = await storage.getStockLevelAt(req.params.id, at);
+      if (quantity === undefined) {
+        return res.status(404).json({ message: "Part not found" });
+      }
+      res.json({ partId: req.params.id, at, quantity });
     } catch (error) {
-      console.error("Error updating part:", error);
-      res.status(400).json({ message: "Failed to update part" });
+      console.error("Error fetching stock level:", error);
+      res.status(500).json({ message: "Failed to fetch stock level" });
     }
   });
 
@@ -3259,7 +4593,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const validated = insertApprovalRequestSchema.parse({
         ...req.body,
         customerId: userId,
+        requestedDate: req.body.requestedDate ? new Date(req.body.requestedDate) : undefined,
+        currentDate: req.body.currentDate ? new Date(req.body.currentDate) : undefined,
       });
+
+      // The requested time must be bookable before staff are asked to approve it
+      if (validated.type === "reschedule" || validated.type === "new_appointment") {
+        const appointment = validated.appointmentId ? await storage.getAppointment(validated.appointmentId) : undefined;
+        const { checkAppointmentSlot, getAppointmentServices } = await import("./appointmentAvailability");
+        const slot = await checkAppointmentSlot(validated.requestedDate, appointment ? getAppointmentServices(appointment) : [], {
+          excludeAppointmentId: appointment?.id,
+        });
+        if (!slot.available) {
+          return res.status(400).json({ message: `Requested time is not available: ${slot.reason}` });
+        }
+      }
+
       const approval = await storage.createApprovalRequest(validated);
       
       // Send push notification to admin/managers
@@ -3269,6 +4618,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       );
       if (adminManagers.length > 0) {
         const notification = pushNotificationService.createApprovalNotification({
+          approvalId: approval.id,
           description: approval.reason || 'Approval request pending',
           estimatedCost: 0, // Approval requests don't have cost in current schema
         });
@@ -3288,13 +4638,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = getAuthenticatedUserId(req);
       const validated = updateApprovalSchema.parse(req.body);
-      
+
+      const existing = await storage.getApprovalRequest(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Approval request not found" });
+      }
+
+      // Approving a reschedule moves the appointment, so the slot must still be free
+      const appointment = existing.appointmentId ? await storage.getAppointment(existing.appointmentId) : undefined;
+      const rescheduled = validated.status === "approved" && existing.status !== "approved" && existing.type === "reschedule"
+        ? appointment
+        : undefined;
       const updateData: any = {
         ...validated,
         reviewedBy: userId,
       };
-      const approval = await storage.updateApprovalRequest(req.params.id, updateData);
-      res.json(approval);
+      if (!rescheduled) {
+        const approval = await storage.updateApprovalRequest(req.params.id, updateData);
+        return res.json(approval);
+      }
+
+      const { checkAppointmentSlot, getAppointmentServices, withShopDayLock } = await import("./appointmentAvailability");
+      const booking = await withShopDayLock(existing.requestedDate, async () => {
+        const slot = await checkAppointmentSlot(existing.requestedDate, getAppointmentServices(rescheduled), {
+          excludeAppointmentId: rescheduled.id,
+          bayId: rescheduled.bayId,
+        });
+        if (!slot.available) {
+          return { reason: slot.reason };
+        }
+        const approval = await storage.updateApprovalRequest(req.params.id, updateData);
+        await storage.updateAppointment(rescheduled.id, {
+          scheduledDate: existing.requestedDate,
+          scheduledEndDate: slot.end,
+        });
+        return { approval };
+      });
+      if (!booking.approval) {
+        return res.status(400).json({ message: `Requested time is no longer available: ${booking.reason}` });
+      }
+      res.json(booking.approval);
     } catch (error) {
       console.error("Error updating approval:", error);
       res.status(400).json({ message: "Failed to update approval" });
@@ -3964,6 +5347,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Parts and labour margin on an invoice, costed from its job card
+  app.get("/api/invoices/:id/margin", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const { getInvoiceMargin } = await import("./jobMargins");
+      const margin = await getInvoiceMargin(req.params.id);
+      if (!margin) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      res.json(margin);
+    } catch (error) {
+      console.error("Error calculating invoice margin:", error);
+      res.status(500).json({ message: "Failed to calculate invoice margin" });
+    }
+  });
+
   app.get("/api/invoices/:id/items", isAuthenticated, async (req: any, res) => {
     try {
       const userId = getAuthenticatedUserId(req);
@@ -3987,6 +5385,104 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/invoices/:id/tax", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getAuthenticatedUserId(req);
+      const currentUser = await storage.getUser(userId);
+      const invoice = await storage.getInvoice(req.params.id);
+      
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      
+      // Customers can only view tax for their own invoices
+      if (currentUser?.role === "customer" && invoice.customerId !== userId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const taxLines = await storage.getTaxCollectedByInvoice(req.params.id);
+      res.json(taxLines);
+    } catch (error) {
+      console.error("Error fetching invoice tax:", error);
+      res.status(500).json({ message: "Failed to fetch invoice tax" });
+    }
+  });
+
+  app.get("/api/invoices/:id/late-fees", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getAuthenticatedUserId(req);
+      const currentUser = await storage.getUser(userId);
+      const invoice = await storage.getInvoice(req.params.id);
+      
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      
+      // Customers can only view late fees on their own invoices
+      if (currentUser?.role === "customer" && invoice.customerId !== userId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const fees = await storage.getLateFeesByInvoice(req.params.id);
+      res.json(fees);
+    } catch (error) {
+      console.error("Error fetching invoice late fees:", error);
+      res.status(500).json({ message: "Failed to fetch invoice late fees" });
+    }
+  });
+
+  // Active payment plan for an invoice, with next due date and remaining balance
+  app.get("/api/invoices/:id/payment-plan", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getAuthenticatedUserId(req);
+      const currentUser = await storage.getUser(userId);
+      const invoice = await storage.getInvoice(req.params.id);
+      
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      
+      // Customers can only view plans on their own invoices
+      if (currentUser?.role === "customer" && invoice.customerId !== userId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const plan = await storage.getActivePaymentPlanForInvoice(req.params.id);
+      if (!plan) {
+        return res.status(404).json({ message: "No active payment plan for this invoice" });
+      }
+      
+      const summary = await storage.getPaymentPlanSummary(plan.id);
+      res.json(summary);
+    } catch (error) {
+      console.error("Error fetching invoice payment plan:", error);
+      res.status(500).json({ message: "Failed to fetch payment plan" });
+    }
+  });
+
+  app.post("/api/invoices/:id/payment-plan", isAuthenticated, requireRole(["admin", "manager", "receptionist"]), async (req: any, res) => {
+    try {
+      const parsed = createPaymentPlanRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid payment plan", errors: parsed.error.errors });
+      }
+      const { lateFeePerMissedPayment, ...input } = parsed.data;
+
+      const plan = await storage.createPaymentPlan({
+        ...input,
+        invoiceId: req.params.id,
+        lateFeePerMissedPayment: lateFeePerMissedPayment !== undefined ? lateFeePerMissedPayment.toFixed(2) : undefined,
+        createdBy: getAuthenticatedUserId(req),
+      });
+      
+      const summary = await storage.getPaymentPlanSummary(plan.id);
+      res.status(201).json(summary);
+    } catch (error: any) {
+      console.error("Error creating payment plan:", error);
+      res.status(400).json({ message: error.message || "Failed to create payment plan" });
+    }
+  });
+
   // Generate share token for invoice (staff only)
   app.post("/api/invoices/:id/share-token", isAuthenticated, requireRole(["admin", "manager", "receptionist"]), async (req: any, res) => {
     try {
@@ -4237,6 +5733,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const customer = await storage.getUser(invoice.customerId);
       if (customer) {
         const notification = pushNotificationService.createInvoiceNotification({
+          invoiceId: invoice.id,
           invoiceNumber: invoice.invoiceNumber,
           total: parseFloat(invoice.total || '0'),
         });
@@ -4337,6 +5834,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Delete a payment recorded in error; the invoice and any payment plan are recalculated
+  app.delete("/api/invoices/:invoiceId/payments/:paymentId", isAuthenticated, requireRole(["admin"]), async (req: any, res) => {
+    try {
+      const payment = await storage.getPayment(req.params.paymentId);
+      if (!payment || payment.invoiceId !== req.params.invoiceId) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+
+      await storage.deletePayment(payment.id);
+      res.json({ message: "Payment deleted" });
+    } catch (error) {
+      console.error("Error deleting payment:", error);
+      res.status(500).json({ message: "Failed to delete payment" });
+    }
+  });
+
   // Estimates
   app.get("/api/estimates", isAuthenticated, async (req: any, res) => {
     try {
@@ -4532,57 +6045,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Campaign cannot be sent in its current status" });
       }
 
-      // Get recipients based on campaign target
-      const customers = await storage.getAllCustomers();
-      
-      let sentCount = 0;
-      const errors: string[] = [];
-
-      // Send emails to all customers
-      for (const customer of customers) {
-        try {
-          if (!customer.email) continue;
-          
-          // Get customer's vehicles for personalization
-          const vehicles = await storage.getVehiclesByCustomer(customer.id);
-          const primaryVehicle = vehicles[0];
-          
-          const fullName = [customer.firstName, customer.lastName].filter(Boolean).join(' ');
-          
-          await sendCampaignEmail({
-            to: customer.email,
-            subject: campaign.subject,
-            htmlTemplate: campaign.htmlContent,
-            plainTextTemplate: campaign.plainText || undefined,
-            personalizationData: {
-              customerName: fullName || customer.email,
-              firstName: customer.firstName || 'Valued Customer',
-              lastName: customer.lastName || '',
-              email: customer.email,
-              phone: customer.phone || '',
-              accountNumber: customer.accountNumber || '',
-              vehicleMake: primaryVehicle?.make || '',
-              vehicleModel: primaryVehicle?.model || '',
-              vehicleYear: primaryVehicle?.year ? Number(primaryVehicle.year) : undefined,
-              lastVisitDate: '',
-            }
-          });
-          sentCount++;
-        } catch (error) {
-          errors.push(`Failed to send to ${customer.email}: ${error}`);
-        }
+      if (!hasCampaignTargeting(campaign)) {
+        return res.status(400).json({
+          message: "Campaign has no audience; choose recipients, a segment, tags or a filter, or set targetAllCustomers",
+        });
       }
 
-      // Update campaign with sent status and count
-      await storage.updateEmailCampaign(req.params.id, {
-        status: "sent",
-        sentCount,
-      });
+      // Queue recipients now; the dispatcher sends them in throttled batches
+      const { queueCampaign, runCampaignDispatcher } = await import("./campaignSender");
+      const result = await queueCampaign(campaign);
+      void runCampaignDispatcher();
 
       res.json({ 
         success: true, 
-        sentCount, 
-        errors: errors.length > 0 ? errors : undefined 
+        status: "sending",
+        ...result,
       });
     } catch (error) {
       console.error("Error sending campaign:", error);
@@ -4590,6 +6067,148 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Delivery progress for a campaign that is sending (recipient counts by status)
+  app.get("/api/campaigns/:id/progress", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const campaign = await storage.getEmailCampaign(req.params.id);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+
+      const counts = await storage.getCampaignRecipientCounts(campaign.id);
+      res.json({
+        status: campaign.status,
+        pending: counts.pending || 0,
+        sent: counts.sent || 0,
+        failed: counts.failed || 0,
+        cancelled: counts.cancelled || 0,
+      });
+    } catch (error) {
+      console.error("Error fetching campaign progress:", error);
+      res.status(500).json({ message: "Failed to fetch campaign progress" });
+    }
+  });
+
+  app.post("/api/campaigns/:id/pause", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const campaign = await storage.getEmailCampaign(req.params.id);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+
+      const { pauseCampaign } = await import("./campaignSender");
+      await pauseCampaign(campaign);
+      res.json({ success: true, status: "paused" });
+    } catch (error: any) {
+      console.error("Error pausing campaign:", error);
+      res.status(400).json({ message: error.message || "Failed to pause campaign" });
+    }
+  });
+
+  app.post("/api/campaigns/:id/resume", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const campaign = await storage.getEmailCampaign(req.params.id);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+
+      const { resumeCampaign, runCampaignDispatcher } = await import("./campaignSender");
+      const status = await resumeCampaign(campaign);
+      void runCampaignDispatcher();
+      res.json({ success: true, status });
+    } catch (error: any) {
+      console.error("Error resuming campaign:", error);
+      res.status(400).json({ message: error.message || "Failed to resume campaign" });
+    }
+  });
+
+  app.post("/api/campaigns/:id/cancel", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const campaign = await storage.getEmailCampaign(req.params.id);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+
+      const { cancelCampaign } = await import("./campaignSender");
+      await cancelCampaign(campaign);
+      res.json({ success: true, status: "cancelled" });
+    } catch (error: any) {
+      console.error("Error cancelling campaign:", error);
+      res.status(400).json({ message: error.message || "Failed to cancel campaign" });
+    }
+  });
+
+  // Preview the resolved audience (count and sample) without sending
+  app.get("/api/campaigns/:id/audience", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const campaign = await storage.getEmailCampaign(req.params.id);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+
+      const { previewCampaignAudience } = await import("./campaignSender");
+      const preview = await previewCampaignAudience(campaign);
+      res.json(preview);
+    } catch (error) {
+      console.error("Error previewing campaign audience:", error);
+      res.status(500).json({ message: "Failed to preview campaign audience" });
+    }
+  });
+
+  // Per-recipient delivery records
+  app.get("/api/campaigns/:id/recipients", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const { status } = req.query;
+      const recipients = await storage.getCampaignRecipients(req.params.id, status as string | undefined);
+      res.json(recipients);
+    } catch (error) {
+      console.error("Error fetching campaign recipients:", error);
+      res.status(500).json({ message: "Failed to fetch campaign recipients" });
+    }
+  });
+
+  // Unsubscribe link from campaign emails (public). Opening the link only shows a
+  // confirmation page, so mail scanners that prefetch links don't unsubscribe anyone
+  app.get("/api/campaigns/unsubscribe/:token", async (req: any, res) => {
+    try {
+      const recipient = await storage.getCampaignRecipientByUnsubscribeToken(req.params.token);
+      if (!recipient) {
+        return res.status(404).send("This unsubscribe link is invalid or has expired.");
+      }
+
+      res.send(`
+        <html>
+          <body>
+            <h1>Unsubscribe</h1>
+            <p>Stop receiving marketing emails from us?</p>
+            <form method="POST">
+              <button type="submit">Unsubscribe</button>
+            </form>
+          </body>
+        </html>
+      `);
+    } catch (error) {
+      console.error("Error loading unsubscribe page:", error);
+      res.status(500).send("Failed to load this page. Please try again later.");
+    }
+  });
+
+  // Confirms the unsubscribe page, and one-click unsubscribe from mail clients (RFC 8058 List-Unsubscribe-Post)
+  app.post("/api/campaigns/unsubscribe/:token", async (req: any, res) => {
+    try {
+      const recipient = await storage.getCampaignRecipientByUnsubscribeToken(req.params.token);
+      if (!recipient) {
+        return res.status(404).send("This unsubscribe link is invalid or has expired.");
+      }
+
+      await storage.updateUser(recipient.customerId, { marketingOptOut: true });
+      res.send("You have been unsubscribed from marketing emails.");
+    } catch (error) {
+      console.error("Error unsubscribing from campaigns:", error);
+      res.status(500).send("Failed to unsubscribe. Please try again later.");
+    }
+  });
+
   // Email Settings
   app.get("/api/email/connection", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
     try {
@@ -6507,6 +8126,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.patch("/api/tow-pricing-zones/:id", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const validated = updateTowPricingZoneSchema.parse(req.body);
+      const zone = await storage.updateTowPricingZone(req.params.id, validated);
+      if (!zone) {
+        return res.status(404).json({ message: "Tow pricing zone not found" });
+      }
+      res.json(zone);
+    } catch (error: any) {
+      console.error("Error updating tow pricing zone:", error);
+      res.status(400).json({ message: error.message || "Failed to update tow pricing zone" });
+    }
+  });
+
   // TOW REQUESTS ROUTES
   app.get("/api/tow-requests", isAuthenticated, async (req: any, res) => {
     try {
@@ -6543,6 +8176,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Quote a tow before creating the request
+  app.post("/api/tow-requests/quote", isAuthenticated, async (req: any, res) => {
+    try {
+      const { quoteTow } = await import("./towQuote");
+      const input = towQuoteRequestSchema.parse(req.body);
+      const quote = await quoteTow(input);
+      res.json(quote);
+    } catch (error: any) {
+      console.error("Error quoting tow:", error);
+      res.status(400).json({ message: error.message || "Failed to quote tow" });
+    }
+  });
+
   app.get("/api/tow-requests/:id", isAuthenticated, async (req: any, res) => {
     try {
       const request = await storage.getTowRequest(req.params.id);
@@ -6561,98 +8207,187 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = getAuthenticatedUserId(req);
       const requestNumber = await storage.generateTowRequestNumber();
 
-      const data = {
-        ...req.body,
-        customerId: req.body.customerId || userId,
-        requestNumber,
-        requestedAt: new Date(),
-      };
+      // Pricing always comes from the quote, never from the client
+      const {
+        pricingZoneId: _pricingZoneId,
+        estimatedDistance: _estimatedDistance,
+        basePrice: _basePrice,
+        distanceCharge: _distanceCharge,
+        surcharges: _surcharges,
+        totalPrice: _totalPrice,
+        ...body
+      } = req.body;
+
+      const data: Record<string, any> = {
+        ...body,
+        customerId: body.customerId || userId,
+        requestNumber,
+        requestedAt: new Date(),
+      };
+
+      if (data.pickupLatitude != null && data.pickupLongitude != null) {
+        try {
+          const { quoteTow } = await import("./towQuote");
+          const quote = await quoteTow(towQuoteRequestSchema.parse(data));
+          Object.assign(data, {
+            pricingZoneId: quote.zoneId,
+            estimatedDistance: quote.distanceMiles.toFixed(2),
+            basePrice: quote.basePrice.toFixed(2),
+            distanceCharge: quote.distanceCharge.toFixed(2),
+            surcharges: quote.surcharges.total.toFixed(2),
+            totalPrice: quote.totalPrice.toFixed(2),
+          });
+        } catch (quoteError: any) {
+          // Staff can still price the request manually
+          console.warn("Could not quote tow request:", quoteError.message);
+        }
+      }
+
+      const validated = createTowRequestSchema.parse(data);
+      const request = await storage.createTowRequest({ ...validated, status: "pending" });
+      await storage.createTowRequestStatusHistory({
+        towRequestId: request.id,
+        toStatus: request.status,
+        changedBy: userId,
+        actorType: request.customerId === userId ? "customer" : "staff",
+      });
+      res.status(201).json(request);
+    } catch (error: any) {
+      console.error("Error creating tow request:", error);
+      res.status(400).json({ message: error.message || "Failed to create tow request" });
+    }
+  });
+
+  app.patch("/api/tow-requests/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const { getTowActor, transitionTowRequest, TowTransitionError } = await import("./towStatus");
+      const userId = getAuthenticatedUserId(req);
+      const user = await storage.getUser(userId);
+      let request = await storage.getTowRequest(req.params.id);
+      if (!request) {
+        return res.status(404).json({ message: "Tow request not found" });
+      }
+
+      const actor = user ? await getTowActor(user, request) : null;
+      if (!actor) {
+        return res.status(403).json({ message: "Not authorized to update this tow request" });
+      }
+
+      // Status timestamps are stamped by the state machine, never taken from the client
+      const { status, statusNotes, dispatchedAt, arrivedAt, completedAt, ...fields } = req.body;
+      const data = {
+        ...fields,
+        estimatedArrival: fields.estimatedArrival ? new Date(fields.estimatedArrival) : undefined,
+      };
+      const validated = updateTowRequestSchema.omit({ status: true }).parse(data);
+
+      if (Object.values(validated).some(value => value !== undefined) && actor.type !== "staff") {
+        return res.status(403).json({ message: "Only staff can edit tow request details" });
+      }
+
+      try {
+        if (status && status !== request.status) {
+          request = await transitionTowRequest(request, status, actor, { notes: statusNotes, updates: validated });
+        } else {
+          request = await storage.updateTowRequest(req.params.id, validated);
+        }
+      } catch (error) {
+        if (error instanceof TowTransitionError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
+      }
+
+      res.json(request);
+    } catch (error: any) {
+      console.error("Error updating tow request:", error);
+      res.status(400).json({ message: error.message || "Failed to update tow request" });
+    }
+  });
+
+  // Status timeline of a tow request
+  app.get("/api/tow-requests/:id/history", isAuthenticated, async (req: any, res) => {
+    try {
+      const { getTowActor, getAllowedTransitions } = await import("./towStatus");
+      const userId = getAuthenticatedUserId(req);
+      const user = await storage.getUser(userId);
+      const request = await storage.getTowRequest(req.params.id);
+      if (!request) {
+        return res.status(404).json({ message: "Tow request not found" });
+      }
+
+      const actor = user ? await getTowActor(user, request) : null;
+      if (!actor) {
+        return res.status(403).json({ message: "Not authorized to view this tow request" });
+      }
 
-      const validated = insertTowRequestSchema.parse(data);
-      const request = await storage.createTowRequest(validated);
-      res.status(201).json(request);
-    } catch (error: any) {
-      console.error("Error creating tow request:", error);
-      res.status(400).json({ message: error.message || "Failed to create tow request" });
+      const history = await storage.getTowRequestStatusHistory(request.id);
+      res.json({
+        status: request.status,
+        allowedTransitions: getAllowedTransitions(request.status, actor.type),
+        history,
+      });
+    } catch (error) {
+      console.error("Error fetching tow request history:", error);
+      res.status(500).json({ message: "Failed to fetch tow request history" });
     }
   });
 
-  app.patch("/api/tow-requests/:id", isAuthenticated, async (req: any, res) => {
+  // Rank drivers/trucks (or third-party wreckers) for a tow request
+  app.get("/api/tow-requests/:id/dispatch-recommendations", isAuthenticated, requireRole(["admin", "manager", "receptionist"]), async (req: any, res) => {
     try {
-      // Get original request to check status change
-      const originalRequest = await storage.getTowRequest(req.params.id);
-      
-      const data = {
-        ...req.body,
-        dispatchedAt: req.body.dispatchedAt ? new Date(req.body.dispatchedAt) : undefined,
-        arrivedAt: req.body.arrivedAt ? new Date(req.body.arrivedAt) : undefined,
-        completedAt: req.body.completedAt ? new Date(req.body.completedAt) : undefined,
-        estimatedArrival: req.body.estimatedArrival ? new Date(req.body.estimatedArrival) : undefined,
-      };
-
-      const validated = updateTowRequestSchema.parse(data);
-      const request = await storage.updateTowRequest(req.params.id, validated);
+      const request = await storage.getTowRequest(req.params.id);
       if (!request) {
         return res.status(404).json({ message: "Tow request not found" });
       }
-      
-      // Send push notification on status change
-      if (validated.status && originalRequest && validated.status !== originalRequest.status) {
-        const customer = await storage.getUser(request.customerId);
-        if (customer) {
-          if (validated.status === 'en_route') {
-            const notification = pushNotificationService.createTowRequestNotification('en_route', {});
-            pushNotificationService.sendToUser(customer, notification).catch(err => {
-              console.error('Failed to send tow en_route notification:', err);
-            });
-          }
-        }
-      }
-      
-      res.json(request);
-    } catch (error: any) {
-      console.error("Error updating tow request:", error);
-      res.status(400).json({ message: error.message || "Failed to update tow request" });
+
+      const { getDispatchRecommendation } = await import("./towDispatch");
+      const recommendation = await getDispatchRecommendation(request);
+      res.json(recommendation);
+    } catch (error) {
+      console.error("Error building tow dispatch recommendation:", error);
+      res.status(500).json({ message: "Failed to build dispatch recommendation" });
     }
   });
 
   // Assign driver to tow request
   app.post("/api/tow-requests/:id/assign", isAuthenticated, requireRole(["admin", "manager", "receptionist"]), async (req: any, res) => {
     try {
-      const { assignedDriverId, assignedTruckId, wreckerType } = req.body;
+      const { transitionTowRequest, TowTransitionError } = await import("./towStatus");
+      const { assignedDriverId, assignedTruckId, thirdPartyWreckerId, wreckerType } = req.body;
+      const request = await storage.getTowRequest(req.params.id);
+
+      if (!request) {
+        return res.status(404).json({ message: "Tow request not found" });
+      }
 
-      const request = await storage.updateTowRequest(req.params.id, {
+      const assignment = {
         assignedDriverId,
         assignedTruckId,
-        wreckerType: wreckerType || "company_owned",
-        status: "dispatched",
-        dispatchedAt: new Date(),
-      });
+        thirdPartyWreckerId,
+        wreckerType: wreckerType || (thirdPartyWreckerId ? "third_party" : "company_owned"),
+      };
 
-      if (!request) {
-        return res.status(404).json({ message: "Tow request not found" });
+      // Reassigning an already dispatched request doesn't change its status
+      if (request.status === "dispatched") {
+        const updated = await storage.updateTowRequest(request.id, assignment);
+        return res.json(updated);
       }
 
-      // Send push notification to customer
-      const customer = await storage.getUser(request.customerId);
-      if (customer && assignedDriverId) {
-        const driver = await storage.getWreckerDriver(assignedDriverId);
-        const driverUser = driver ? await storage.getUser(driver.userId) : null;
-        const driverName = driverUser
-          ? `${driverUser.firstName || ''} ${driverUser.lastName || ''}`.trim() || driverUser.phone || undefined
-          : undefined;
-        const notification = pushNotificationService.createTowRequestNotification(
-          'assigned',
-          {
-            driverName,
-          }
+      try {
+        const updated = await transitionTowRequest(
+          request,
+          "dispatched",
+          { type: "staff", userId: getAuthenticatedUserId(req) },
+          { updates: assignment }
         );
-        pushNotificationService.sendToUser(customer, notification).catch(err => {
-          console.error('Failed to send tow assignment notification:', err);
-        });
+        res.json(updated);
+      } catch (error) {
+        if (error instanceof TowTransitionError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
       }
-
-      res.json(request);
     } catch (error: any) {
       console.error("Error assigning driver to tow request:", error);
       res.status(400).json({ message: error.message || "Failed to assign driver" });
@@ -6662,57 +8397,89 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Complete tow and optionally create job card
   app.post("/api/tow-requests/:id/complete", isAuthenticated, requireRole(["admin", "manager", "receptionist"]), async (req: any, res) => {
     try {
-      const { createJobCard, actualDistance, totalPrice } = req.body;
+      const { transitionTowRequest, TowTransitionError } = await import("./towStatus");
+      const { createJobCard, actualDistance, totalPrice, customPriceAdjustment, priceNotes } = req.body;
       const request = await storage.getTowRequest(req.params.id);
 
       if (!request) {
         return res.status(404).json({ message: "Tow request not found" });
       }
 
-      let jobCardId = null;
+      // Quoted tows keep their price components; a final totalPrice becomes the adjustment
+      const quotedPrice = [request.basePrice, request.distanceCharge, request.surcharges]
+        .reduce((sum, amount) => sum + parseFloat(amount || "0"), 0);
+      let adjustment = customPriceAdjustment !== undefined
+        ? parseFloat(customPriceAdjustment)
+        : parseFloat(request.customPriceAdjustment || "0");
+      if (totalPrice !== undefined && quotedPrice > 0) {
+        adjustment = parseFloat(totalPrice) - quotedPrice;
+      }
+      const finalPrice = quotedPrice > 0
+        ? (quotedPrice + adjustment).toFixed(2)
+        : totalPrice !== undefined ? parseFloat(totalPrice).toFixed(2) : request.totalPrice;
+
+      // Completing also invoices the customer (and bills third-party wreckers)
+      let updatedRequest;
+      try {
+        updatedRequest = await transitionTowRequest(
+          request,
+          "completed",
+          { type: "staff", userId: getAuthenticatedUserId(req) },
+          {
+            updates: {
+              actualDistance: actualDistance !== undefined ? String(actualDistance) : undefined,
+              customPriceAdjustment: adjustment.toFixed(2),
+              priceNotes: priceNotes ?? request.priceNotes,
+              totalPrice: finalPrice,
+            },
+          }
+        );
+      } catch (error) {
+        if (error instanceof TowTransitionError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
+      }
 
-      // Create job card if requested and vehicle brought to shop
-      if (createJobCard && request.vehicleId) {
+      // Create job card if requested and vehicle brought to shop, once the tow is completed
+      if (createJobCard && updatedRequest.vehicleId && !updatedRequest.jobCardId) {
         const jobCard = await storage.createJobCard({
-          customerId: request.customerId,
-          vehicleId: request.vehicleId,
-          description: `Vehicle towed from ${request.pickupLocation}. ${request.problemDescription || ''}`,
+          customerId: updatedRequest.customerId,
+          vehicleId: updatedRequest.vehicleId,
+          description: `Vehicle towed from ${updatedRequest.pickupLocation}. ${updatedRequest.problemDescription || ''}`,
           scheduledDate: new Date(),
           status: "scheduled",
           laborHours: "0",
           laborRate: "0",
           totalCost: "0",
         });
-        jobCardId = jobCard.id;
+        updatedRequest = await storage.updateTowRequest(updatedRequest.id, { jobCardId: jobCard.id }) ?? updatedRequest;
       }
 
-      const updatedRequest = await storage.updateTowRequest(req.params.id, {
-        status: "completed",
-        completedAt: new Date(),
-        actualDistance,
-        totalPrice,
-        jobCardId,
-      });
-      if (!updatedRequest) {
+      res.json(updatedRequest);
+    } catch (error: any) {
+      console.error("Error completing tow request:", error);
+      res.status(400).json({ message: error.message || "Failed to complete tow request" });
+    }
+  });
+
+  // Retry invoicing a completed tow (and billing its third-party wrecker) after a failure
+  app.post("/api/tow-requests/:id/bill", isAuthenticated, requireRole(["admin", "manager"]), async (req: any, res) => {
+    try {
+      const request = await storage.getTowRequest(req.params.id);
+      if (!request) {
         return res.status(404).json({ message: "Tow request not found" });
       }
-
-      // Send push notification to customer
-      const customer = await storage.getUser(updatedRequest.customerId);
-      if (customer) {
-        const notification = pushNotificationService.createTowRequestNotification(
-          'completed',
-          {}
-        );
-        pushNotificationService.sendToUser(customer, notification).catch(err => {
-          console.error('Failed to send tow completion notification:', err);
-        });
+      if (request.status !== "completed") {
+        return res.status(400).json({ message: "Only completed tow requests can be billed" });
       }
 
-      res.json(updatedRequest);
+      const { billCompletedTow } = await import("./towBilling");
+      const billed = await billCompletedTow(request, getAuthenticatedUserId(req));
+      res.json(billed);
     } catch (error: any) {
-      console.error("Error completing tow request:", error);
-      res.status(400).json({ message: error.message || "Failed to complete tow request" });
+      console.error("Error billing tow request:", error);
+      res.status(400).json({ message: error.message || "Failed to bill tow request" });
     }
   });
 
@@ -6737,6 +8504,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Compact live view for the customer app: position, ETA and breadcrumb polyline
+  app.get("/api/tow-requests/:id/tracking/live", isAuthenticated, async (req: any, res) => {
+    try {
+      const { getTowActor } = await import("./towStatus");
+      const { getTrackingPayload } = await import("./towTracking");
+      const user = await storage.getUser(getAuthenticatedUserId(req));
+      const request = await storage.getTowRequest(req.params.id);
+      if (!request) {
+        return res.status(404).json({ message: "Tow request not found" });
+      }
+      if (!user || !(await getTowActor(user, request))) {
+        return res.status(403).json({ message: "Not authorized to track this tow request" });
+      }
+
+      const payload = await getTrackingPayload(request);
+      res.json(payload);
+    } catch (error) {
+      console.error("Error fetching live tracking:", error);
+      res.status(500).json({ message: "Failed to fetch live tracking" });
+    }
+  });
+
   app.post("/api/tow-requests/:id/tracking", isAuthenticated, async (req: any, res) => {
     try {
       const userId = getAuthenticatedUserId(req);
@@ -6746,6 +8535,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Not authorized as a driver" });
       }
 
+      const request = await storage.getTowRequest(req.params.id);
+      if (!request) {
+        return res.status(404).json({ message: "Tow request not found" });
+      }
+      if (request.assignedDriverId !== driver.id) {
+        return res.status(403).json({ message: "Not the assigned driver for this tow request" });
+      }
+
       const validated = insertTowRequestLocationSchema.parse({
         ...req.body,
         towRequestId: req.params.id,
@@ -6759,7 +8556,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         currentLocation: `${req.body.latitude},${req.body.longitude}`,
       });
 
-      res.status(201).json(location);
+      // Refresh the ETA and apply pickup/drop-off geofences
+      const { processLocationUpdate } = await import("./towTracking");
+      const { request: updatedRequest, eta } = await processLocationUpdate(request);
+
+      publish(`tow:${request.id}`, "tow.location", {
+        towRequestId: request.id,
+        latitude: location.latitude,
+        longitude: location.longitude,
+        heading: location.heading,
+        speed: location.speed,
+        timestamp: location.timestamp,
+        eta,
+      });
+
+      res.status(201).json({ ...location, requestStatus: updatedRequest.status, eta });
     } catch (error: any) {
       console.error("Error creating location update:", error);
       res.status(400).json({ message: error.message || "Failed to create location update" });
@@ -6802,6 +8613,269 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Start a conversation; it joins the queue and is routed to an agent right away if one has room
+  app.post("/api/chat/conversations", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getAuthenticatedUserId(req);
+      const { sessionId, message } = req.body;
+
+      const conversation = await storage.createChatConversation({
+        sessionId: typeof sessionId === "string" && sessionId ? sessionId : `user-${userId}`,
+        customerId: userId,
+        status: "active",
+        queuedAt: new Date(),
+      });
+
+      let queued = conversation;
+      if (typeof message === "string" && message.trim()) {
+        const user = await storage.getUser(userId);
+        await storage.createChatMessage({
+          conversationId: conversation.id,
+          senderId: userId,
+          senderType: "customer",
+          senderName: user ? `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email || undefined : undefined,
+          message: message.trim(),
+        });
+
+        const { handleAfterHoursMessage } = await import("./chatAfterHours");
+        queued = (await handleAfterHoursMessage(conversation, message.trim())).conversation;
+      }
+
+      const { routeConversation } = await import("./chatRouter");
+      const assigned = await routeConversation(queued);
+      res.status(201).json(assigned ?? queued);
+    } catch (error: any) {
+      console.error("Error creating conversation:", error);
+      res.status(500).json({ message: "Failed to create conversation" });
+    }
+  });
+
+  // Anonymous website chat: the first message (POST /api/chat/sessions) starts a session with a
+  // server-issued id, which identifies the visitor's conversation from then on.
+  // Contact details are optional; after hours they are captured as a lead.
+  const anonymousChatLimit = rateLimit({ windowMs: 60 * 1000, max: 10, message: "Too many chat messages, please wait a moment" });
+  app.post(["/api/chat/sessions", "/api/chat/sessions/:sessionId/messages"], anonymousChatLimit, async (req, res) => {
+    try {
+      const parsed = anonymousChatMessageSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid chat message", errors: parsed.error.errors });
+      }
+      const { message, name, email, phone } = parsed.data;
+
+      let sessionId = req.params.sessionId;
+      let existing;
+      if (sessionId) {
+        const conversations = await storage.getChatConversationsBySession(sessionId);
+        if (conversations.length === 0) {
+          return res.status(404).json({ message: "Chat session not found" });
+        }
+        // Once the visitor signs in, the conversation continues on the authenticated endpoints
+        existing = conversations.find(conversation => conversation.status === "active");
+        if (existing?.customerId) {
+          return res.status(403).json({ message: "Sign in to continue this conversation" });
+        }
+      } else {
+        const crypto = await import("crypto");
+        sessionId = crypto.randomBytes(24).toString("base64url");
+      }
+
+      const isNew = !existing;
+      const conversation = existing ?? await storage.createChatConversation({
+        sessionId,
+        status: "active",
+        queuedAt: new Date(),
+      });
+
+      const chatMessage = await storage.createChatMessage({
+        conversationId: conversation.id,
+        senderId: sessionId,
+        senderType: "customer",
+        senderName: name || "Visitor",
+        message,
+      });
+      await storage.updateChatConversation(conversation.id, { lastMessageAt: chatMessage.createdAt });
+      publish(`chat:${conversation.id}`, "chat.message", chatMessage);
+
+      const { handleAfterHoursMessage } = await import("./chatAfterHours");
+      const afterHours = await handleAfterHoursMessage(conversation, chatMessage.message, { name, email, phone });
+      if (isNew) {
+        const { routeConversation } = await import("./chatRouter");
+        await routeConversation(afterHours.conversation);
+      }
+
+      res.status(201).json({
+        sessionId,
+        conversationId: conversation.id,
+        message: chatMessage,
+        autoReply: afterHours.systemMessage ?? null,
+        nextOpening: afterHours.nextOpening ?? null,
+        contactSaved: !!(afterHours.lead || afterHours.conversation.leadId),
+      });
+    } catch (error: any) {
+      console.error("Error sending anonymous chat message:", error);
+      res.status(500).json({ message: "Failed to send message" });
+    }
+  });
+
+  // Anonymous visitors poll their conversation for replies
+  app.get("/api/chat/sessions/:sessionId/messages", async (req, res) => {
+    try {
+      const [conversation] = await storage.getChatConversationsBySession(req.params.sessionId);
+      if (!conversation || conversation.customerId) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      const messages = await storage.getChatMessages(conversation.id);
+      res.json({
+        conversation: { id: conversation.id, status: conversation.status, queuedAt: conversation.queuedAt },
+        messages,
+      });
+    } catch (error: any) {
+      console.error("Error fetching anonymous chat messages:", error);
+      res.status(500).json({ message: "Failed to fetch messages" });
+    }
+  });
+
+  // Close a conversation; the agent's slot goes to the next queued chat
+  app.post("/api/chat/conversations/:id/close", isAuthenticated, requireRole(["admin", "manager", "mechanic", "receptionist"]), async (req, res) => {
+    try {
+      const conversation = await storage.getChatConversation(req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      if (conversation.status !== "active") {
+        return res.status(400).json({ message: "Conversation is already closed" });
+      }
+
+      const userId = getAuthenticatedUserId(req);
+      const { dispositionCode, dispositionNotes } = req.body;
+      const closed = await storage.updateChatConversation(conversation.id, {
+        status: "resolved",
+        closedAt: new Date(),
+        closedBy: userId,
+        dispositionCode: dispositionCode ?? null,
+        dispositionNotes: dispositionNotes ?? null,
+      });
+      await storage.calculateConversationMetrics(conversation.id);
+
+      if (conversation.assignedStaffId) {
+        await storage.decrementAgentChatCount(conversation.assignedStaffId);
+        const { routeQueuedConversations } = await import("./chatRouter");
+        routeQueuedConversations().catch(err => {
+          console.error("Failed to route queued chats:", err);
+        });
+      }
+
+      res.json(closed);
+    } catch (error: any) {
+      console.error("Error closing conversation:", error);
+      res.status(500).json({ message: "Failed to close conversation" });
+    }
+  });
+
+  // Send a message in a conversation (pushed to chat:<id> subscribers)
+  app.post("/api/chat/conversations/:id/messages", isAuthenticated, async (req, res) => {
+    try {
+      const conversation = await storage.getChatConversation(req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      const userId = getAuthenticatedUserId(req);
+      const user = await storage.getUser(userId);
+      if (!user || (user.role === "customer" && conversation.customerId !== userId)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const { message, attachments, attachmentMetadata, replyToMessageId } = req.body;
+      if (!message || typeof message !== "string" || !message.trim()) {
+        return res.status(400).json({ message: "Message is required" });
+      }
+
+      const senderType = user.role === "customer" ? "customer" : "staff";
+      const chatMessage = await storage.createChatMessage({
+        conversationId: conversation.id,
+        senderId: userId,
+        senderType,
+        senderName: `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email || undefined,
+        message: message.trim(),
+        attachments,
+        attachmentMetadata,
+        replyToMessageId,
+      });
+      await storage.updateChatConversation(conversation.id, { lastMessageAt: chatMessage.createdAt });
+      if (senderType === "staff") {
+        await storage.updateConversationFirstResponse(conversation.id);
+      }
+
+      publish(`chat:${conversation.id}`, "chat.message", chatMessage);
+
+      // Outside chat hours the customer gets the closed message right after their own
+      if (senderType === "customer") {
+        const { handleAfterHoursMessage } = await import("./chatAfterHours");
+        await handleAfterHoursMessage(conversation, chatMessage.message);
+      }
+      res.status(201).json(chatMessage);
+    } catch (error: any) {
+      console.error("Error sending chat message:", error);
+      res.status(500).json({ message: "Failed to send message" });
+    }
+  });
+
+  // Typing indicator (not stored)
+  app.post("/api/chat/conversations/:id/typing", isAuthenticated, async (req, res) => {
+    try {
+      const conversation = await storage.getChatConversation(req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      const userId = getAuthenticatedUserId(req);
+      const user = await storage.getUser(userId);
+      if (!user || (user.role === "customer" && conversation.customerId !== userId)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      publish(`chat:${conversation.id}`, "chat.typing", {
+        conversationId: conversation.id,
+        userId,
+        senderType: user.role === "customer" ? "customer" : "staff",
+        isTyping: req.body.isTyping !== false,
+      });
+      res.status(204).end();
+    } catch (error: any) {
+      console.error("Error sending typing indicator:", error);
+      res.status(500).json({ message: "Failed to send typing indicator" });
+    }
+  });
+
+  // Read receipt: marks the other side's messages as read
+  app.post("/api/chat/conversations/:id/read", isAuthenticated, async (req, res) => {
+    try {
+      const conversation = await storage.getChatConversation(req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      const userId = getAuthenticatedUserId(req);
+      const user = await storage.getUser(userId);
+      if (!user || (user.role === "customer" && conversation.customerId !== userId)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const readerType = user.role === "customer" ? "customer" : "staff";
+      const messageIds = await storage.markConversationMessagesRead(conversation.id, readerType);
+      const receipt = { conversationId: conversation.id, readerId: userId, readerType, messageIds, readAt: new Date() };
+      if (messageIds.length > 0) {
+        publish(`chat:${conversation.id}`, "chat.read", receipt);
+      }
+      res.json(receipt);
+    } catch (error: any) {
+      console.error("Error marking messages as read:", error);
+      res.status(500).json({ message: "Failed to mark messages as read" });
+    }
+  });
+
   app.get("/api/chat/quick-responses", isAuthenticated, requireRole(["admin", "manager", "mechanic", "receptionist"]), async (req, res) => {
     try {
       const responses = await storage.getChatQuickResponses();
@@ -6984,6 +9058,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...updates,
         statusChangedBy: userId,
       });
+
+      // An agent coming online (or raising their limit) can take waiting chats
+      if (status.status === "available") {
+        const { routeQueuedConversations } = await import("./chatRouter");
+        routeQueuedConversations().catch(err => {
+          console.error("Failed to route queued chats:", err);
+        });
+      }
       res.json(status);
     } catch (error: any) {
       console.error("Error updating agent status:", error);
@@ -7016,6 +9098,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const updates = req.body;
       const settings = await storage.updateChatRoutingSettings(updates);
+
+      const { routeQueuedConversations } = await import("./chatRouter");
+      routeQueuedConversations().catch(err => {
+        console.error("Failed to route queued chats:", err);
+      });
       res.json(settings);
     } catch (error: any) {
       console.error("Error updating routing settings:", error);
@@ -7596,6 +9683,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get the customers currently matching a segment (also refreshes its cached count)
+  app.get("/api/customer-segments/:id/members", isAuthenticated, requireRole(["admin", "manager", "receptionist"]), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const segment = await storage.getCustomerSegmentById(id);
+
+      if (!segment) {
+        return res.status(404).json({ message: "Segment not found" });
+      }
+
+      const members = await storage.evaluateSegmentFilter(segment.filterConfig);
+      await storage.updateSegmentCustomerCount(segment.id, members.length);
+
+      res.json(members);
+    } catch (error: any) {
+      console.error("Error evaluating customer segment:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Segment has an invalid filter", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch segment members" });
+    }
+  });
+
+  // Count the customers an unsaved filter would match
+  app.post("/api/customer-segments/preview", isAuthenticated, requireRole(["admin", "manager", "receptionist"]), async (req, res) => {
+    try {
+      const { filterConfig } = req.body;
+      if (!filterConfig) {
+        return res.status(400).json({ message: "filterConfig is required" });
+      }
+
+      const customerCount = await storage.countSegmentFilterMatches(filterConfig);
+      res.json({ customerCount });
+    } catch (error: any) {
+      console.error("Error previewing customer segment:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid segment filter", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to preview segment" });
+    }
+  });
+
   // Create a customer segment
   app.post("/api/customer-segments", isAuthenticated, requireRole(["admin", "manager", "receptionist"]), async (req, res) => {
     try {
@@ -7605,9 +9734,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       };
 
       const validated = insertCustomerSegmentSchema.parse(data);
+      if (isSegmentFilter(validated.filterConfig)) {
+        segmentFilterSchema.parse(validated.filterConfig);
+      }
       const segment = await storage.createCustomerSegment(validated);
 
-      res.status(201).json(segment);
+      // Populate the cached count straight away
+      const customerCount = await storage.countSegmentFilterMatches(segment.filterConfig);
+      await storage.updateSegmentCustomerCount(segment.id, customerCount);
+
+      res.status(201).json({ ...segment, customerCount });
     } catch (error: any) {
       console.error("Error creating customer segment:", error);
       if (error.name === "ZodError") {
@@ -7622,6 +9758,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { id } = req.params;
       const validated = updateCustomerSegmentSchema.parse(req.body);
+      if (validated.filterConfig !== undefined && isSegmentFilter(validated.filterConfig)) {
+        segmentFilterSchema.parse(validated.filterConfig);
+      }
 
       const updated = await storage.updateCustomerSegment(id, validated);
 
@@ -7629,6 +9768,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Segment not found" });
       }
 
+      if (validated.filterConfig !== undefined) {
+        const customerCount = await storage.countSegmentFilterMatches(updated.filterConfig);
+        await storage.updateSegmentCustomerCount(updated.id, customerCount);
+        return res.json({ ...updated, customerCount });
+      }
+
       res.json(updated);
     } catch (error: any) {
       console.error("Error updating customer segment:", error);
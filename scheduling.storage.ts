@@ -0,0 +1,130 @@
+/**
+ * Scheduling Storage Module
+ * Handles the shop's schedulable resources:
+ * - Service bays (lifts/bays)
+ * - Weekly mechanic shifts
+ * - Mechanic time off
+ * - The per-day lock that serializes bookings
+ */
+
+import {
+  db,
+  eq,
+  and,
+  asc,
+  lt,
+  gt,
+  sql,
+  serviceBays,
+  mechanicShifts,
+  mechanicTimeOff,
+  type ServiceBay,
+  type InsertServiceBay,
+  type MechanicShift,
+  type MechanicShiftInput,
+  type MechanicTimeOff,
+  type InsertMechanicTimeOff,
+} from "./base";
+
+// ==================== SERVICE BAYS ====================
+
+export async function getServiceBays(includeInactive: boolean = false): Promise<ServiceBay[]> {
+  return await db
+    .select()
+    .from(serviceBays)
+    .where(includeInactive ? undefined : eq(serviceBays.isActive, true))
+    .orderBy(asc(serviceBays.displayOrder), asc(serviceBays.name));
+}
+
+export async function getServiceBay(id: string): Promise<ServiceBay | undefined> {
+  const result = await db.select().from(serviceBays).where(eq(serviceBays.id, id)).limit(1);
+  return result[0];
+}
+
+export async function createServiceBay(bay: InsertServiceBay): Promise<ServiceBay> {
+  const result = await db.insert(serviceBays).values(bay).returning();
+  return result[0];
+}
+
+export async function updateServiceBay(id: string, bay: Partial<InsertServiceBay>): Promise<ServiceBay | undefined> {
+  const result = await db
+    .update(serviceBays)
+    .set({ ...bay, updatedAt: new Date() })
+    .where(eq(serviceBays.id, id))
+    .returning();
+  return result[0];
+}
+
+// ==================== MECHANIC SHIFTS ====================
+
+export async function getMechanicShifts(mechanicId?: string): Promise<MechanicShift[]> {
+  return await db
+    .select()
+    .from(mechanicShifts)
+    .where(mechanicId ? eq(mechanicShifts.mechanicId, mechanicId) : undefined)
+    .orderBy(asc(mechanicShifts.mechanicId), asc(mechanicShifts.dayOfWeek));
+}
+
+/**
+ * Replace a mechanic's weekly shifts (days not listed become days off)
+ */
+export async function setMechanicShifts(mechanicId: string, shifts: MechanicShiftInput[]): Promise<MechanicShift[]> {
+  return await db.transaction(async (tx) => {
+    await tx.delete(mechanicShifts).where(eq(mechanicShifts.mechanicId, mechanicId));
+    if (shifts.length === 0) {
+      return [];
+    }
+    return await tx
+      .insert(mechanicShifts)
+      .values(shifts.map(shift => ({ ...shift, mechanicId })))
+      .returning();
+  });
+}
+
+// ==================== MECHANIC TIME OFF ====================
+
+/**
+ * Get time off overlapping [from, to), for one mechanic or everyone
+ */
+export async function getMechanicTimeOff(options: { mechanicId?: string; from?: Date; to?: Date } = {}): Promise<MechanicTimeOff[]> {
+  const conditions = [];
+  if (options.mechanicId) {
+    conditions.push(eq(mechanicTimeOff.mechanicId, options.mechanicId));
+  }
+  if (options.from) {
+    conditions.push(gt(mechanicTimeOff.endDate, options.from));
+  }
+  if (options.to) {
+    conditions.push(lt(mechanicTimeOff.startDate, options.to));
+  }
+
+  return await db
+    .select()
+    .from(mechanicTimeOff)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(asc(mechanicTimeOff.startDate));
+}
+
+export async function createMechanicTimeOff(timeOff: InsertMechanicTimeOff): Promise<MechanicTimeOff> {
+  const result = await db.insert(mechanicTimeOff).values(timeOff).returning();
+  return result[0];
+}
+
+export async function deleteMechanicTimeOff(id: string): Promise<boolean> {
+  const result = await db.delete(mechanicTimeOff).where(eq(mechanicTimeOff.id, id)).returning({ id: mechanicTimeOff.id });
+  return result.length > 0;
+}
+
+// ==================== BOOKING LOCK ====================
+
+/**
+ * Run fn holding a transaction-scoped advisory lock on a shop day (YYYY-MM-DD)
+ * Bookings check capacity and write inside fn; their writes commit before the lock is
+ * released, so the next booking for the day checks against them
+ */
+export async function lockShopDay<T>(date: string, fn: () => Promise<T>): Promise<T> {
+  return await db.transaction(async (tx) => {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`shop_day:${date}`}))`);
+    return await fn();
+  });
+}
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, decimal, boolean, pgEnum, jsonb, index } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, decimal, boolean, pgEnum, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -60,6 +60,7 @@ export const users = pgTable("users", {
   ccEmail: text("cc_email"),
   permissions: text("permissions").array().default(sql`ARRAY[]::text[]`),
   reviewRequestsEnabled: boolean("review_requests_enabled").default(true),
+  marketingOptOut: boolean("marketing_opt_out").default(false).notNull(), // Unsubscribed from marketing campaigns
   isActive: boolean("is_active").default(true).notNull(),
   pushToken: text("push_token"),
 
@@ -69,6 +70,7 @@ export const users = pgTable("users", {
   // Accounting fields
   paymentTerms: text("payment_terms").default("Net 30"), // Net 30, Net 60, Due on Receipt, etc.
   creditLimit: decimal("credit_limit", { precision: 10, scale: 2 }), // Maximum outstanding balance
+  laborCostRate: decimal("labor_cost_rate", { precision: 10, scale: 2 }), // Hourly cost of a staff member's time (pricing default if null)
 
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -288,12 +290,54 @@ export const serviceCatalog = pgTable("service_catalog", {
   index("idx_service_catalog_display_order").on(table.displayOrder),
 ]);
 
+// Service Bays table - Lifts and bays that limit how many vehicles can be worked on at once
+export const serviceBays = pgTable("service_bays", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(), // e.g., "Bay 1", "Alignment Rack"
+  bayType: text("bay_type").notNull().default("general"), // general, lift, alignment, diagnostic
+  isActive: boolean("is_active").notNull().default(true),
+  displayOrder: integer("display_order").notNull().default(0),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_service_bays_active").on(table.isActive),
+]);
+
+// Mechanic Shifts table - Weekly working hours per mechanic
+// Times are wall-clock "HH:MM" in the appointment settings timezone
+export const mechanicShifts = pgTable("mechanic_shifts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  mechanicId: varchar("mechanic_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  dayOfWeek: integer("day_of_week").notNull(), // 0 = Sunday ... 6 = Saturday
+  startTime: text("start_time").notNull(), // "08:00"
+  endTime: text("end_time").notNull(), // "17:00"
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_mechanic_shifts_mechanic_day").on(table.mechanicId, table.dayOfWeek),
+]);
+
+// Mechanic Time Off table - Leave, sick days and other blocks when a mechanic is unavailable
+export const mechanicTimeOff = pgTable("mechanic_time_off", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  mechanicId: varchar("mechanic_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date").notNull(),
+  reason: text("reason"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_mechanic_time_off_mechanic_start").on(table.mechanicId, table.startDate),
+]);
+
 // Appointments table
 export const appointments = pgTable("appointments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   customerId: varchar("customer_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   vehicleId: varchar("vehicle_id").notNull().references(() => vehicles.id, { onDelete: "cascade" }),
   scheduledDate: timestamp("scheduled_date").notNull(),
+  scheduledEndDate: timestamp("scheduled_end_date"), // End of the booked window (derived from service durations if not set)
+  bayId: varchar("bay_id").references(() => serviceBays.id, { onDelete: "set null" }),
   status: appointmentStatusEnum("status").notNull().default("scheduled"),
   appointmentType: appointmentTypeEnum("appointment_type").notNull().default("in_shop"),
   services: text("services").array().notNull().default(sql`ARRAY[]::text[]`), // Array of service names
@@ -320,6 +364,8 @@ export const jobCards = pgTable("job_cards", {
   appointmentId: varchar("appointment_id").references(() => appointments.id, { onDelete: "set null" }),
   status: jobCardStatusEnum("status").notNull().default("scheduled"),
   scheduledDate: timestamp("scheduled_date").notNull(),
+  scheduledEndDate: timestamp("scheduled_end_date"), // End of the scheduled work window
+  bayId: varchar("bay_id").references(() => serviceBays.id, { onDelete: "set null" }),
   description: text("description").notNull(),
   laborHours: decimal("labor_hours", { precision: 5, scale: 2 }).default("0"),
   laborRate: decimal("labor_rate", { precision: 10, scale: 2 }).default("0"),
@@ -346,8 +392,11 @@ export const partsInventory = pgTable("parts_inventory", {
   barcode: text("barcode").unique(),
   quantity: integer("quantity").notNull().default(0),
   purchasePrice: decimal("purchase_price", { precision: 10, scale: 2 }).notNull(),
+  averageCost: decimal("average_cost", { precision: 10, scale: 2 }), // Weighted-average cost of stock on hand (purchase price until the first movement)
   salePrice: decimal("sale_price", { precision: 10, scale: 2 }).notNull(),
   lowStockThreshold: integer("low_stock_threshold").notNull().default(10),
+  preferredVendorId: varchar("preferred_vendor_id").references(() => vendors.id, { onDelete: "set null" }), // Who reorders go to
+  leadTimeDays: integer("lead_time_days").notNull().default(7), // Days from ordering to delivery
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => [
   index("idx_parts_barcode").on(table.barcode),
@@ -366,6 +415,62 @@ export const jobCardParts = pgTable("job_card_parts", {
   index("idx_job_card_parts_part_id").on(table.partId),
 ]);
 
+// Stock Movements table - append-only ledger of every change to partsInventory.quantity
+export const stockMovementTypeEnum = pgEnum("stock_movement_type", ["receipt", "job_consumption", "return", "adjustment", "write_off"]);
+
+export const stockMovements = pgTable("stock_movements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  partId: varchar("part_id").notNull().references(() => partsInventory.id, { onDelete: "restrict" }),
+  type: stockMovementTypeEnum("type").notNull(),
+  quantityChange: integer("quantity_change").notNull(), // Positive adds stock, negative removes it
+  quantityAfter: integer("quantity_after").notNull(), // Stock level right after this movement
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }).notNull(),
+  averageCostAfter: decimal("average_cost_after", { precision: 10, scale: 2 }), // Part's average cost right after this movement
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }), // Null for system movements
+  sourceType: text("source_type"), // job_card, manual, ...
+  sourceId: varchar("source_id"), // ID of the source document (e.g. job card)
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_stock_movements_part_created").on(table.partId, table.createdAt),
+  index("idx_stock_movements_source").on(table.sourceType, table.sourceId),
+]);
+
+// COGS Entries table - cost of parts consumed on (or returned from) job cards, at average cost
+export const cogsEntries = pgTable("cogs_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  movementId: varchar("movement_id").notNull().references(() => stockMovements.id, { onDelete: "cascade" }),
+  partId: varchar("part_id").notNull().references(() => partsInventory.id, { onDelete: "restrict" }),
+  jobCardId: varchar("job_card_id").references(() => jobCards.id, { onDelete: "set null" }),
+  quantity: integer("quantity").notNull(), // Positive for consumption, negative for returns
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // quantity * unitCost
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_cogs_entries_job_card_id").on(table.jobCardId),
+  index("idx_cogs_entries_created_at").on(table.createdAt),
+]);
+
+// Part Reservations table - soft holds on stock for a job card or estimate (not deducted from quantity)
+export const partReservationStatusEnum = pgEnum("part_reservation_status", ["active", "consumed", "released", "expired"]);
+
+export const partReservations = pgTable("part_reservations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  partId: varchar("part_id").notNull().references(() => partsInventory.id, { onDelete: "cascade" }),
+  quantity: integer("quantity").notNull(), // Still held; reduced as parts are attached to the job card
+  jobCardId: varchar("job_card_id").references(() => jobCards.id, { onDelete: "cascade" }),
+  estimateId: varchar("estimate_id").references(() => estimates.id, { onDelete: "cascade" }),
+  status: partReservationStatusEnum("status").notNull().default("active"),
+  expiresAt: timestamp("expires_at"), // Estimate reservations lapse with the estimate
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  closedAt: timestamp("closed_at"), // When it was consumed, released or expired
+}, (table) => [
+  index("idx_part_reservations_part_status").on(table.partId, table.status),
+  index("idx_part_reservations_job_card_id").on(table.jobCardId),
+  index("idx_part_reservations_estimate_id").on(table.estimateId),
+]);
+
 // Job Card Tasks table
 export const jobCardTasks = pgTable("job_card_tasks", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -412,18 +517,39 @@ export const emailCampaigns = pgTable("email_campaigns", {
   htmlContent: text("html_content").notNull(), // Rich HTML content
   plainText: text("plain_text"), // Plain text fallback
   recipientFilter: jsonb("recipient_filter"), // Filter criteria: {customerType, minSpent, maxSpent, etc}
-  recipientIds: text("recipient_ids").array().notNull(),
-  status: text("status").notNull().default("draft"), // draft, scheduled, sending, sent, failed
+  recipientIds: text("recipient_ids").array().notNull(), // Explicit recipient list (overrides segment/tags/filter when set)
+  segmentId: varchar("segment_id").references(() => customerSegments.id, { onDelete: "set null" }), // Target a saved customer segment
+  tagIds: text("tag_ids").array().default(sql`ARRAY[]::text[]`), // Target customers with any of these tags
+  targetAllCustomers: boolean("target_all_customers").notNull().default(false), // Send to every active customer; required when no recipients, segment, tags or filter are set
+  status: text("status").notNull().default("draft"), // draft, scheduled, sending, paused, cancelled, sent, failed
   scheduledFor: timestamp("scheduled_for"), // When to send (null = send immediately)
   sentBy: varchar("sent_by").notNull().references(() => users.id, { onDelete: "cascade" }),
   sentAt: timestamp("sent_at"),
   sentCount: integer("sent_count").default(0),
+  failedCount: integer("failed_count").default(0),
   openCount: integer("open_count").default(0),
   clickCount: integer("click_count").default(0),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Campaign Recipients table - Per-recipient delivery record for email campaigns
+export const campaignRecipients = pgTable("campaign_recipients", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  campaignId: varchar("campaign_id").notNull().references(() => emailCampaigns.id, { onDelete: "cascade" }),
+  customerId: varchar("customer_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  email: text("email").notNull(),
+  status: text("status").notNull().default("pending"), // pending, sent, failed, cancelled
+  messageId: text("message_id"), // Email provider message ID
+  errorMessage: text("error_message"),
+  unsubscribeToken: text("unsubscribe_token").notNull().unique(), // Used in the unsubscribe link
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_campaign_recipients_campaign_customer").on(table.campaignId, table.customerId),
+  index("idx_campaign_recipients_status").on(table.status),
+]);
+
 // Coupons table
 export const coupons = pgTable("coupons", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -538,9 +664,11 @@ export const pricingSettings = pgTable("pricing_settings", {
   currencySymbol: text("currency_symbol").notNull().default("$"), // Currency symbol for display
   // Pricing
   defaultLaborRate: decimal("default_labor_rate", { precision: 10, scale: 2 }).default("75.00"), // Default hourly labor rate
+  defaultLaborCostRate: decimal("default_labor_cost_rate", { precision: 10, scale: 2 }).default("0.00"), // Hourly cost of mechanic time, for job margins
   partsMarkupPercent: decimal("parts_markup_percent", { precision: 5, scale: 2 }).default("30.00"), // Default parts markup %
   taxRate: decimal("tax_rate", { precision: 5, scale: 2 }).default("8.00"), // Sales tax rate %
   taxName: text("tax_name").default("Sales Tax"), // Tax label (e.g., "GCT", "VAT", "Sales Tax")
+  taxJurisdictions: text("tax_jurisdictions").array().default(sql`ARRAY[]::text[]`), // Jurisdictions whose tax rates the shop charges (see taxRates.jurisdiction)
   shopSuppliesPercent: decimal("shop_supplies_percent", { precision: 5, scale: 2 }).default("5.00"), // Shop supplies fee %
   // Labor rate tiers
   diagnosticRate: decimal("diagnostic_rate", { precision: 10, scale: 2 }).default("95.00"), // Diagnostic hourly rate
@@ -977,6 +1105,18 @@ export const insertVehicleDocumentReminderHistorySchema = createInsertSchema(veh
 export const insertServiceCatalogSchema = createInsertSchema(serviceCatalog).omit({ id: true, createdAt: true, updatedAt: true });
 export const updateServiceCatalogSchema = createInsertSchema(serviceCatalog).omit({ id: true, createdAt: true, updatedAt: true }).partial();
 
+// Service Bay and Mechanic Schedule schemas
+export const insertServiceBaySchema = createInsertSchema(serviceBays).omit({ id: true, createdAt: true, updatedAt: true });
+export const updateServiceBaySchema = createInsertSchema(serviceBays).omit({ id: true, createdAt: true, updatedAt: true }).partial();
+const shiftTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be HH:MM");
+export const mechanicShiftInputSchema = z.object({
+  dayOfWeek: z.number().int().min(0).max(6),
+  startTime: shiftTimeSchema,
+  endTime: shiftTimeSchema,
+}).refine(shift => shift.startTime < shift.endTime, { message: "Shift must end after it starts" });
+export const insertMechanicTimeOffSchema = createInsertSchema(mechanicTimeOff).omit({ id: true, createdAt: true })
+  .refine(timeOff => timeOff.startDate < timeOff.endDate, { message: "Time off must end after it starts" });
+
 // Staff can update all fields including make and customerId
 export const staffUpdateVehicleSchema = z.object({
   make: z.string().optional(),
@@ -991,18 +1131,27 @@ export const staffUpdateVehicleSchema = z.object({
 export const insertAppointmentSchema = createInsertSchema(appointments).omit({ id: true, createdAt: true });
 export const insertJobCardSchema = createInsertSchema(jobCards).omit({ id: true, createdAt: true, completedAt: true });
 export const insertJobCardTaskSchema = createInsertSchema(jobCardTasks).omit({ id: true, createdAt: true, completedAt: true, completedBy: true });
-export const insertPartSchema = createInsertSchema(partsInventory).omit({ id: true, createdAt: true });
+export const insertPartSchema = createInsertSchema(partsInventory).omit({ id: true, averageCost: true, createdAt: true });
+export const insertStockMovementSchema = createInsertSchema(stockMovements).omit({ id: true, quantityAfter: true, averageCostAfter: true, createdAt: true });
+export const insertPartReservationSchema = createInsertSchema(partReservations)
+  .omit({ id: true, status: true, expiresAt: true, createdBy: true, createdAt: true, closedAt: true })
+  .extend({ quantity: z.number().int().positive() });
 
 // Update schemas (field-whitelisted)
 export const updateAppointmentSchema = z.object({
   status: z.enum(["scheduled", "confirmed", "in_progress", "completed", "cancelled"]).optional(),
   notes: z.string().optional(),
   scheduledDate: z.date().optional(),
+  scheduledEndDate: z.date().optional().nullable(),
+  bayId: z.string().optional().nullable(),
 });
 
 export const updateJobCardSchema = z.object({
   status: z.enum(["scheduled", "in_progress", "awaiting_parts", "completed", "cancelled"]).optional(),
   mechanicId: z.string().optional().nullable(),
+  bayId: z.string().optional().nullable(),
+  scheduledDate: z.date().optional(),
+  scheduledEndDate: z.date().optional().nullable(),
   description: z.string().optional(),
   laborHours: z.string().optional(),
   laborRate: z.string().optional(),
@@ -1021,6 +1170,8 @@ export const updatePartSchema = z.object({
   purchasePrice: z.string().optional(),
   salePrice: z.string().optional(),
   lowStockThreshold: z.number().int().optional(),
+  preferredVendorId: z.string().optional().nullable(),
+  leadTimeDays: z.number().int().nonnegative().optional(),
 });
 
 export const updateApprovalSchema = z.object({
@@ -1038,6 +1189,7 @@ export const insertApprovalRequestSchema = createInsertSchema(approvalRequests).
 export const insertCustomerNoteSchema = createInsertSchema(customerNotes).omit({ id: true, createdAt: true });
 export const insertEmailCampaignSchema = createInsertSchema(emailCampaigns).omit({ id: true, createdAt: true, updatedAt: true, sentAt: true });
 export const updateEmailCampaignSchema = createInsertSchema(emailCampaigns).omit({ id: true, createdAt: true, updatedAt: true }).partial();
+export const insertCampaignRecipientSchema = createInsertSchema(campaignRecipients).omit({ id: true, createdAt: true });
 export const insertCouponSchema = createInsertSchema(coupons).omit({ id: true, createdAt: true, usedBy: true, usedAt: true, appliedToInvoice: true });
 export const insertLoyaltyPointsTransactionSchema = createInsertSchema(loyaltyPointsTransactions).omit({ id: true, createdAt: true });
 export const insertLoyaltySettingsSchema = createInsertSchema(loyaltySettings).omit({ updatedAt: true });
@@ -1103,6 +1255,13 @@ export type VehicleDocumentReminderHistory = typeof vehicleDocumentReminderHisto
 export type InsertServiceCatalog = z.infer<typeof insertServiceCatalogSchema>;
 export type ServiceCatalog = typeof serviceCatalog.$inferSelect;
 
+export type InsertServiceBay = z.infer<typeof insertServiceBaySchema>;
+export type ServiceBay = typeof serviceBays.$inferSelect;
+export type MechanicShiftInput = z.infer<typeof mechanicShiftInputSchema>;
+export type MechanicShift = typeof mechanicShifts.$inferSelect;
+export type InsertMechanicTimeOff = z.infer<typeof insertMechanicTimeOffSchema>;
+export type MechanicTimeOff = typeof mechanicTimeOff.$inferSelect;
+
 export type InsertAppointment = z.infer<typeof insertAppointmentSchema>;
 export type Appointment = typeof appointments.$inferSelect;
 
@@ -1118,6 +1277,13 @@ export type Part = typeof partsInventory.$inferSelect;
 export type InsertJobCardPart = z.infer<typeof insertJobCardPartSchema>;
 export type JobCardPart = typeof jobCardParts.$inferSelect;
 
+export type InsertStockMovement = z.infer<typeof insertStockMovementSchema>;
+export type StockMovement = typeof stockMovements.$inferSelect;
+export type CogsEntry = typeof cogsEntries.$inferSelect;
+
+export type InsertPartReservation = z.infer<typeof insertPartReservationSchema>;
+export type PartReservation = typeof partReservations.$inferSelect;
+
 export type InsertApprovalRequest = z.infer<typeof insertApprovalRequestSchema>;
 export type ApprovalRequest = typeof approvalRequests.$inferSelect;
 
@@ -1127,6 +1293,9 @@ export type CustomerNote = typeof customerNotes.$inferSelect;
 export type InsertEmailCampaign = z.infer<typeof insertEmailCampaignSchema>;
 export type EmailCampaign = typeof emailCampaigns.$inferSelect;
 
+export type InsertCampaignRecipient = z.infer<typeof insertCampaignRecipientSchema>;
+export type CampaignRecipient = typeof campaignRecipients.$inferSelect;
+
 export type InsertJobCardTimerSession = z.infer<typeof insertJobCardTimerSessionSchema>;
 export type JobCardTimerSession = typeof jobCardTimerSessions.$inferSelect;
 
@@ -1331,6 +1500,7 @@ export const thirdPartyWreckers = pgTable("third_party_wreckers", {
   perMileRate: decimal("per_mile_rate", { precision: 10, scale: 2 }).notNull(),
   isPreferred: boolean("is_preferred").default(false),
   isActive: boolean("is_active").default(true),
+  vendorId: varchar("vendor_id").references(() => vendors.id, { onDelete: "set null" }), // AP vendor billed for completed tows
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
@@ -1345,7 +1515,10 @@ export const towPricingZones = pgTable("tow_pricing_zones", {
   perMileRate: decimal("per_mile_rate", { precision: 10, scale: 2 }).notNull(),
   afterHoursSurcharge: decimal("after_hours_surcharge", { precision: 10, scale: 2 }).default("0"), // 6pm-6am surcharge
   weekendSurcharge: decimal("weekend_surcharge", { precision: 10, scale: 2 }).default("0"),
+  emergencySurcharge: decimal("emergency_surcharge", { precision: 10, scale: 2 }).default("0"), // Applied to "emergency" urgency
   vehicleSizeMultipliers: jsonb("vehicle_size_multipliers").default(sql`'{"small": 1.0, "medium": 1.5, "large": 2.0, "oversized": 3.0}'::jsonb`),
+  boundary: jsonb("boundary"), // GeoJSON Polygon/MultiPolygon covering pickups priced by this zone; null = fallback zone
+  priority: integer("priority").notNull().default(0), // Higher wins when zone boundaries overlap
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -1396,6 +1569,7 @@ export const towRequests = pgTable("tow_requests", {
   estimatedArrival: timestamp("estimated_arrival"),
 
   // Pricing
+  pricingZoneId: varchar("pricing_zone_id").references(() => towPricingZones.id, { onDelete: "set null" }), // Zone used for the quote
   estimatedDistance: decimal("estimated_distance", { precision: 10, scale: 2 }), // Miles
   actualDistance: decimal("actual_distance", { precision: 10, scale: 2 }),
   basePrice: decimal("base_price", { precision: 10, scale: 2 }),
@@ -1408,6 +1582,7 @@ export const towRequests = pgTable("tow_requests", {
   // Integration
   jobCardId: varchar("job_card_id").references(() => jobCards.id, { onDelete: "set null" }), // Created when tow completes
   invoiceId: varchar("invoice_id").references(() => invoices.id, { onDelete: "set null" }),
+  vendorBillId: varchar("vendor_bill_id").references(() => vendorBills.id, { onDelete: "set null" }), // Payable to the third-party wrecker
 
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -1426,6 +1601,20 @@ export const towRequestLocations = pgTable("tow_request_locations", {
   timestamp: timestamp("timestamp").notNull().defaultNow(),
 });
 
+// Tow Request Status History table - Timeline of status transitions
+export const towRequestStatusHistory = pgTable("tow_request_status_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  towRequestId: varchar("tow_request_id").notNull().references(() => towRequests.id, { onDelete: "cascade" }),
+  fromStatus: towRequestStatusEnum("from_status"), // null for the initial "pending" entry
+  toStatus: towRequestStatusEnum("to_status").notNull(),
+  changedBy: varchar("changed_by").references(() => users.id, { onDelete: "set null" }),
+  actorType: text("actor_type").notNull(), // staff, driver, customer, system
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_tow_request_status_history_request").on(table.towRequestId),
+]);
+
 // Tow Request Number Sequence table
 export const towRequestSequence = pgTable("tow_request_sequence", {
   year: integer("year").primaryKey(),
@@ -1468,6 +1657,7 @@ export const chatConversations = pgTable("chat_conversations", {
   closedBy: varchar("closed_by").references(() => users.id, { onDelete: "set null" }), // Who closed it
   tags: text("tags").array().default(sql`ARRAY[]::text[]`), // billing, technical, complaint, etc.
   assignmentMethod: text("assignment_method"), // How it was assigned: auto_round_robin, auto_least_busy, manual, etc.
+  leadId: varchar("lead_id").references(() => leads.id, { onDelete: "set null" }), // Lead captured from an anonymous after-hours chat
 });
 
 // Chat Messages table
@@ -1550,11 +1740,46 @@ export const insertThirdPartyWreckerSchema = createInsertSchema(thirdPartyWrecke
 export const updateThirdPartyWreckerSchema = createInsertSchema(thirdPartyWreckers).omit({ id: true, createdAt: true }).partial();
 
 // Tow Pricing Zone schemas
-export const insertTowPricingZoneSchema = createInsertSchema(towPricingZones).omit({ id: true, createdAt: true, updatedAt: true });
-export const updateTowPricingZoneSchema = createInsertSchema(towPricingZones).omit({ id: true, createdAt: true, updatedAt: true }).partial();
+// GeoJSON positions are [longitude, latitude]
+const geoJsonRingSchema = z.array(z.tuple([z.number(), z.number()])).min(4);
+export const towZoneBoundarySchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("Polygon"), coordinates: z.array(geoJsonRingSchema).min(1) }),
+  z.object({ type: z.literal("MultiPolygon"), coordinates: z.array(z.array(geoJsonRingSchema).min(1)).min(1) }),
+]);
+export const insertTowPricingZoneSchema = createInsertSchema(towPricingZones).omit({ id: true, createdAt: true, updatedAt: true })
+  .extend({ boundary: towZoneBoundarySchema.nullable().optional() });
+export const updateTowPricingZoneSchema = createInsertSchema(towPricingZones).omit({ id: true, createdAt: true, updatedAt: true })
+  .extend({ boundary: towZoneBoundarySchema.nullable().optional() })
+  .partial();
+
+// Tow quote request - coordinates of the pickup (and dropoff for tows)
+export const towQuoteRequestSchema = z.object({
+  pickupLatitude: z.coerce.number().min(-90).max(90),
+  pickupLongitude: z.coerce.number().min(-180).max(180),
+  dropoffLatitude: z.coerce.number().min(-90).max(90).optional().nullable(),
+  dropoffLongitude: z.coerce.number().min(-180).max(180).optional().nullable(),
+  vehicleSize: z.enum(["small", "medium", "large", "oversized"]).default("medium"),
+  urgency: z.enum(["emergency", "normal", "scheduled"]).default("normal"),
+  requestedAt: z.coerce.date().optional(),
+});
 
 // Tow Request schemas
 export const insertTowRequestSchema = createInsertSchema(towRequests).omit({ id: true, createdAt: true, updatedAt: true });
+// New requests start pending; status, timing, assignment and billing only change through the status workflow
+export const createTowRequestSchema = insertTowRequestSchema.omit({
+  status: true,
+  dispatchedAt: true,
+  arrivedAt: true,
+  completedAt: true,
+  estimatedArrival: true,
+  wreckerType: true,
+  assignedDriverId: true,
+  assignedTruckId: true,
+  thirdPartyWreckerId: true,
+  jobCardId: true,
+  invoiceId: true,
+  vendorBillId: true,
+});
 export const updateTowRequestSchema = z.object({
   status: z.enum(["pending", "dispatched", "en_route", "arrived", "towing", "completed", "cancelled"]).optional(),
   assignedDriverId: z.string().optional().nullable(),
@@ -1576,6 +1801,9 @@ export const updateTowRequestSchema = z.object({
 // Tow Request Location schemas
 export const insertTowRequestLocationSchema = createInsertSchema(towRequestLocations).omit({ id: true });
 
+// Tow Request Status History schemas
+export const insertTowRequestStatusHistorySchema = createInsertSchema(towRequestStatusHistory).omit({ id: true, createdAt: true });
+
 // Chat schemas
 export const insertChatConversationSchema = createInsertSchema(chatConversations).omit({ id: true, createdAt: true, lastMessageAt: true });
 export const updateChatConversationSchema = createInsertSchema(chatConversations).omit({ id: true, createdAt: true }).partial();
@@ -1583,6 +1811,14 @@ export const updateChatConversationSchema = createInsertSchema(chatConversations
 export const insertChatMessageSchema = createInsertSchema(chatMessages).omit({ id: true, createdAt: true });
 export const updateChatMessageSchema = createInsertSchema(chatMessages).omit({ id: true, createdAt: true }).partial();
 
+// Website chat message from a visitor who isn't signed in (contact details are optional)
+export const anonymousChatMessageSchema = z.object({
+  message: z.string().trim().min(1, "Message is required").max(2000),
+  name: z.string().trim().max(100).optional(),
+  email: z.string().trim().email().max(254).optional(),
+  phone: z.string().trim().regex(/^\+?[0-9 ().-]{7,20}$/, "Invalid phone number").optional(),
+});
+
 export const insertChatAssignmentSchema = createInsertSchema(chatAssignments).omit({ id: true, assignedAt: true });
 export const updateChatAssignmentSchema = createInsertSchema(chatAssignments).omit({ id: true, assignedAt: true }).partial();
 
@@ -1610,6 +1846,8 @@ export type ThirdPartyWrecker = typeof thirdPartyWreckers.$inferSelect;
 
 export type InsertTowPricingZone = z.infer<typeof insertTowPricingZoneSchema>;
 export type TowPricingZone = typeof towPricingZones.$inferSelect;
+export type TowZoneBoundary = z.infer<typeof towZoneBoundarySchema>;
+export type TowQuoteRequest = z.infer<typeof towQuoteRequestSchema>;
 
 export type InsertTowRequest = z.infer<typeof insertTowRequestSchema>;
 export type TowRequest = typeof towRequests.$inferSelect;
@@ -1617,6 +1855,9 @@ export type TowRequest = typeof towRequests.$inferSelect;
 export type InsertTowRequestLocation = z.infer<typeof insertTowRequestLocationSchema>;
 export type TowRequestLocation = typeof towRequestLocations.$inferSelect;
 
+export type InsertTowRequestStatusHistory = z.infer<typeof insertTowRequestStatusHistorySchema>;
+export type TowRequestStatusHistory = typeof towRequestStatusHistory.$inferSelect;
+
 export type InsertChatConversation = z.infer<typeof insertChatConversationSchema>;
 export type ChatConversation = typeof chatConversations.$inferSelect;
 
@@ -2081,6 +2322,56 @@ export const vendorBillLineItems = pgTable("vendor_bill_line_items", {
   index("idx_vendor_bill_line_items_bill_id").on(table.billId),
 ]);
 
+// Purchase Orders table - Parts ordered from vendors; receiving adds stock, a received PO becomes a vendor bill
+export const purchaseOrderStatusEnum = pgEnum("purchase_order_status", ["draft", "sent", "partially_received", "received", "closed"]); // closed = short-closed, nothing more expected
+
+export const purchaseOrders = pgTable("purchase_orders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  poNumber: text("po_number").unique().notNull(), // PO-YYYY-####
+  vendorId: varchar("vendor_id").notNull().references(() => vendors.id, { onDelete: "cascade" }),
+  status: purchaseOrderStatusEnum("status").notNull().default("draft"),
+
+  // Amounts (sum of line totals)
+  total: decimal("total", { precision: 10, scale: 2 }).notNull().default("0"),
+
+  // Dates
+  expectedDate: timestamp("expected_date"), // When the vendor is expected to deliver
+  sentAt: timestamp("sent_at"),
+  receivedAt: timestamp("received_at"), // When the last line was fully received
+
+  notes: text("notes"),
+  vendorBillId: varchar("vendor_bill_id").references(() => vendorBills.id, { onDelete: "set null" }), // Bill created on receipt
+
+  createdBy: varchar("created_by").notNull().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_purchase_orders_vendor_id").on(table.vendorId),
+  index("idx_purchase_orders_status").on(table.status),
+]);
+
+// Purchase Order Number Sequence table (for atomic counter)
+export const purchaseOrderNumberSequence = pgTable("purchase_order_number_sequence", {
+  year: integer("year").primaryKey(),
+  lastNumber: integer("last_number").notNull().default(0),
+});
+
+// Purchase Order Lines table
+export const purchaseOrderLines = pgTable("purchase_order_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  purchaseOrderId: varchar("purchase_order_id").notNull().references(() => purchaseOrders.id, { onDelete: "cascade" }),
+  partId: varchar("part_id").notNull().references(() => partsInventory.id, { onDelete: "restrict" }),
+  description: text("description").notNull(),
+  quantityOrdered: integer("quantity_ordered").notNull(),
+  quantityReceived: integer("quantity_received").notNull().default(0),
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }).notNull(),
+  total: decimal("total", { precision: 10, scale: 2 }).notNull(), // quantityOrdered * unitCost
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_purchase_order_lines_po_id").on(table.purchaseOrderId),
+  index("idx_purchase_order_lines_part_id").on(table.partId),
+]);
+
 // Vendor Payments table - Payments made to vendors
 export const vendorPayments = pgTable("vendor_payments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -2343,9 +2634,10 @@ export const lateFees = pgTable("late_fees", {
   // Timing
   daysOverdue: integer("days_overdue").notNull(),
   appliedDate: timestamp("applied_date").defaultNow().notNull(),
+  assessmentPeriod: integer("assessment_period"), // Overdue period the fee was assessed for (0 = first); null for fees charged outside the late fee job
 
   // Status
-  status: text("status").notNull().default("applied"), // applied, waived, paid
+  status: text("status").notNull().default("applied"), // applied, waived, void, paid
   waivedBy: varchar("waived_by").references(() => users.id, { onDelete: "set null" }),
   waivedAt: timestamp("waived_at"),
   waivedReason: text("waived_reason"),
@@ -2356,8 +2648,15 @@ export const lateFees = pgTable("late_fees", {
   index("idx_late_fees_invoice_id").on(table.invoiceId),
   index("idx_late_fees_customer_id").on(table.customerId),
   index("idx_late_fees_status").on(table.status),
+  uniqueIndex("idx_late_fees_invoice_period").on(table.invoiceId, table.assessmentPeriod),
 ]);
 
+// Scheduled Job Runs - When each background job last ran, so the scheduler can catch up after a restart
+export const scheduledJobRuns = pgTable("scheduled_job_runs", {
+  name: varchar("name").primaryKey(), // Job name as registered with the scheduler (e.g., late-fees)
+  lastRunAt: timestamp("last_run_at").notNull(),
+});
+
 // ========================================
 // PAYMENT PLANS
 // ========================================
@@ -2388,6 +2687,8 @@ export const paymentPlans = pgTable("payment_plans", {
   // Terms
   downPayment: decimal("down_payment", { precision: 10, scale: 2 }).default("0"),
   lateFeePerMissedPayment: decimal("late_fee_per_missed_payment", { precision: 10, scale: 2 }),
+  missedAfterDays: integer("missed_after_days").default(15).notNull(), // Days past due before a late installment counts as missed
+  maxMissedPayments: integer("max_missed_payments").default(2).notNull(), // Missed installments before the plan is defaulted
   notes: text("notes"),
 
   createdBy: varchar("created_by").notNull().references(() => users.id, { onDelete: "set null" }),
@@ -2414,6 +2715,7 @@ export const paymentPlanInstallments = pgTable("payment_plan_installments", {
   paymentId: varchar("payment_id").references(() => payments.id, { onDelete: "set null" }),
 
   lateFee: decimal("late_fee", { precision: 10, scale: 2 }).default("0"),
+  lateFeeId: varchar("late_fee_id").references(() => lateFees.id, { onDelete: "set null" }), // Fee charged on the invoice for a missed installment
   notes: text("notes"),
 
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -2437,6 +2739,7 @@ export const taxRates = pgTable("tax_rates", {
 
   rate: decimal("rate", { precision: 5, scale: 4 }).notNull(), // e.g., 0.15 for 15%
   isCompound: boolean("is_compound").default(false).notNull(), // Tax on tax
+  appliesTo: text("applies_to").array().notNull().default(sql`ARRAY['parts', 'labour']::text[]`), // Line item types this rate is charged on
 
   isActive: boolean("is_active").default(true).notNull(),
   effectiveDate: timestamp("effective_date").notNull(),
@@ -2569,7 +2872,7 @@ export const paymentRemindersLog = pgTable("payment_reminders_log", {
   emailBody: text("email_body").notNull(),
 
   // Status
-  status: text("status").notNull().default("sent"), // sent, failed
+  status: text("status").notNull().default("sent"), // pending (being sent), sent, failed
   errorMessage: text("error_message"),
 
   sentAt: timestamp("sent_at").defaultNow().notNull(),
@@ -2578,6 +2881,7 @@ export const paymentRemindersLog = pgTable("payment_reminders_log", {
   index("idx_payment_reminders_log_invoice_id").on(table.invoiceId),
   index("idx_payment_reminders_log_customer_id").on(table.customerId),
   index("idx_payment_reminders_log_reminder_type").on(table.reminderType),
+  uniqueIndex("idx_payment_reminders_log_invoice_stage").on(table.invoiceId, table.reminderType),
 ]);
 
 // ========================================
@@ -2631,9 +2935,10 @@ export const notificationHistory = pgTable("notification_history", {
   body: text("body").notNull(),
   data: jsonb("data"),
   channelId: text("channel_id"),
-  status: text("status").notNull(), // "sent", "failed"
+  status: text("status").notNull(), // "sent" (awaiting receipt), "delivered", "failed"
   errorMessage: text("error_message"),
   expoTicketId: text("expo_ticket_id"),
+  pushToken: text("push_token"), // Device token the notification was sent to
   sentAt: timestamp("sent_at").defaultNow().notNull(),
 }, (table) => [
   index("idx_notification_history_user_id").on(table.userId),
@@ -2657,6 +2962,17 @@ export const badgeCounts = pgTable("badge_counts", {
   index("idx_badge_counts_user_id").on(table.userId),
 ]);
 
+// Badge Items table - The records behind each user's badge counts, until seen
+export const badgeItems = pgTable("badge_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  category: text("category").notNull(), // appointments, jobCards, invoices, towRequests, approvals, lowStock
+  recordId: varchar("record_id").notNull(), // Appointment, job card, invoice, tow request, approval request or part id
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_badge_items_user_category_record").on(table.userId, table.category, table.recordId),
+]);
+
 // Promotional Banners table - Marketing banners/videos for customer portal
 export const promotionalBanners = pgTable("promotional_banners", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -2760,10 +3076,25 @@ export const updateLateFeeSchema = createInsertSchema(lateFees).omit({ id: true,
 export type InsertLateFee = z.infer<typeof insertLateFeeSchema>;
 export type LateFee = typeof lateFees.$inferSelect;
 
+export type ScheduledJobRun = typeof scheduledJobRuns.$inferSelect;
+
 // Payment Plans schemas
 export const insertPaymentPlanSchema = createInsertSchema(paymentPlans).omit({ id: true, createdAt: true, updatedAt: true });
 export const updatePaymentPlanSchema = createInsertSchema(paymentPlans).omit({ id: true, createdAt: true, updatedAt: true }).partial();
 
+// Request body for setting up a plan on an invoice; numbers may arrive as strings from form posts
+export const createPaymentPlanRequestSchema = z.object({
+  numberOfInstallments: z.coerce.number().int().min(1),
+  frequency: z.enum(["weekly", "biweekly", "monthly"]),
+  startDate: z.coerce.date(),
+  downPayment: z.coerce.number().min(0).optional(),
+  planName: z.string().optional(),
+  lateFeePerMissedPayment: z.coerce.number().min(0).optional(),
+  missedAfterDays: z.coerce.number().int().min(0).optional(),
+  maxMissedPayments: z.coerce.number().int().min(1).optional(),
+  notes: z.string().optional(),
+});
+
 export type InsertPaymentPlan = z.infer<typeof insertPaymentPlanSchema>;
 export type PaymentPlan = typeof paymentPlans.$inferSelect;
 
@@ -2836,6 +3167,36 @@ export const insertVendorBillLineItemSchema = createInsertSchema(vendorBillLineI
 export type InsertVendorBillLineItem = z.infer<typeof insertVendorBillLineItemSchema>;
 export type VendorBillLineItem = typeof vendorBillLineItems.$inferSelect;
 
+// Purchase Order schemas
+export const purchaseOrderLineInputSchema = z.object({
+  partId: z.string(),
+  description: z.string().optional(),
+  quantityOrdered: z.number().int().positive(),
+  unitCost: z.coerce.number().nonnegative(),
+});
+
+export const insertPurchaseOrderSchema = z.object({
+  vendorId: z.string(),
+  expectedDate: z.coerce.date().optional().nullable(),
+  notes: z.string().optional().nullable(),
+  lines: z.array(purchaseOrderLineInputSchema).min(1),
+});
+export const updatePurchaseOrderSchema = insertPurchaseOrderSchema.omit({ vendorId: true }).partial();
+
+export const receivePurchaseOrderSchema = z.object({
+  lines: z.array(z.object({
+    lineId: z.string(),
+    quantity: z.number().int().positive(),
+  })).min(1),
+  vendorInvoiceNumber: z.string().optional(),
+});
+
+export type PurchaseOrderLineInput = z.infer<typeof purchaseOrderLineInputSchema>;
+export type InsertPurchaseOrder = z.infer<typeof insertPurchaseOrderSchema>;
+export type PurchaseOrderReceipt = z.infer<typeof receivePurchaseOrderSchema>["lines"];
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+export type PurchaseOrderLine = typeof purchaseOrderLines.$inferSelect;
+
 // Vendor Payment schemas
 export const insertVendorPaymentSchema = createInsertSchema(vendorPayments).omit({ id: true, createdAt: true });
 
@@ -3025,6 +3386,32 @@ export const updateCustomerSegmentSchema = createInsertSchema(customerSegments).
 export type InsertCustomerSegment = z.infer<typeof insertCustomerSegmentSchema>;
 export type CustomerSegment = typeof customerSegments.$inferSelect;
 
+// Segment filter language - stored in customerSegments.filterConfig
+const segmentNumericOp = z.enum(["eq", "gt", "gte", "lt", "lte"]);
+
+export const segmentFilterConditionSchema = z.discriminatedUnion("field", [
+  z.object({ field: z.literal("lifetimeSpend"), op: segmentNumericOp, value: z.number() }), // Total of paid invoices
+  z.object({ field: z.literal("outstandingBalance"), op: segmentNumericOp, value: z.number() }),
+  z.object({ field: z.literal("loyaltyPoints"), op: segmentNumericOp, value: z.number() }),
+  z.object({
+    field: z.literal("lastVisitDate"),
+    op: z.enum(["before", "after", "withinDays", "notWithinDays"]),
+    value: z.union([z.string().datetime({ offset: true }), z.string().date(), z.number().int().positive()]), // Date for before/after, days for withinDays/notWithinDays
+  }),
+  z.object({ field: z.literal("vehicleMake"), op: z.enum(["in", "notIn"]), value: z.array(z.string()).min(1) }),
+  z.object({ field: z.literal("vehicleYear"), op: segmentNumericOp, value: z.number().int() }), // Any of the customer's vehicles
+  z.object({ field: z.literal("tags"), op: z.enum(["hasAny", "hasAll", "hasNone"]), value: z.array(z.string()).min(1) }), // Tag IDs
+  z.object({ field: z.literal("customerType"), op: z.literal("eq"), value: z.enum(["individual", "business"]) }),
+]);
+
+export const segmentFilterSchema = z.object({
+  match: z.enum(["all", "any"]).default("all"),
+  conditions: z.array(segmentFilterConditionSchema),
+});
+
+export type SegmentFilterCondition = z.infer<typeof segmentFilterConditionSchema>;
+export type SegmentFilter = z.infer<typeof segmentFilterSchema>;
+
 // Permissions & Roles System schemas
 export const insertPermissionSchema = createInsertSchema(permissions).omit({ id: true, createdAt: true });
 export const updatePermissionSchema = insertPermissionSchema.partial();
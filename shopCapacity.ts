@@ -0,0 +1,434 @@
+/**
+ * Shop Capacity
+ *
+ * Resource model behind scheduling. Appointments and job cards occupy a time window
+ * (scheduledDate to scheduledEndDate) and compete for:
+ * - Service bays: each bay holds one vehicle at a time
+ * - Mechanics: each works their weekly shift (mechanicShifts) minus time off, on one job at a time
+ *
+ * The shop can run as many jobs at once as it has active bays, limited by the number of
+ * mechanics working. So scheduling keeps working before resources are set up, a shop with
+ * no bays counts as one bay, and mechanics with no shifts configured are treated as
+ * working whenever the shop is open for appointments.
+ *
+ * Windows without an end fall back to the appointment's service durations, the job
+ * card's labor hours, or defaultDurationMinutes. bufferTimeMinutes is kept free after
+ * every job.
+ */
+
+import { storage } from "./storage";
+import type { Appointment, AppointmentSettings, JobCard, ServiceBay, User } from "@shared/schema";
+import {
+  addDays,
+  getAppointmentHours,
+  getDayOfWeek,
+  getZonedDateString,
+  zonedTimeToUtc,
+  type TimeWindow,
+} from "./businessHours";
+
+const MINUTE_MS = 60 * 1000;
+const JOB_CARD_DONE_STATUSES = ["completed", "cancelled"];
+
+export interface ScheduledWork {
+  kind: "appointment" | "job_card";
+  id: string;
+  start: Date;
+  end: Date;
+  status: string;
+  customerId: string;
+  vehicleId: string;
+  mechanicId: string | null;
+  bayId: string | null;
+  description: string;
+}
+
+export interface MechanicSchedule {
+  mechanic: User;
+  shift: TimeWindow | null; // null = not working that day
+  timeOff: TimeWindow[];
+}
+
+export interface ShopDay {
+  date: string;
+  settings: AppointmentSettings;
+  hours: TimeWindow | null; // Appointment hours, null = closed
+  bays: ServiceBay[];
+  mechanics: MechanicSchedule[];
+  work: ScheduledWork[];
+}
+
+export interface CapacityRequest {
+  mechanicId?: string | null;
+  bayId?: string | null;
+}
+
+export interface ScheduleCheck {
+  available: boolean;
+  reason?: string;
+}
+
+// ============================================================
+// DURATIONS
+// ============================================================
+
+/**
+ * Service names booked on an appointment (legacy appointments only have serviceType)
+ */
+export function getAppointmentServices(appointment: { services?: string[] | null; serviceType?: string | null }): string[] {
+  if (appointment.services && appointment.services.length > 0) {
+    return appointment.services;
+  }
+  return appointment.serviceType ? [appointment.serviceType] : [];
+}
+
+async function getCatalogDurations(services: string[]): Promise<Map<string, number | null>> {
+  const catalog = await storage.getServiceCatalogByNames(Array.from(new Set(services)));
+  return new Map(catalog.map(service => [service.name, service.estimatedDurationMinutes]));
+}
+
+function sumDurations(services: string[], durations: Map<string, number | null>, settings: AppointmentSettings): number {
+  if (services.length === 0) {
+    return settings.defaultDurationMinutes;
+  }
+  return services.reduce((total, service) => total + (durations.get(service) || settings.defaultDurationMinutes), 0);
+}
+
+/**
+ * Total minutes needed for a set of services, from their serviceCatalog durations
+ */
+export async function getServiceDurationMinutes(services: string[], settings?: AppointmentSettings): Promise<number> {
+  const appointmentSettings = settings ?? (await storage.getAppointmentSettings());
+  const durations = await getCatalogDurations(services);
+  return sumDurations(services, durations, appointmentSettings);
+}
+
+// ============================================================
+// SCHEDULED WORK
+// ============================================================
+
+/**
+ * Appointments and job cards occupying any part of [start, end)
+ * Appointments already converted to a job card are represented by the job card
+ */
+export async function getScheduledWork(
+  start: Date,
+  end: Date,
+  settings: AppointmentSettings,
+  options: { excludeAppointmentId?: string; excludeJobCardId?: string } = {}
+): Promise<ScheduledWork[]> {
+  // Look back a day so work that started earlier and runs into the window is included
+  const lookback = new Date(start.getTime() - 24 * 60 * MINUTE_MS);
+  const [appointments, jobCards] = await Promise.all([
+    storage.getBookedAppointmentsInRange(lookback, end, options.excludeAppointmentId),
+    storage.getJobCardsInRange(lookback, end, options.excludeJobCardId),
+  ]);
+
+  const convertedAppointmentIds = new Set(jobCards.map(jobCard => jobCard.appointmentId).filter(Boolean));
+  const openAppointments = appointments.filter(appointment =>
+    appointment.status !== "completed" && !convertedAppointmentIds.has(appointment.id)
+  );
+  const durations = await getCatalogDurations(openAppointments.flatMap(getAppointmentServices));
+
+  const work: ScheduledWork[] = [
+    ...openAppointments.map(appointment => appointmentToWork(appointment, durations, settings)),
+    ...jobCards
+      .filter(jobCard => !JOB_CARD_DONE_STATUSES.includes(jobCard.status))
+      .map(jobCard => jobCardToWork(jobCard, settings)),
+  ];
+
+  return work
+    .filter(item => item.end > start)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+function appointmentToWork(
+  appointment: Appointment,
+  durations: Map<string, number | null>,
+  settings: AppointmentSettings
+): ScheduledWork {
+  const services = getAppointmentServices(appointment);
+  const end = appointment.scheduledEndDate
+    ?? new Date(appointment.scheduledDate.getTime() + sumDurations(services, durations, settings) * MINUTE_MS);
+  return {
+    kind: "appointment",
+    id: appointment.id,
+    start: appointment.scheduledDate,
+    end,
+    status: appointment.status,
+    customerId: appointment.customerId,
+    vehicleId: appointment.vehicleId,
+    mechanicId: null,
+    bayId: appointment.bayId,
+    description: services.join(", ") || "Appointment",
+  };
+}
+
+/**
+ * When a job card's work window ends, if it has no explicit end
+ */
+export function getJobCardEnd(jobCard: Pick<JobCard, "scheduledDate" | "scheduledEndDate" | "laborHours">, settings: AppointmentSettings): Date {
+  if (jobCard.scheduledEndDate) {
+    return jobCard.scheduledEndDate;
+  }
+  const laborMinutes = Math.round(parseFloat(jobCard.laborHours || "0") * 60);
+  const minutes = laborMinutes > 0 ? laborMinutes : settings.defaultDurationMinutes;
+  return new Date(jobCard.scheduledDate.getTime() + minutes * MINUTE_MS);
+}
+
+function jobCardToWork(jobCard: JobCard, settings: AppointmentSettings): ScheduledWork {
+  return {
+    kind: "job_card",
+    id: jobCard.id,
+    start: jobCard.scheduledDate,
+    end: getJobCardEnd(jobCard, settings),
+    status: jobCard.status,
+    customerId: jobCard.customerId,
+    vehicleId: jobCard.vehicleId,
+    mechanicId: jobCard.mechanicId,
+    bayId: jobCard.bayId,
+    description: jobCard.description,
+  };
+}
+
+// ============================================================
+// SHOP DAY
+// ============================================================
+
+/**
+ * Load bays, mechanic schedules and booked work for a date (YYYY-MM-DD, shop timezone)
+ */
+export async function loadShopDay(
+  date: string,
+  options: { settings?: AppointmentSettings; excludeAppointmentId?: string; excludeJobCardId?: string } = {}
+): Promise<ShopDay> {
+  const settings = options.settings ?? (await storage.getAppointmentSettings());
+  const dayStart = zonedTimeToUtc(date, "00:00", settings.timezone);
+  const dayEnd = zonedTimeToUtc(addDays(date, 1), "00:00", settings.timezone);
+  const hours = getAppointmentHours(settings, date);
+
+  const [bays, staff, shifts, timeOff, work] = await Promise.all([
+    storage.getServiceBays(),
+    storage.getAllStaff(),
+    storage.getMechanicShifts(),
+    storage.getMechanicTimeOff({ from: dayStart, to: dayEnd }),
+    getScheduledWork(dayStart, dayEnd, settings, options),
+  ]);
+
+  const dayOfWeek = getDayOfWeek(date);
+  const mechanics = staff
+    .filter(user => user.role === "mechanic" && user.isActive)
+    .map(mechanic => {
+      const mechanicShifts = shifts.filter(shift => shift.mechanicId === mechanic.id);
+      const todaysShift = mechanicShifts.find(shift => shift.dayOfWeek === dayOfWeek);
+      const shift = mechanicShifts.length === 0
+        ? hours
+        : todaysShift
+          ? {
+              start: zonedTimeToUtc(date, todaysShift.startTime, settings.timezone),
+              end: zonedTimeToUtc(date, todaysShift.endTime, settings.timezone),
+            }
+          : null;
+
+      return {
+        mechanic,
+        shift,
+        timeOff: timeOff
+          .filter(entry => entry.mechanicId === mechanic.id)
+          .map(entry => ({ start: entry.startDate, end: entry.endDate })),
+      };
+    });
+
+  return { date, settings, hours, bays, mechanics, work };
+}
+
+function overlaps(a: TimeWindow, b: TimeWindow, bufferMs: number = 0): boolean {
+  return a.start.getTime() < b.end.getTime() + bufferMs && b.start.getTime() < a.end.getTime() + bufferMs;
+}
+
+export function isMechanicWorking(schedule: MechanicSchedule, window: TimeWindow): boolean {
+  if (!schedule.shift) return false;
+  if (window.start < schedule.shift.start || window.end > schedule.shift.end) return false;
+  return !schedule.timeOff.some(entry => overlaps(entry, window));
+}
+
+/**
+ * How many jobs the shop can run at once during a window
+ */
+export function getShopCapacity(day: ShopDay, window: TimeWindow): number {
+  const bayCapacity = Math.max(day.bays.length, 1);
+  if (day.mechanics.length === 0) {
+    return bayCapacity;
+  }
+  const working = day.mechanics.filter(schedule => isMechanicWorking(schedule, window)).length;
+  return Math.min(bayCapacity, working);
+}
+
+/**
+ * Most jobs running at the same moment during a window, counting the buffer after each job
+ */
+function getPeakConcurrency(work: ScheduledWork[], window: TimeWindow, bufferMs: number): number {
+  const from = window.start.getTime();
+  const to = window.end.getTime() + bufferMs;
+  const events: Array<{ at: number; delta: number }> = [];
+  for (const item of work) {
+    const start = Math.max(item.start.getTime(), from);
+    const end = Math.min(item.end.getTime() + bufferMs, to);
+    if (start < end) {
+      events.push({ at: start, delta: 1 }, { at: end, delta: -1 });
+    }
+  }
+  // A job ending frees its slot for one starting at the same moment
+  events.sort((a, b) => a.at - b.at || a.delta - b.delta);
+
+  let running = 0;
+  let peak = 0;
+  for (const event of events) {
+    running += event.delta;
+    peak = Math.max(peak, running);
+  }
+  return peak;
+}
+
+/**
+ * Why a job cannot be booked for this window (shop capacity, and the requested
+ * mechanic and/or bay), or undefined if it fits
+ */
+export function getCapacityConflict(day: ShopDay, window: TimeWindow, request: CapacityRequest = {}): string | undefined {
+  const bufferMs = day.settings.bufferTimeMinutes * MINUTE_MS;
+  const overlapping = day.work.filter(item => overlaps(item, window, bufferMs));
+
+  if (request.mechanicId) {
+    const schedule = day.mechanics.find(entry => entry.mechanic.id === request.mechanicId);
+    if (!schedule) {
+      return "Mechanic not found or inactive";
+    }
+    if (!isMechanicWorking(schedule, window)) {
+      return "Mechanic is not on shift for this time";
+    }
+    if (overlapping.some(item => item.mechanicId === request.mechanicId)) {
+      return "Mechanic is already booked at this time";
+    }
+  }
+
+  if (request.bayId) {
+    if (!day.bays.some(bay => bay.id === request.bayId)) {
+      return "Service bay not found or inactive";
+    }
+    if (overlapping.some(item => item.bayId === request.bayId)) {
+      return "Service bay is already booked at this time";
+    }
+  }
+
+  if (getPeakConcurrency(overlapping, window, bufferMs) >= getShopCapacity(day, window)) {
+    return "No bay or mechanic capacity at this time";
+  }
+  return undefined;
+}
+
+/**
+ * Check a job card's work window against mechanic and bay availability
+ */
+export async function checkJobCardSchedule(
+  window: TimeWindow,
+  request: CapacityRequest & { excludeJobCardId?: string; excludeAppointmentId?: string }
+): Promise<ScheduleCheck> {
+  if (isNaN(window.start.getTime()) || isNaN(window.end.getTime()) || window.end <= window.start) {
+    return { available: false, reason: "Scheduled end must be after the start" };
+  }
+
+  const settings = await storage.getAppointmentSettings();
+  const day = await loadShopDay(getZonedDateString(window.start, settings.timezone), {
+    settings,
+    excludeJobCardId: request.excludeJobCardId,
+    excludeAppointmentId: request.excludeAppointmentId,
+  });
+  const conflict = getCapacityConflict(day, window, request);
+  return conflict ? { available: false, reason: conflict } : { available: true };
+}
+
+/**
+ * Check capacity and book inside `book` while holding the lock on the shop day containing
+ * `start`, so two concurrent bookings can't both take the last bay or mechanic
+ */
+export async function withShopDayLock<T>(start: Date, book: () => Promise<T>): Promise<T> {
+  if (isNaN(start.getTime())) {
+    return await book(); // The check rejects it
+  }
+  const settings = await storage.getAppointmentSettings();
+  return await storage.lockShopDay(getZonedDateString(start, settings.timezone), book);
+}
+
+// ============================================================
+// DISPATCH BOARD
+// ============================================================
+
+export interface DispatchBoardItem extends ScheduledWork {
+  customerName: string;
+  vehicle: string;
+}
+
+export interface DispatchBoard {
+  date: string;
+  timezone: string;
+  hours: TimeWindow | null;
+  bays: Array<{ bay: ServiceBay; work: DispatchBoardItem[] }>;
+  mechanics: Array<{
+    mechanicId: string;
+    name: string;
+    shift: TimeWindow | null;
+    timeOff: TimeWindow[];
+    work: DispatchBoardItem[];
+    bookedMinutes: number;
+    shiftMinutes: number;
+  }>;
+  unassigned: DispatchBoardItem[];
+}
+
+function getMinutes(window: TimeWindow): number {
+  return Math.round((window.end.getTime() - window.start.getTime()) / MINUTE_MS);
+}
+
+/**
+ * Who is working on what, and where, for a date
+ */
+export async function getDispatchBoard(date: string): Promise<DispatchBoard> {
+  const day = await loadShopDay(date);
+
+  const [customers, vehicles] = await Promise.all([
+    storage.getUsersByIds(Array.from(new Set(day.work.map(item => item.customerId)))),
+    storage.getVehiclesByIds(Array.from(new Set(day.work.map(item => item.vehicleId)))),
+  ]);
+  const customersById = new Map(customers.map(customer => [customer.id, customer]));
+  const vehiclesById = new Map(vehicles.map(vehicle => [vehicle.id, vehicle]));
+
+  const items: DispatchBoardItem[] = day.work.map(item => {
+    const customer = customersById.get(item.customerId);
+    const vehicle = vehiclesById.get(item.vehicleId);
+    return {
+      ...item,
+      customerName: [customer?.firstName, customer?.lastName].filter(Boolean).join(" ") || customer?.email || "",
+      vehicle: vehicle ? [vehicle.year, vehicle.make, vehicle.model].filter(Boolean).join(" ") : "",
+    };
+  });
+
+  return {
+    date,
+    timezone: day.settings.timezone,
+    hours: day.hours,
+    bays: day.bays.map(bay => ({ bay, work: items.filter(item => item.bayId === bay.id) })),
+    mechanics: day.mechanics.map(schedule => {
+      const work = items.filter(item => item.mechanicId === schedule.mechanic.id);
+      return {
+        mechanicId: schedule.mechanic.id,
+        name: [schedule.mechanic.firstName, schedule.mechanic.lastName].filter(Boolean).join(" ") || schedule.mechanic.email || "",
+        shift: schedule.shift,
+        timeOff: schedule.timeOff,
+        work,
+        bookedMinutes: work.reduce((total, item) => total + getMinutes(item), 0),
+        shiftMinutes: schedule.shift ? getMinutes(schedule.shift) : 0,
+      };
+    }),
+    unassigned: items.filter(item => !item.mechanicId),
+  };
+}
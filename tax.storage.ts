@@ -0,0 +1,670 @@
+/**
+ * Tax Storage Module
+ * Handles tax configuration and tax calculation:
+ * - Tax rates by jurisdiction with effective/expiry dates; only the shop's jurisdictions are charged
+ * - Per line item type tax calculation (parts vs. labour)
+ * - Compound taxes (tax charged on top of other taxes)
+ * - Tax collected log per issued invoice
+ * - Tax remittances per period and filing reports
+ */
+
+import {
+  db,
+  eq,
+  and,
+  or,
+  asc,
+  desc,
+  gt,
+  lte,
+  isNull,
+  inArray,
+  notInArray,
+  sum,
+  count,
+  taxRates,
+  taxCollected,
+  taxRemittances,
+  pricingSettings,
+  invoices,
+  type Invoice,
+  type DbTransaction,
+  type TaxRate,
+  type InsertTaxRate,
+  type TaxCollected,
+  type InsertTaxCollected,
+  type TaxRemittance,
+} from "./base";
+import { settingsStorage } from "./settings.storage";
+import { getZonedParts } from "../businessHours";
+
+// A single line item as seen by the tax engine
+export interface TaxableItem {
+  type?: string | null; // "parts" | "labour", defaults to "parts" like invoice items
+  total: string | number;
+}
+
+// Tax charged by one rate on an invoice or estimate
+export interface TaxLine {
+  taxRateId: string;
+  name: string;
+  jurisdiction: string;
+  rate: string;
+  isCompound: boolean;
+  taxableAmount: number;
+  taxAmount: number;
+}
+
+export interface TaxCalculation {
+  subtotal: number;
+  tax: number;
+  total: number;
+  taxLines: TaxLine[];
+}
+
+// Tax collected for one rate in one filing period
+export interface TaxPeriodSummary {
+  taxPeriod: string;
+  taxRateId: string;
+  taxRateName: string;
+  jurisdiction: string;
+  taxIdentificationNumber: string | null;
+  taxableAmount: number;
+  taxCollected: number;
+  taxRemitted: number;
+  taxOutstanding: number;
+  entries: number;
+}
+
+export interface TaxRemittanceInput {
+  taxRateId: string;
+  taxPeriod: string;
+  remittanceDate: Date;
+  dueDate?: Date;
+  paymentMethod?: string;
+  paymentReference?: string;
+  totalTaxRemitted?: string;
+  status?: string;
+  notes?: string;
+  filedBy: string;
+}
+
+export interface TaxFilingInput {
+  filingConfirmation?: string;
+  attachments?: string[];
+  status?: string;
+  paymentReference?: string;
+  lateFee?: string;
+  notes?: string;
+}
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+// Tax on draft or cancelled invoices is not owed, whatever is still in the log
+const UNTAXED_INVOICE_STATUSES: Invoice["status"][] = ["draft", "cancelled"];
+
+/**
+ * Tax period a collection date falls into, by the calendar month in the shop's timezone
+ * Format: YYYY-MM (e.g., 2025-01). Quarterly periods are derived from this.
+ */
+export function getTaxPeriod(date: Date, timeZone: string): string {
+  const { year, month } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, "0")}`;
+}
+
+/**
+ * Quarterly filing period a monthly tax period falls into
+ * e.g., 2025-02 -> 2025-Q1
+ */
+export function getTaxQuarter(taxPeriod: string): string {
+  const [year, month] = taxPeriod.split("-");
+  return `${year}-Q${Math.ceil(parseInt(month, 10) / 3)}`;
+}
+
+/**
+ * Monthly tax periods covered by a filing period
+ * Accepts a month (2025-01) or a quarter (2025-Q1)
+ */
+export function getTaxPeriodMonths(period: string): string[] {
+  if (/^\d{4}-(0[1-9]|1[0-2])$/.test(period)) {
+    return [period];
+  }
+
+  const quarter = period.match(/^(\d{4})-Q([1-4])$/);
+  if (!quarter) {
+    throw new Error(`Invalid tax period "${period}"; use YYYY-MM or YYYY-Q1..Q4`);
+  }
+
+  const firstMonth = (parseInt(quarter[2], 10) - 1) * 3 + 1;
+  return [0, 1, 2].map((offset) => `${quarter[1]}-${String(firstMonth + offset).padStart(2, "0")}`);
+}
+
+/**
+ * Build tax collected log rows for an invoice from its calculated tax lines
+ * The rate is snapshotted so later rate changes do not alter what was collected
+ */
+export function buildTaxCollectedRows(
+  invoiceId: string,
+  taxLines: TaxLine[],
+  collectionDate: Date,
+  timeZone: string
+): InsertTaxCollected[] {
+  return taxLines.map((line) => ({
+    invoiceId,
+    taxRateId: line.taxRateId,
+    taxableAmount: line.taxableAmount.toFixed(2),
+    taxRate: line.rate,
+    taxAmount: line.taxAmount.toFixed(2),
+    collectionDate,
+    taxPeriod: getTaxPeriod(collectionDate, timeZone),
+  }));
+}
+
+class TaxStorage {
+  // ============================================================
+  // TAX RATES MANAGEMENT
+  // ============================================================
+
+  async getAllTaxRates(filters?: { jurisdiction?: string; isActive?: boolean }): Promise<TaxRate[]> {
+    const conditions = [];
+
+    if (filters?.jurisdiction) {
+      conditions.push(eq(taxRates.jurisdiction, filters.jurisdiction));
+    }
+    if (filters?.isActive !== undefined) {
+      conditions.push(eq(taxRates.isActive, filters.isActive));
+    }
+
+    return await db
+      .select()
+      .from(taxRates)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(taxRates.jurisdiction), desc(taxRates.effectiveDate));
+  }
+
+  async getTaxRate(id: string): Promise<TaxRate | undefined> {
+    const [rate] = await db
+      .select()
+      .from(taxRates)
+      .where(eq(taxRates.id, id))
+      .limit(1);
+    return rate;
+  }
+
+  async createTaxRate(data: InsertTaxRate): Promise<TaxRate> {
+    const [rate] = await db
+      .insert(taxRates)
+      .values(data)
+      .returning();
+    return rate;
+  }
+
+  async updateTaxRate(id: string, updates: Partial<InsertTaxRate>): Promise<TaxRate | undefined> {
+    const [updated] = await db
+      .update(taxRates)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(taxRates.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteTaxRate(id: string): Promise<void> {
+    // Collected tax keeps a reference to its rate for remittance, so used rates can only be deactivated
+    const [used] = await db
+      .select({ id: taxCollected.id })
+      .from(taxCollected)
+      .where(eq(taxCollected.taxRateId, id))
+      .limit(1);
+
+    if (used) {
+      throw new Error("Tax rate has been charged on invoices and cannot be deleted; deactivate it instead");
+    }
+
+    await db.delete(taxRates).where(eq(taxRates.id, id));
+  }
+
+  /**
+   * Get the tax rates in force on a given date
+   * A rate applies from its effective date up to (but not including) its expiry date
+   */
+  async getEffectiveTaxRates(asOf: Date = new Date()): Promise<TaxRate[]> {
+    return await db
+      .select()
+      .from(taxRates)
+      .where(
+        and(
+          eq(taxRates.isActive, true),
+          lte(taxRates.effectiveDate, asOf),
+          or(isNull(taxRates.expiryDate), gt(taxRates.expiryDate, asOf))
+        )
+      )
+      .orderBy(asc(taxRates.effectiveDate));
+  }
+
+  // ============================================================
+  // TAX CALCULATION
+  // ============================================================
+
+  /**
+   * Get the tax rates the shop charges on a given date: those in force for the
+   * jurisdictions in pricingSettings.taxJurisdictions. With no jurisdictions chosen,
+   * rates are only charged while they all belong to a single jurisdiction.
+   */
+  async getChargeableTaxRates(asOf: Date = new Date()): Promise<TaxRate[]> {
+    const rates = await this.getEffectiveTaxRates(asOf);
+    const [pricing] = await db
+      .select({ taxJurisdictions: pricingSettings.taxJurisdictions })
+      .from(pricingSettings)
+      .where(eq(pricingSettings.id, 1))
+      .limit(1);
+
+    const jurisdictions = pricing?.taxJurisdictions || [];
+    if (jurisdictions.length > 0) {
+      return rates.filter((rate) => jurisdictions.includes(rate.jurisdiction));
+    }
+    if (new Set(rates.map((rate) => rate.jurisdiction)).size > 1) {
+      throw new Error("Tax rates are set up for several jurisdictions; choose the shop's tax jurisdictions in pricing settings");
+    }
+    return rates;
+  }
+
+  /**
+   * Calculate tax for a set of line items using the shop's rates in force on a given date
+   *
+   * Simple rates are charged on the subtotal of the item types they apply to.
+   * Compound rates are charged on that subtotal plus the simple taxes already
+   * charged on those item types (e.g., a levy charged on top of GCT).
+   * Returns no tax lines when no rate is configured, so callers can keep
+   * a manually entered tax amount.
+   */
+  async calculateTax(items: TaxableItem[], asOf: Date = new Date()): Promise<TaxCalculation> {
+    const rates = await this.getChargeableTaxRates(asOf);
+
+    const subtotalByType: Record<string, number> = {};
+    for (const item of items) {
+      const type = item.type || "parts";
+      subtotalByType[type] = (subtotalByType[type] || 0) + parseFloat(String(item.total || 0));
+    }
+    const subtotal = roundCurrency(Object.values(subtotalByType).reduce((acc, value) => acc + value, 0));
+
+    const simpleTaxByType: Record<string, number> = {};
+    const taxLines: TaxLine[] = [];
+
+    const toTaxLine = (rate: TaxRate, taxableAmount: number): TaxLine => ({
+      taxRateId: rate.id,
+      name: rate.name,
+      jurisdiction: rate.jurisdiction,
+      rate: rate.rate,
+      isCompound: rate.isCompound,
+      taxableAmount: roundCurrency(taxableAmount),
+      taxAmount: roundCurrency(taxableAmount * parseFloat(rate.rate)),
+    });
+
+    for (const rate of rates.filter(r => !r.isCompound)) {
+      let taxableAmount = 0;
+      for (const type of rate.appliesTo) {
+        const typeSubtotal = subtotalByType[type] || 0;
+        taxableAmount += typeSubtotal;
+        simpleTaxByType[type] = (simpleTaxByType[type] || 0) + typeSubtotal * parseFloat(rate.rate);
+      }
+      if (taxableAmount > 0) {
+        taxLines.push(toTaxLine(rate, taxableAmount));
+      }
+    }
+
+    for (const rate of rates.filter(r => r.isCompound)) {
+      const taxableAmount = rate.appliesTo.reduce(
+        (acc, type) => acc + (subtotalByType[type] || 0) + (simpleTaxByType[type] || 0),
+        0
+      );
+      if (taxableAmount > 0) {
+        taxLines.push(toTaxLine(rate, taxableAmount));
+      }
+    }
+
+    const tax = roundCurrency(taxLines.reduce((acc, line) => acc + line.taxAmount, 0));
+
+    return {
+      subtotal,
+      tax,
+      total: roundCurrency(subtotal + tax),
+      taxLines,
+    };
+  }
+
+  // ============================================================
+  // TAX COLLECTED
+  // ============================================================
+
+  async getTaxCollectedByInvoice(invoiceId: string): Promise<TaxCollected[]> {
+    return await db
+      .select()
+      .from(taxCollected)
+      .where(eq(taxCollected.invoiceId, invoiceId))
+      .orderBy(asc(taxCollected.createdAt));
+  }
+
+  /**
+   * Replace an invoice's unremitted tax collected log with the given tax lines, dated by
+   * its issue date. Pass no lines to clear it. Tax already remitted is never changed, and an
+   * invoice with remitted tax is not logged again.
+   */
+  async replaceInvoiceTaxCollected(tx: DbTransaction, invoice: Invoice, taxLines: TaxLine[]): Promise<void> {
+    await tx
+      .delete(taxCollected)
+      .where(and(eq(taxCollected.invoiceId, invoice.id), eq(taxCollected.remitted, false)));
+
+    if (taxLines.length === 0) {
+      return;
+    }
+
+    const [remitted] = await tx
+      .select({ id: taxCollected.id })
+      .from(taxCollected)
+      .where(eq(taxCollected.invoiceId, invoice.id))
+      .limit(1);
+    if (remitted) {
+      return;
+    }
+
+    const { timezone } = await settingsStorage.getAppointmentSettings();
+    await tx.insert(taxCollected).values(buildTaxCollectedRows(invoice.id, taxLines, invoice.issueDate, timezone));
+  }
+
+  async getTaxCollectedByRemittance(remittanceId: string): Promise<TaxCollected[]> {
+    return await db
+      .select()
+      .from(taxCollected)
+      .where(eq(taxCollected.remittanceId, remittanceId))
+      .orderBy(asc(taxCollected.collectionDate));
+  }
+
+  /**
+   * Summarize tax collected by filing period and tax rate
+   * Monthly granularity uses the stored periods; quarterly rolls months up into YYYY-Qn.
+   * Unremitted tax on draft or cancelled invoices is left out.
+   */
+  async getTaxCollectedSummary(filters: {
+    granularity?: "monthly" | "quarterly";
+    taxRateId?: string;
+    periods?: string[];
+  } = {}): Promise<TaxPeriodSummary[]> {
+    const conditions = [
+      or(eq(taxCollected.remitted, true), notInArray(invoices.status, UNTAXED_INVOICE_STATUSES)),
+    ];
+
+    if (filters.taxRateId) {
+      conditions.push(eq(taxCollected.taxRateId, filters.taxRateId));
+    }
+    if (filters.periods && filters.periods.length > 0) {
+      conditions.push(inArray(taxCollected.taxPeriod, filters.periods.flatMap(getTaxPeriodMonths)));
+    }
+
+    const rows = await db
+      .select({
+        taxPeriod: taxCollected.taxPeriod,
+        taxRateId: taxCollected.taxRateId,
+        remitted: taxCollected.remitted,
+        taxRateName: taxRates.name,
+        jurisdiction: taxRates.jurisdiction,
+        taxIdentificationNumber: taxRates.taxIdentificationNumber,
+        taxableAmount: sum(taxCollected.taxableAmount),
+        taxAmount: sum(taxCollected.taxAmount),
+        entries: count(),
+      })
+      .from(taxCollected)
+      .innerJoin(taxRates, eq(taxCollected.taxRateId, taxRates.id))
+      .innerJoin(invoices, eq(taxCollected.invoiceId, invoices.id))
+      .where(and(...conditions))
+      .groupBy(
+        taxCollected.taxPeriod,
+        taxCollected.taxRateId,
+        taxCollected.remitted,
+        taxRates.name,
+        taxRates.jurisdiction,
+        taxRates.taxIdentificationNumber
+      );
+
+    const summaries = new Map<string, TaxPeriodSummary>();
+
+    for (const row of rows) {
+      const taxPeriod = filters.granularity === "quarterly" ? getTaxQuarter(row.taxPeriod) : row.taxPeriod;
+      const key = `${taxPeriod}:${row.taxRateId}`;
+
+      if (!summaries.has(key)) {
+        summaries.set(key, {
+          taxPeriod,
+          taxRateId: row.taxRateId,
+          taxRateName: row.taxRateName,
+          jurisdiction: row.jurisdiction,
+          taxIdentificationNumber: row.taxIdentificationNumber,
+          taxableAmount: 0,
+          taxCollected: 0,
+          taxRemitted: 0,
+          taxOutstanding: 0,
+          entries: 0,
+        });
+      }
+
+      const summary = summaries.get(key)!;
+      const taxAmount = Number(row.taxAmount || 0);
+
+      summary.taxableAmount = roundCurrency(summary.taxableAmount + Number(row.taxableAmount || 0));
+      summary.taxCollected = roundCurrency(summary.taxCollected + taxAmount);
+      summary.entries += Number(row.entries);
+      if (row.remitted) {
+        summary.taxRemitted = roundCurrency(summary.taxRemitted + taxAmount);
+      } else {
+        summary.taxOutstanding = roundCurrency(summary.taxOutstanding + taxAmount);
+      }
+    }
+
+    return Array.from(summaries.values()).sort((a, b) =>
+      b.taxPeriod.localeCompare(a.taxPeriod) || a.taxRateName.localeCompare(b.taxRateName)
+    );
+  }
+
+  // ============================================================
+  // TAX REMITTANCES
+  // ============================================================
+
+  async getAllTaxRemittances(filters?: { taxRateId?: string; taxPeriod?: string; status?: string }): Promise<TaxRemittance[]> {
+    const conditions = [];
+
+    if (filters?.taxRateId) {
+      conditions.push(eq(taxRemittances.taxRateId, filters.taxRateId));
+    }
+    if (filters?.taxPeriod) {
+      conditions.push(eq(taxRemittances.taxPeriod, filters.taxPeriod));
+    }
+    if (filters?.status) {
+      conditions.push(eq(taxRemittances.status, filters.status));
+    }
+
+    return await db
+      .select()
+      .from(taxRemittances)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(taxRemittances.remittanceDate));
+  }
+
+  async getTaxRemittance(id: string): Promise<TaxRemittance | undefined> {
+    const [remittance] = await db
+      .select()
+      .from(taxRemittances)
+      .where(eq(taxRemittances.id, id))
+      .limit(1);
+    return remittance;
+  }
+
+  /**
+   * Remit the outstanding tax for one rate and filing period
+   * All unremitted tax collected in the period on issued invoices is attached to the
+   * remittance and marked remitted
+   */
+  async createTaxRemittance(data: TaxRemittanceInput): Promise<TaxRemittance> {
+    const months = getTaxPeriodMonths(data.taxPeriod);
+
+    return await db.transaction(async (tx) => {
+      const outstanding = await tx
+        .select({ id: taxCollected.id, taxAmount: taxCollected.taxAmount })
+        .from(taxCollected)
+        .innerJoin(invoices, eq(taxCollected.invoiceId, invoices.id))
+        .where(
+          and(
+            eq(taxCollected.taxRateId, data.taxRateId),
+            inArray(taxCollected.taxPeriod, months),
+            eq(taxCollected.remitted, false),
+            notInArray(invoices.status, UNTAXED_INVOICE_STATUSES)
+          )
+        )
+        .for("update", { of: taxCollected });
+
+      if (outstanding.length === 0) {
+        throw new Error("No unremitted tax collected for this tax rate and period");
+      }
+
+      const totalTaxCollected = roundCurrency(
+        outstanding.reduce((acc, row) => acc + parseFloat(row.taxAmount), 0)
+      ).toFixed(2);
+
+      const [remittance] = await tx
+        .insert(taxRemittances)
+        .values({
+          taxRateId: data.taxRateId,
+          taxPeriod: data.taxPeriod,
+          totalTaxCollected,
+          totalTaxRemitted: data.totalTaxRemitted ?? totalTaxCollected,
+          remittanceDate: data.remittanceDate,
+          dueDate: data.dueDate,
+          paymentMethod: data.paymentMethod,
+          paymentReference: data.paymentReference,
+          status: data.status ?? "pending",
+          filedBy: data.filedBy,
+          notes: data.notes,
+        })
+        .returning();
+
+      await tx
+        .update(taxCollected)
+        .set({ remitted: true, remittanceId: remittance.id })
+        .where(inArray(taxCollected.id, outstanding.map((row) => row.id)));
+
+      return remittance;
+    });
+  }
+
+  /**
+   * Record the filing confirmation for a remittance
+   * Attachments are appended to those already on file
+   */
+  async recordTaxRemittanceFiling(id: string, filing: TaxFilingInput): Promise<TaxRemittance | undefined> {
+    const remittance = await this.getTaxRemittance(id);
+    if (!remittance) return undefined;
+
+    const { attachments, ...updates } = filing;
+
+    const [updated] = await db
+      .update(taxRemittances)
+      .set({
+        ...updates,
+        attachments: [...(remittance.attachments || []), ...(attachments || [])],
+        updatedAt: new Date(),
+      })
+      .where(eq(taxRemittances.id, id))
+      .returning();
+    return updated;
+  }
+
+  /**
+   * Delete a remittance recorded in error
+   * Its tax collected is released back to outstanding
+   */
+  async deleteTaxRemittance(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .update(taxCollected)
+        .set({ remitted: false, remittanceId: null })
+        .where(eq(taxCollected.remittanceId, id));
+
+      await tx.delete(taxRemittances).where(eq(taxRemittances.id, id));
+    });
+  }
+
+  // ============================================================
+  // TAX REPORTS
+  // ============================================================
+
+  /**
+   * Tax liability for a filing period (month or quarter), per tax rate
+   */
+  async getTaxLiabilityReport(period: string): Promise<{
+    period: string;
+    months: string[];
+    rates: TaxPeriodSummary[];
+    remittances: TaxRemittance[];
+    totals: { taxableAmount: number; taxCollected: number; taxRemitted: number; taxOutstanding: number };
+  }> {
+    const months = getTaxPeriodMonths(period);
+    const granularity = months.length > 1 ? "quarterly" : "monthly";
+
+    const rates = await this.getTaxCollectedSummary({ granularity, periods: [period] });
+    const remittances = await db
+      .select()
+      .from(taxRemittances)
+      .where(inArray(taxRemittances.taxPeriod, [period, ...months]))
+      .orderBy(desc(taxRemittances.remittanceDate));
+
+    const totals = rates.reduce(
+      (acc, rate) => ({
+        taxableAmount: roundCurrency(acc.taxableAmount + rate.taxableAmount),
+        taxCollected: roundCurrency(acc.taxCollected + rate.taxCollected),
+        taxRemitted: roundCurrency(acc.taxRemitted + rate.taxRemitted),
+        taxOutstanding: roundCurrency(acc.taxOutstanding + rate.taxOutstanding),
+      }),
+      { taxableAmount: 0, taxCollected: 0, taxRemitted: 0, taxOutstanding: 0 }
+    );
+
+    return { period, months, rates, remittances, totals };
+  }
+
+  convertTaxLiabilityToCSV(rates: TaxPeriodSummary[]): string {
+    const headers = [
+      "Tax Period",
+      "Tax Rate",
+      "Jurisdiction",
+      "TIN",
+      "Taxable Amount",
+      "Tax Collected",
+      "Tax Remitted",
+      "Tax Outstanding",
+      "Entries",
+    ];
+
+    const escape = (value: unknown): string => {
+      if (value === null || value === undefined) return '';
+      const str = String(value);
+      if (str.includes(',') || str.includes('"') || str.includes('\n')) {
+        return `"${str.replace(/"/g, '""')}"`;
+      }
+      return str;
+    };
+
+    const rows = rates.map((rate) => [
+      rate.taxPeriod,
+      rate.taxRateName,
+      rate.jurisdiction,
+      rate.taxIdentificationNumber,
+      rate.taxableAmount.toFixed(2),
+      rate.taxCollected.toFixed(2),
+      rate.taxRemitted.toFixed(2),
+      rate.taxOutstanding.toFixed(2),
+      rate.entries,
+    ].map(escape).join(','));
+
+    return [headers.join(','), ...rows].join('\n');
+  }
+}
+
+// Export singleton instance
+export const taxStorage = new TaxStorage();
@@ -0,0 +1,178 @@
+/**
+ * Tow Billing
+ *
+ * When a tow is completed:
+ * - The customer is invoiced with a line per price component (base price, distance charge,
+ *   surcharges and any custom price adjustment), linked back via towRequests.invoiceId. It is
+ *   not linked to the repair job card, which is invoiced (and costed) separately
+ * - If a third-party wrecker did the job, the payable is recorded as a vendor bill
+ *   (towing_operations) against the wrecker's vendor, created on first use
+ *
+ * Billing runs under the tow request's row lock and both steps are skipped when already done,
+ * so completing twice (or concurrently) never double-bills and a failed attempt can be retried
+ * (POST /api/tow-requests/:id/bill).
+ */
+
+import { storage } from "./storage";
+import type { InsertInvoiceItem, TowRequest } from "@shared/schema";
+import { pushNotificationService } from "./pushNotifications";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INVOICE_DUE_DAYS = 30;
+const DEFAULT_TAX_RATE = 0.15;
+
+function toAmount(value: string | null | undefined): number {
+  return value ? parseFloat(value) : 0;
+}
+
+/**
+ * Invoice line items for a tow; unpriced tows with a manual total get a single line
+ */
+export function getTowInvoiceItems(request: TowRequest): InsertInvoiceItem[] {
+  const item = (description: string, amount: number): InsertInvoiceItem => ({
+    invoiceId: "", // Will be set after invoice creation
+    description,
+    type: "labour",
+    quantity: "1",
+    unitPrice: amount.toFixed(2),
+    total: amount.toFixed(2),
+  });
+
+  const basePrice = toAmount(request.basePrice);
+  const distanceCharge = toAmount(request.distanceCharge);
+  const surcharges = toAmount(request.surcharges);
+  const adjustment = toAmount(request.customPriceAdjustment);
+  const items: InsertInvoiceItem[] = [];
+
+  if (basePrice === 0 && distanceCharge === 0 && surcharges === 0) {
+    const total = toAmount(request.totalPrice);
+    if (total > 0) {
+      items.push(item(`Towing service (${request.requestNumber})`, total));
+    }
+    return items;
+  }
+
+  const distance = request.actualDistance || request.estimatedDistance;
+  if (basePrice !== 0) items.push(item(`Tow base rate (${request.vehicleSize} vehicle)`, basePrice));
+  if (distanceCharge !== 0) items.push(item(distance ? `Tow distance charge (${distance} mi)` : "Tow distance charge", distanceCharge));
+  if (surcharges !== 0) items.push(item("Tow surcharges (after hours/weekend/emergency)", surcharges));
+  if (adjustment !== 0) items.push(item(request.priceNotes || "Price adjustment", adjustment));
+  return items;
+}
+
+async function invoiceTow(request: TowRequest): Promise<string | null> {
+  const items = getTowInvoiceItems(request);
+  if (items.length === 0) {
+    console.warn(`Tow request ${request.requestNumber} has no price, skipping invoice`);
+    return null;
+  }
+
+  const subtotal = items.reduce((sum, item) => sum + parseFloat(item.total), 0);
+  // Same fallback as job card invoices; configured tax rates take over in createInvoiceWithItems
+  const pricing = await storage.getPricingSettings();
+  const taxRate = pricing?.taxRate ? parseFloat(pricing.taxRate) / 100 : DEFAULT_TAX_RATE;
+  const tax = subtotal * taxRate;
+  const issueDate = new Date();
+
+  const invoice = await storage.createInvoiceWithItems({
+    invoiceNumber: await storage.generateInvoiceNumber(),
+    customerId: request.customerId,
+    status: "draft",
+    issueDate,
+    dueDate: new Date(issueDate.getTime() + INVOICE_DUE_DAYS * DAY_MS),
+    serviceDate: request.completedAt ?? issueDate,
+    subtotal: subtotal.toFixed(2),
+    tax: tax.toFixed(2),
+    total: (subtotal + tax).toFixed(2),
+    paidAmount: "0",
+    balance: (subtotal + tax).toFixed(2),
+    notes: `Tow ${request.requestNumber}: ${request.pickupLocation} to ${request.dropoffLocation}`,
+  }, items);
+
+  const customer = await storage.getUser(invoice.customerId);
+  if (customer) {
+    const notification = pushNotificationService.createInvoiceNotification({
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      total: parseFloat(invoice.total || '0'),
+    });
+    pushNotificationService.sendToUser(customer, notification).catch(err => {
+      console.error('Failed to send invoice notification:', err);
+    });
+  }
+  return invoice.id;
+}
+
+async function billThirdPartyTow(request: TowRequest, recordedBy: string): Promise<string | null> {
+  const wrecker = request.thirdPartyWreckerId ? await storage.getThirdPartyWrecker(request.thirdPartyWreckerId) : undefined;
+  if (!wrecker) {
+    return null;
+  }
+
+  let vendor = wrecker.vendorId ? await storage.getVendorById(wrecker.vendorId) : undefined;
+  if (!vendor) {
+    vendor = await storage.createVendor({
+      vendorName: wrecker.companyName,
+      contactPerson: wrecker.contactName,
+      phone: wrecker.phone,
+      email: wrecker.email,
+      addressLine1: wrecker.address,
+      notes: "Third-party wrecker",
+      createdBy: recordedBy,
+    });
+    await storage.updateThirdPartyWrecker(wrecker.id, { vendorId: vendor.id });
+  }
+
+  const miles = toAmount(request.actualDistance || request.estimatedDistance);
+  const baseRate = toAmount(wrecker.baseRate);
+  const mileage = miles * toAmount(wrecker.perMileRate);
+  const total = baseRate + mileage;
+  const billDate = request.completedAt ?? new Date();
+  const netDays = parseInt(vendor.paymentTerms?.match(/Net (\d+)/i)?.[1] || "0");
+
+  const bill = await storage.createVendorBill({
+    vendorId: vendor.id,
+    subtotal: total.toFixed(2),
+    tax: "0",
+    total: total.toFixed(2),
+    billDate,
+    dueDate: new Date(billDate.getTime() + netDays * DAY_MS),
+    status: "unpaid",
+    category: "towing_operations",
+    description: `Tow ${request.requestNumber}: ${request.pickupLocation} to ${request.dropoffLocation}`,
+    recordedBy,
+  }, [
+    { description: "Tow base rate", quantity: 1, unitPrice: baseRate.toFixed(2), total: baseRate.toFixed(2) },
+    { description: `Mileage (${miles.toFixed(2)} mi)`, quantity: 1, unitPrice: mileage.toFixed(2), total: mileage.toFixed(2) },
+  ]);
+  return bill.id;
+}
+
+/**
+ * Invoice a completed tow and, for third-party wreckers, record the payable.
+ * `completedBy` is used as the bill's recorder; for automatic completions the dispatcher is used.
+ */
+export async function billCompletedTow(request: TowRequest, completedBy?: string): Promise<TowRequest> {
+  const billed = await storage.billTowRequest(request.id, async (current) => {
+    const updates: { invoiceId?: string; vendorBillId?: string } = {};
+
+    if (!current.invoiceId) {
+      const invoiceId = await invoiceTow(current);
+      if (invoiceId) updates.invoiceId = invoiceId;
+    }
+
+    if (current.wreckerType === "third_party" && !current.vendorBillId) {
+      const recordedBy = completedBy ?? (await storage.getTowRequestStatusHistory(current.id))
+        .find(entry => entry.toStatus === "dispatched" && entry.changedBy)?.changedBy;
+      if (recordedBy) {
+        const vendorBillId = await billThirdPartyTow(current, recordedBy);
+        if (vendorBillId) updates.vendorBillId = vendorBillId;
+      } else {
+        console.warn(`No staff member to record the wrecker bill for tow request ${current.requestNumber}`);
+      }
+    }
+
+    return updates;
+  });
+  return billed ?? request;
+}
@@ -0,0 +1,238 @@
+/**
+ * Tow Dispatch Recommendations
+ *
+ * Ranks company driver/truck pairs for a tow request:
+ * - Drivers must be active and available with an unexpired license
+ * - A driver's assigned truck is used; drivers without one are paired with a free truck
+ * - Trucks must be available and suit the vehicle size (tow type and capacity);
+ *   roadside services (jumpstart, lockout, ...) accept any truck
+ * - Position is the driver's latest GPS ping if recent, else the truck's (or driver's) currentLocation
+ * - Score is the distance to the pickup plus a penalty per tow the driver already has in progress
+ *
+ * When no company pair fits, active third-party wreckers are suggested instead
+ * (preferred first) with a price from their baseRate/perMileRate.
+ */
+
+import { storage } from "./storage";
+import type { ThirdPartyWrecker, TowRequest, TowRequestLocation, TowTruck, WreckerDriver } from "@shared/schema";
+import { getDistanceMiles, type GeoPoint } from "./towQuote";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LICENSE_EXPIRY_WARNING_DAYS = 30;
+const WORKLOAD_PENALTY_MILES = 15; // Each in-progress tow counts like this many extra miles
+const UNKNOWN_DISTANCE_MILES = 50; // Assumed distance for units without a known position
+const GPS_PING_MAX_AGE_MS = 30 * 60 * 1000; // Older pings are from a finished tow, not where the driver is now
+
+// Truck requirements by vehicle size (capacity in lbs)
+const VEHICLE_SIZE_REQUIREMENTS: Record<string, { minCapacity: number; towTypes: string[] }> = {
+  small: { minCapacity: 4000, towTypes: ["flatbed", "wheel_lift", "integrated"] },
+  medium: { minCapacity: 5000, towTypes: ["flatbed", "wheel_lift", "integrated"] },
+  large: { minCapacity: 8000, towTypes: ["flatbed", "integrated"] },
+  oversized: { minCapacity: 16000, towTypes: ["integrated"] },
+};
+
+export interface DispatchCandidate {
+  driverId: string;
+  driverUserId: string;
+  truckId: string;
+  truckNumber: string;
+  towType: string;
+  capacity: number;
+  distanceMiles: number | null;
+  locationSource: "gps" | "truck" | "driver" | null;
+  activeTows: number;
+  score: number;
+  warnings: string[];
+}
+
+export interface ThirdPartyCandidate {
+  wreckerId: string;
+  companyName: string;
+  phone: string;
+  isPreferred: boolean;
+  estimatedDistance: number;
+  estimatedPrice: number;
+}
+
+export interface DispatchRecommendation {
+  towRequestId: string;
+  candidates: DispatchCandidate[];
+  excluded: Array<{ driverId: string; reason: string }>;
+  thirdParty: ThirdPartyCandidate[];
+}
+
+/**
+ * Parse a stored currentLocation ("lat,lng" or JSON with latitude/longitude or lat/lng)
+ */
+export function parseLocation(value: string | null | undefined): GeoPoint | null {
+  if (!value) {
+    return null;
+  }
+
+  let latitude: number;
+  let longitude: number;
+  try {
+    const parsed = JSON.parse(value);
+    latitude = Number(parsed.latitude ?? parsed.lat);
+    longitude = Number(parsed.longitude ?? parsed.lng ?? parsed.lon);
+  } catch {
+    [latitude, longitude] = value.split(",").map(part => parseFloat(part));
+  }
+
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+    return null;
+  }
+  return { latitude, longitude };
+}
+
+function getPickupPoint(request: TowRequest): GeoPoint | null {
+  if (request.pickupLatitude == null || request.pickupLongitude == null) {
+    return null;
+  }
+  return { latitude: parseFloat(request.pickupLatitude), longitude: parseFloat(request.pickupLongitude) };
+}
+
+/**
+ * Why a truck can't take this request, or undefined if it can
+ */
+function getTruckMismatch(truck: TowTruck, request: TowRequest): string | undefined {
+  if (!truck.isAvailable) {
+    return `Truck ${truck.truckNumber} is unavailable`;
+  }
+  if (request.serviceType !== "tow") {
+    return undefined;
+  }
+  const requirements = VEHICLE_SIZE_REQUIREMENTS[request.vehicleSize];
+  if (!requirements.towTypes.includes(truck.towType)) {
+    return `Truck ${truck.truckNumber} (${truck.towType}) can't tow ${request.vehicleSize} vehicles`;
+  }
+  if (truck.capacity < requirements.minCapacity) {
+    return `Truck ${truck.truckNumber} capacity ${truck.capacity} lbs is below ${requirements.minCapacity} lbs`;
+  }
+  return undefined;
+}
+
+function getDriverWarnings(driver: WreckerDriver, now: Date): string[] {
+  const warnings: string[] = [];
+  const daysToExpiry = Math.floor((driver.licenseExpiry.getTime() - now.getTime()) / DAY_MS);
+  if (daysToExpiry <= LICENSE_EXPIRY_WARNING_DAYS) {
+    warnings.push(`License expires in ${daysToExpiry} day(s)`);
+  }
+  if (!driver.licenseVerified) {
+    warnings.push("License not verified");
+  }
+  return warnings;
+}
+
+/**
+ * Price active third-party wreckers for the request, preferred companies first
+ */
+async function getThirdPartyCandidates(request: TowRequest, pickup: GeoPoint | null): Promise<ThirdPartyCandidate[]> {
+  let distance = request.estimatedDistance ? parseFloat(request.estimatedDistance) : 0;
+  if (!request.estimatedDistance && pickup && request.dropoffLatitude != null && request.dropoffLongitude != null) {
+    distance = getDistanceMiles(pickup, {
+      latitude: parseFloat(request.dropoffLatitude),
+      longitude: parseFloat(request.dropoffLongitude),
+    });
+  }
+  const estimatedDistance = Math.round(distance * 100) / 100;
+
+  const wreckers: ThirdPartyWrecker[] = await storage.getActiveThirdPartyWreckers();
+  return wreckers
+    .map(wrecker => ({
+      wreckerId: wrecker.id,
+      companyName: wrecker.companyName,
+      phone: wrecker.phone,
+      isPreferred: !!wrecker.isPreferred,
+      estimatedDistance,
+      estimatedPrice: Math.round((parseFloat(wrecker.baseRate) + estimatedDistance * parseFloat(wrecker.perMileRate)) * 100) / 100,
+    }))
+    .sort((a, b) => Number(b.isPreferred) - Number(a.isPreferred) || a.estimatedPrice - b.estimatedPrice);
+}
+
+/**
+ * Rank who should take a tow request
+ */
+export async function getDispatchRecommendation(request: TowRequest, now: Date = new Date()): Promise<DispatchRecommendation> {
+  const pickup = getPickupPoint(request);
+  const [drivers, trucks, workloads] = await Promise.all([
+    storage.getAvailableWreckerDrivers(),
+    storage.getAllTowTrucks(),
+    storage.getActiveTowRequestCountsByDriver(),
+  ]);
+  const latestPings = new Map<string, TowRequestLocation>(
+    (await storage.getLatestDriverLocations(drivers.map(driver => driver.id)))
+      .filter(ping => now.getTime() - ping.timestamp.getTime() <= GPS_PING_MAX_AGE_MS)
+      .map(ping => [ping.driverId, ping])
+  );
+
+  const trucksById = new Map<string, TowTruck>(trucks.map(truck => [truck.id, truck]));
+  const assignedTruckIds = new Set(drivers.map(driver => driver.assignedTruckId).filter(Boolean));
+  const freeTrucks = trucks.filter(truck => !assignedTruckIds.has(truck.id) && !getTruckMismatch(truck, request));
+
+  const candidates: DispatchCandidate[] = [];
+  const excluded: DispatchRecommendation["excluded"] = [];
+
+  for (const driver of drivers) {
+    if (driver.licenseExpiry < now) {
+      excluded.push({ driverId: driver.id, reason: "License expired" });
+      continue;
+    }
+
+    const ping = latestPings.get(driver.id);
+    const driverPoint = ping
+      ? { latitude: parseFloat(ping.latitude), longitude: parseFloat(ping.longitude) }
+      : null;
+
+    // A driver with their own truck takes it; others can take any free truck that fits
+    let truckOptions: TowTruck[];
+    if (driver.assignedTruckId) {
+      const truck = trucksById.get(driver.assignedTruckId);
+      const mismatch = truck ? getTruckMismatch(truck, request) : "Assigned truck not found";
+      if (mismatch || !truck) {
+        excluded.push({ driverId: driver.id, reason: mismatch || "Assigned truck not found" });
+        continue;
+      }
+      truckOptions = [truck];
+    } else if (freeTrucks.length > 0) {
+      truckOptions = freeTrucks;
+    } else {
+      excluded.push({ driverId: driver.id, reason: "No suitable truck available" });
+      continue;
+    }
+
+    const activeTows = workloads.get(driver.id) ?? 0;
+    const warnings = getDriverWarnings(driver, now);
+
+    for (const truck of truckOptions) {
+      const truckPoint = parseLocation(truck.currentLocation);
+      const fallbackPoint = parseLocation(driver.currentLocation);
+      const position = driverPoint ?? truckPoint ?? fallbackPoint;
+      const locationSource = driverPoint ? "gps" : truckPoint ? "truck" : fallbackPoint ? "driver" : null;
+      const distanceMiles = position && pickup ? Math.round(getDistanceMiles(position, pickup) * 100) / 100 : null;
+
+      candidates.push({
+        driverId: driver.id,
+        driverUserId: driver.userId,
+        truckId: truck.id,
+        truckNumber: truck.truckNumber,
+        towType: truck.towType,
+        capacity: truck.capacity,
+        distanceMiles,
+        locationSource,
+        activeTows,
+        score: Math.round(((distanceMiles ?? UNKNOWN_DISTANCE_MILES) + activeTows * WORKLOAD_PENALTY_MILES) * 100) / 100,
+        warnings,
+      });
+    }
+  }
+
+  candidates.sort((a, b) => a.score - b.score);
+
+  return {
+    towRequestId: request.id,
+    candidates,
+    excluded,
+    thirdParty: candidates.length === 0 ? await getThirdPartyCandidates(request, pickup) : [],
+  };
+}
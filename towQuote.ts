@@ -0,0 +1,148 @@
+/**
+ * Tow Quote Service
+ *
+ * Prices a tow from towPricingZones:
+ * - The zone is the highest-priority active zone whose GeoJSON boundary contains the
+ *   pickup point; zones without a boundary are the fallback
+ * - Distance is the great-circle distance from pickup to dropoff (0 for roadside
+ *   service without a dropoff point)
+ * - Base rate and distance charge are scaled by the zone's vehicleSizeMultipliers
+ * - After-hours (6pm-6am), weekend and emergency surcharges are added on top
+ *
+ * Request times are evaluated in the shop's timezone (appointment settings).
+ */
+
+import { storage } from "./storage";
+import type { TowPricingZone, TowQuoteRequest, TowZoneBoundary } from "@shared/schema";
+import { getZonedParts } from "./businessHours";
+
+const EARTH_RADIUS_MILES = 3958.8;
+const AFTER_HOURS_START = 18; // 6pm
+const AFTER_HOURS_END = 6; // 6am
+const DEFAULT_SIZE_MULTIPLIERS: Record<string, number> = { small: 1.0, medium: 1.5, large: 2.0, oversized: 3.0 };
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface TowQuote {
+  zoneId: string;
+  zoneCode: string;
+  zoneName: string;
+  distanceMiles: number;
+  vehicleSize: string;
+  sizeMultiplier: number;
+  basePrice: number;
+  distanceCharge: number;
+  surcharges: {
+    afterHours: number;
+    weekend: number;
+    emergency: number;
+    total: number;
+  };
+  totalPrice: number;
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Great-circle (haversine) distance between two points, in miles
+ */
+export function getDistanceMiles(from: GeoPoint, to: GeoPoint): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Ray-casting point-in-ring test; ring positions are GeoJSON [longitude, latitude]
+ */
+function isPointInRing(point: GeoPoint, ring: Array<[number, number]>): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    const crosses = (yi > point.latitude) !== (yj > point.latitude)
+      && point.longitude < ((xj - xi) * (point.latitude - yi)) / (yj - yi) + xi;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Whether a point lies inside a Polygon/MultiPolygon (outer ring minus any holes)
+ */
+export function isPointInBoundary(point: GeoPoint, boundary: TowZoneBoundary): boolean {
+  const polygons = boundary.type === "Polygon" ? [boundary.coordinates] : boundary.coordinates;
+  return polygons.some(([outer, ...holes]) =>
+    isPointInRing(point, outer) && !holes.some(hole => isPointInRing(point, hole))
+  );
+}
+
+/**
+ * Pick the pricing zone for a pickup point
+ */
+export async function resolvePricingZone(pickup: GeoPoint): Promise<TowPricingZone | undefined> {
+  const zones = (await storage.getActiveTowPricingZones())
+    .sort((a, b) => b.priority - a.priority);
+
+  return zones.find(zone => zone.boundary && isPointInBoundary(pickup, zone.boundary as TowZoneBoundary))
+    ?? zones.find(zone => !zone.boundary);
+}
+
+/**
+ * Quote a tow; throws if no zone covers the pickup point
+ */
+export async function quoteTow(input: TowQuoteRequest): Promise<TowQuote> {
+  const pickup = { latitude: input.pickupLatitude, longitude: input.pickupLongitude };
+  const zone = await resolvePricingZone(pickup);
+  if (!zone) {
+    throw new Error("No tow pricing zone covers the pickup location");
+  }
+
+  const hasDropoff = input.dropoffLatitude != null && input.dropoffLongitude != null;
+  const distanceMiles = hasDropoff
+    ? roundCurrency(getDistanceMiles(pickup, { latitude: input.dropoffLatitude!, longitude: input.dropoffLongitude! }))
+    : 0;
+
+  const multipliers = { ...DEFAULT_SIZE_MULTIPLIERS, ...((zone.vehicleSizeMultipliers as Record<string, number> | null) || {}) };
+  const sizeMultiplier = Number(multipliers[input.vehicleSize]) || 1;
+
+  const basePrice = roundCurrency(parseFloat(zone.baseRate) * sizeMultiplier);
+  const distanceCharge = roundCurrency(distanceMiles * parseFloat(zone.perMileRate) * sizeMultiplier);
+
+  // Surcharges depend on the shop's local time of the request
+  const settings = await storage.getAppointmentSettings();
+  const requestedAt = input.requestedAt ?? new Date();
+  const local = getZonedParts(requestedAt, settings.timezone);
+  const weekday = new Date(Date.UTC(local.year, local.month - 1, local.day)).getUTCDay();
+  const isAfterHours = local.hour >= AFTER_HOURS_START || local.hour < AFTER_HOURS_END;
+  const isWeekend = weekday === 0 || weekday === 6;
+
+  const afterHours = isAfterHours ? roundCurrency(parseFloat(zone.afterHoursSurcharge || "0")) : 0;
+  const weekend = isWeekend ? roundCurrency(parseFloat(zone.weekendSurcharge || "0")) : 0;
+  const emergency = input.urgency === "emergency" ? roundCurrency(parseFloat(zone.emergencySurcharge || "0")) : 0;
+  const surchargeTotal = roundCurrency(afterHours + weekend + emergency);
+
+  return {
+    zoneId: zone.id,
+    zoneCode: zone.zoneCode,
+    zoneName: zone.zoneName,
+    distanceMiles,
+    vehicleSize: input.vehicleSize,
+    sizeMultiplier,
+    basePrice,
+    distanceCharge,
+    surcharges: { afterHours, weekend, emergency, total: surchargeTotal },
+    totalPrice: roundCurrency(basePrice + distanceCharge + surchargeTotal),
+  };
+}
@@ -0,0 +1,169 @@
+/**
+ * Tow Request State Machine
+ *
+ * Allowed status transitions and who may make them:
+ * - staff (admin/manager/receptionist) run dispatch and are the only users who can complete a tow,
+ *   since completion finalizes the price
+ * - the assigned driver moves their own tow along: en route -> arrived -> towing
+ * - the customer can cancel until the truck is on its way
+ * - system (geofence events from GPS tracking) marks the truck arrived at the pickup and
+ *   completes the tow at the drop-off
+ *
+ * Every transition stamps its timestamp on the server, is recorded in
+ * towRequestStatusHistory and, when the customer cares about it, sends them a push notification.
+ * Completing a tow also bills it (see towBilling).
+ */
+
+import { storage } from "./storage";
+import type { InsertTowRequest, TowRequest, User } from "@shared/schema";
+import { pushNotificationService } from "./pushNotifications";
+import { billCompletedTow } from "./towBilling";
+import { publishTowStatus } from "./realtime";
+
+export type TowStatus = TowRequest["status"];
+export type TowActorType = "staff" | "driver" | "customer" | "system";
+
+export interface TowActor {
+  type: TowActorType;
+  userId?: string;
+}
+
+const STAFF_ROLES = ["admin", "manager", "receptionist"];
+
+const TRANSITIONS: Record<TowStatus, Partial<Record<TowStatus, TowActorType[]>>> = {
+  pending: { dispatched: ["staff"], cancelled: ["staff", "customer"] },
+  dispatched: { pending: ["staff"], en_route: ["staff", "driver"], cancelled: ["staff", "customer"] },
+  en_route: { arrived: ["staff", "driver", "system"], cancelled: ["staff"] },
+  arrived: { towing: ["staff", "driver"], completed: ["staff"], cancelled: ["staff"] },
+  towing: { completed: ["staff", "system"] },
+  completed: {},
+  cancelled: {},
+};
+
+// Transitions the customer gets a push notification for
+const CUSTOMER_NOTIFICATIONS: Partial<Record<TowStatus, "assigned" | "en_route" | "arrived" | "towing" | "completed" | "cancelled">> = {
+  dispatched: "assigned",
+  en_route: "en_route",
+  arrived: "arrived",
+  towing: "towing",
+  completed: "completed",
+  cancelled: "cancelled",
+};
+
+export class TowTransitionError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = "TowTransitionError";
+    Object.setPrototypeOf(this, TowTransitionError.prototype);
+  }
+}
+
+/**
+ * How a user relates to a tow request, or null if they have no say over it
+ */
+export async function getTowActor(user: User, request: TowRequest): Promise<TowActor | null> {
+  if (STAFF_ROLES.includes(user.role)) {
+    return { type: "staff", userId: user.id };
+  }
+
+  const driver = await storage.getWreckerDriverByUserId(user.id);
+  if (driver && driver.id === request.assignedDriverId) {
+    return { type: "driver", userId: user.id };
+  }
+  if (request.customerId === user.id) {
+    return { type: "customer", userId: user.id };
+  }
+  return null;
+}
+
+/**
+ * Statuses the actor can move the request to from its current status
+ */
+export function getAllowedTransitions(status: TowStatus, actor: TowActorType): TowStatus[] {
+  return (Object.entries(TRANSITIONS[status]) as Array<[TowStatus, TowActorType[]]>)
+    .filter(([, actors]) => actors.includes(actor))
+    .map(([next]) => next);
+}
+
+async function notifyCustomer(request: TowRequest): Promise<void> {
+  const type = CUSTOMER_NOTIFICATIONS[request.status];
+  const customer = type ? await storage.getUser(request.customerId) : undefined;
+  if (!type || !customer) {
+    return;
+  }
+
+  let driverName: string | undefined;
+  if (type === "assigned" && request.assignedDriverId) {
+    const driver = await storage.getWreckerDriver(request.assignedDriverId);
+    const driverUser = driver ? await storage.getUser(driver.userId) : null;
+    driverName = driverUser
+      ? `${driverUser.firstName || ''} ${driverUser.lastName || ''}`.trim() || driverUser.phone || undefined
+      : undefined;
+  }
+
+  const notification = pushNotificationService.createTowRequestNotification(type, { towRequestId: request.id, driverName });
+  await pushNotificationService.sendToUser(customer, notification);
+}
+
+/**
+ * Move a tow request to a new status.
+ * `updates` are applied in the same write (e.g. the assignment when dispatching).
+ */
+export async function transitionTowRequest(
+  request: TowRequest,
+  toStatus: TowStatus,
+  actor: TowActor,
+  options: { notes?: string; updates?: Partial<InsertTowRequest> } = {}
+): Promise<TowRequest> {
+  const allowedActors = TRANSITIONS[request.status][toStatus];
+  if (!allowedActors) {
+    throw new TowTransitionError(`Cannot change a ${request.status} tow request to ${toStatus}`);
+  }
+  if (!allowedActors.includes(actor.type)) {
+    throw new TowTransitionError(`A ${actor.type} cannot change a ${request.status} tow request to ${toStatus}`, 403);
+  }
+
+  const now = new Date();
+  const updates: Partial<InsertTowRequest> & { status: TowStatus } = { ...options.updates, status: toStatus };
+  if (toStatus === "dispatched") {
+    if (!(updates.assignedDriverId ?? request.assignedDriverId) && !(updates.thirdPartyWreckerId ?? request.thirdPartyWreckerId)) {
+      throw new TowTransitionError("Assign a driver or third-party wrecker before dispatching");
+    }
+    updates.dispatchedAt = now;
+  } else if (toStatus === "pending") {
+    // Back to the queue: drop the assignment
+    Object.assign(updates, { assignedDriverId: null, assignedTruckId: null, thirdPartyWreckerId: null, wreckerType: null, dispatchedAt: null });
+  } else if (toStatus === "arrived") {
+    updates.arrivedAt = now;
+  } else if (toStatus === "completed") {
+    updates.completedAt = now;
+  }
+
+  let updated = await storage.transitionTowRequestStatus(request.id, request.status, updates, {
+    changedBy: actor.userId ?? null,
+    actorType: actor.type,
+    notes: options.notes ?? null,
+  });
+  if (!updated) {
+    throw new TowTransitionError("Tow request was updated by someone else, please reload", 409);
+  }
+
+  if (toStatus === "completed") {
+    try {
+      updated = await billCompletedTow(updated, actor.userId);
+    } catch (error) {
+      // The tow is done either way; staff can retry with POST /api/tow-requests/:id/bill
+      console.error(`Failed to bill completed tow request ${updated.requestNumber}:`, error);
+    }
+  }
+
+  publishTowStatus(updated, request.status);
+
+  // The customer doesn't need to hear about their own cancellation
+  if (actor.type !== "customer") {
+    notifyCustomer(updated).catch(err => {
+      console.error(`Failed to send tow ${toStatus} notification:`, err);
+    });
+  }
+  return updated;
+}
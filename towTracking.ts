@@ -0,0 +1,219 @@
+/**
+ * Tow Tracking
+ *
+ * Turns the driver's raw GPS pings (towRequestLocations) into:
+ * - An ETA to the current target (pickup until arrival, then the drop-off), from the driver's
+ *   recent speed, how directly they are heading toward the target and the remaining distance.
+ *   The pickup ETA is written back to the request's estimatedArrival.
+ * - Geofence events: entering the pickup area marks an en-route tow as arrived, entering the
+ *   drop-off area completes a tow in progress
+ * - A compact payload for the customer app with the ETA and an encoded breadcrumb polyline
+ */
+
+import type { TowRequest, TowRequestLocation } from "@shared/schema";
+import { storage } from "./storage";
+import { getDistanceMiles, type GeoPoint } from "./towQuote";
+import { transitionTowRequest, type TowStatus } from "./towStatus";
+
+const MINUTE_MS = 60 * 1000;
+const GEOFENCE_RADIUS_MILES = 0.1; // ~160m
+const ROAD_DISTANCE_FACTOR = 1.3; // Roads are longer than the straight line
+const DEFAULT_SPEED_MPH = 30;
+const MIN_SPEED_MPH = 10; // Floor so stops at lights don't blow up the ETA
+const RECENT_WINDOW_MINUTES = 5;
+const RECENT_PING_LIMIT = 10;
+const BREADCRUMB_LIMIT = 200;
+
+export interface TowEta {
+  target: "pickup" | "dropoff";
+  distanceMiles: number;
+  speedMph: number;
+  etaMinutes: number;
+  estimatedArrival: Date;
+}
+
+export interface TowTrackingPayload {
+  towRequestId: string;
+  status: TowStatus;
+  position: {
+    latitude: number;
+    longitude: number;
+    heading: number | null;
+    speed: number | null;
+    timestamp: Date;
+  } | null;
+  eta: TowEta | null;
+  polyline: string; // Google encoded polyline, oldest point first
+}
+
+function toPoint(location: { latitude: string; longitude: string }): GeoPoint {
+  return { latitude: parseFloat(location.latitude), longitude: parseFloat(location.longitude) };
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Initial compass bearing (degrees) from one point to another
+ */
+function getBearing(from: GeoPoint, to: GeoPoint): number {
+  const dLon = toRadians(to.longitude - from.longitude);
+  const y = Math.sin(dLon) * Math.cos(toRadians(to.latitude));
+  const x = Math.cos(toRadians(from.latitude)) * Math.sin(toRadians(to.latitude))
+    - Math.sin(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.cos(dLon);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+/**
+ * Where the truck is headed next, or null once the status has no target
+ */
+function getTarget(request: TowRequest): { target: TowEta["target"]; point: GeoPoint } | null {
+  if (["dispatched", "en_route"].includes(request.status) && request.pickupLatitude && request.pickupLongitude) {
+    return { target: "pickup", point: toPoint({ latitude: request.pickupLatitude, longitude: request.pickupLongitude }) };
+  }
+  if (["arrived", "towing"].includes(request.status) && request.dropoffLatitude && request.dropoffLongitude) {
+    return { target: "dropoff", point: toPoint({ latitude: request.dropoffLatitude, longitude: request.dropoffLongitude }) };
+  }
+  return null;
+}
+
+/**
+ * Average recent speed in mph: reported speeds if the device sends them, otherwise
+ * distance covered between the recent pings
+ */
+function getRecentSpeed(recent: TowRequestLocation[]): number | null {
+  const reported = recent.filter(ping => ping.speed != null).map(ping => parseFloat(ping.speed!));
+  if (reported.length > 0) {
+    return reported.reduce((sum, speed) => sum + speed, 0) / reported.length;
+  }
+
+  if (recent.length < 2) {
+    return null;
+  }
+  const newest = recent[0];
+  const oldest = recent[recent.length - 1];
+  const hours = (newest.timestamp.getTime() - oldest.timestamp.getTime()) / (60 * MINUTE_MS);
+  return hours > 0 ? getDistanceMiles(toPoint(oldest), toPoint(newest)) / hours : null;
+}
+
+/**
+ * ETA to the request's current target from pings ordered newest first
+ */
+export function computeEta(request: TowRequest, locations: TowRequestLocation[], now: Date = new Date()): TowEta | null {
+  const target = getTarget(request);
+  const latest = locations[0];
+  if (!target || !latest) {
+    return null;
+  }
+
+  const position = toPoint(latest);
+  const distanceMiles = getDistanceMiles(position, target.point);
+  const recent = locations
+    .slice(0, RECENT_PING_LIMIT)
+    .filter(ping => latest.timestamp.getTime() - ping.timestamp.getTime() <= RECENT_WINDOW_MINUTES * MINUTE_MS);
+  const speed = getRecentSpeed(recent) ?? DEFAULT_SPEED_MPH;
+
+  // Only the part of the speed that closes in on the target counts, but a truck driving
+  // around a block is still getting there, so never count less than half
+  let closingSpeed = speed;
+  if (latest.heading != null && distanceMiles > GEOFENCE_RADIUS_MILES) {
+    const offCourse = toRadians(Math.abs(parseFloat(latest.heading) - getBearing(position, target.point)));
+    closingSpeed = speed * Math.max(Math.cos(offCourse), 0.5);
+  }
+  const speedMph = Math.max(closingSpeed, MIN_SPEED_MPH);
+
+  const etaMinutes = Math.ceil(((distanceMiles * ROAD_DISTANCE_FACTOR) / speedMph) * 60);
+  return {
+    target: target.target,
+    distanceMiles: Math.round(distanceMiles * 100) / 100,
+    speedMph: Math.round(speedMph),
+    etaMinutes,
+    estimatedArrival: new Date(now.getTime() + etaMinutes * MINUTE_MS),
+  };
+}
+
+/**
+ * Update ETA and fire geofence transitions after a new GPS ping
+ */
+export async function processLocationUpdate(request: TowRequest): Promise<{ request: TowRequest; eta: TowEta | null }> {
+  const locations = await storage.getTowRequestLocations(request.id, RECENT_PING_LIMIT);
+  const eta = computeEta(request, locations);
+  if (!eta) {
+    return { request, eta };
+  }
+
+  let updated = request;
+  if (eta.target === "pickup") {
+    updated = (await storage.updateTowRequest(request.id, { estimatedArrival: eta.estimatedArrival })) ?? request;
+  }
+
+  if (eta.distanceMiles <= GEOFENCE_RADIUS_MILES) {
+    const next: TowStatus | null = eta.target === "pickup" && updated.status === "en_route" ? "arrived"
+      : eta.target === "dropoff" && updated.status === "towing" ? "completed"
+      : null;
+    if (next) {
+      try {
+        updated = await transitionTowRequest(updated, next, { type: "system" }, {
+          notes: `Geofence: truck reached the ${eta.target === "pickup" ? "pickup" : "drop-off"} location`,
+        });
+      } catch (error) {
+        // Someone moved it first; the ping itself is still recorded
+        console.warn(`Geofence transition to ${next} skipped for tow request ${request.id}:`, (error as Error).message);
+      }
+    }
+  }
+
+  return { request: updated, eta };
+}
+
+/**
+ * Google encoded polyline (precision 5) for a list of points
+ */
+export function encodePolyline(points: GeoPoint[]): string {
+  let previousLat = 0;
+  let previousLng = 0;
+  let result = "";
+
+  const encodeValue = (value: number) => {
+    let shifted = value < 0 ? ~(value << 1) : value << 1;
+    while (shifted >= 0x20) {
+      result += String.fromCharCode((0x20 | (shifted & 0x1f)) + 63);
+      shifted >>= 5;
+    }
+    result += String.fromCharCode(shifted + 63);
+  };
+
+  for (const point of points) {
+    const lat = Math.round(point.latitude * 1e5);
+    const lng = Math.round(point.longitude * 1e5);
+    encodeValue(lat - previousLat);
+    encodeValue(lng - previousLng);
+    previousLat = lat;
+    previousLng = lng;
+  }
+  return result;
+}
+
+/**
+ * Compact live tracking view of a request for the customer app
+ */
+export async function getTrackingPayload(request: TowRequest): Promise<TowTrackingPayload> {
+  const locations = await storage.getTowRequestLocations(request.id, BREADCRUMB_LIMIT);
+  const latest = locations[0];
+
+  return {
+    towRequestId: request.id,
+    status: request.status,
+    position: latest
+      ? {
+        ...toPoint(latest),
+        heading: latest.heading != null ? parseFloat(latest.heading) : null,
+        speed: latest.speed != null ? parseFloat(latest.speed) : null,
+        timestamp: latest.timestamp,
+      }
+      : null,
+    eta: computeEta(request, locations),
+    polyline: encodePolyline(locations.map(toPoint).reverse()),
+  };
+}
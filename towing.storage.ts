@@ -9,7 +9,10 @@ import {
   and,
   or,
   desc,
+  asc,
   sql,
+  inArray,
+  count,
   // Towing-related tables
   towTrucks,
   wreckerDrivers,
@@ -21,6 +24,7 @@ import {
 // Import additional tables and types from schema
 import {
   towRequestLocations,
+  towRequestStatusHistory,
   towRequestSequence,
   type TowTruck,
   type InsertTowTruck,
@@ -34,6 +38,8 @@ import {
   type InsertTowRequest,
   type TowRequestLocation,
   type InsertTowRequestLocation,
+  type TowRequestStatusHistory,
+  type InsertTowRequestStatusHistory,
 } from "@shared/schema";
 
 class TowingStorage {
@@ -304,6 +310,23 @@ class TowingStorage {
       .orderBy(desc(towRequests.requestedAt));
   }
 
+  /**
+   * Number of in-progress (dispatched through towing) requests per assigned driver
+   */
+  async getActiveTowRequestCountsByDriver(): Promise<Map<string, number>> {
+    const rows = await db
+      .select({ driverId: towRequests.assignedDriverId, count: count() })
+      .from(towRequests)
+      .where(inArray(towRequests.status, ['dispatched', 'en_route', 'arrived', 'towing']))
+      .groupBy(towRequests.assignedDriverId);
+
+    const counts = new Map<string, number>();
+    for (const row of rows) {
+      if (row.driverId) counts.set(row.driverId, Number(row.count));
+    }
+    return counts;
+  }
+
   async createTowRequest(request: InsertTowRequest): Promise<TowRequest> {
     const [newRequest] = await db
       .insert(towRequests)
@@ -321,6 +344,34 @@ class TowingStorage {
     return updated;
   }
 
+  /**
+   * Bill a tow request under its row lock, so concurrent attempts run one at a time and each
+   * sees the invoice and vendor bill ids stored by the one before. `bill` gets the locked row
+   * and returns the ids of the documents it created, which are stored before the lock is released.
+   */
+  async billTowRequest(
+    id: string,
+    bill: (request: TowRequest) => Promise<{ invoiceId?: string; vendorBillId?: string }>
+  ): Promise<TowRequest | undefined> {
+    return await db.transaction(async (tx) => {
+      const [request] = await tx.select().from(towRequests).where(eq(towRequests.id, id)).for("update");
+      if (!request) {
+        return undefined;
+      }
+
+      const updates = await bill(request);
+      if (Object.keys(updates).length === 0) {
+        return request;
+      }
+      const [updated] = await tx
+        .update(towRequests)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(towRequests.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
   async deleteTowRequest(id: string): Promise<void> {
     await db.delete(towRequests).where(eq(towRequests.id, id));
   }
@@ -341,15 +392,67 @@ class TowingStorage {
   }
 
   // ========================================
-  // TOW REQUEST LOCATIONS
+  // TOW REQUEST STATUS HISTORY
   // ========================================
 
-  async getTowRequestLocations(requestId: string): Promise<TowRequestLocation[]> {
+  async getTowRequestStatusHistory(requestId: string): Promise<TowRequestStatusHistory[]> {
     return await db
+      .select()
+      .from(towRequestStatusHistory)
+      .where(eq(towRequestStatusHistory.towRequestId, requestId))
+      .orderBy(asc(towRequestStatusHistory.createdAt));
+  }
+
+  async createTowRequestStatusHistory(entry: InsertTowRequestStatusHistory): Promise<TowRequestStatusHistory> {
+    const [newEntry] = await db
+      .insert(towRequestStatusHistory)
+      .values(entry)
+      .returning();
+    return newEntry;
+  }
+
+  /**
+   * Move a request to a new status and record it in the history.
+   * Only applies if the request is still in `fromStatus`; returns undefined otherwise
+   * (e.g. someone else moved it first).
+   */
+  async transitionTowRequestStatus(
+    id: string,
+    fromStatus: TowRequest["status"],
+    updates: Partial<InsertTowRequest> & { status: TowRequest["status"] },
+    history: Omit<InsertTowRequestStatusHistory, "towRequestId" | "fromStatus" | "toStatus">
+  ): Promise<TowRequest | undefined> {
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(towRequests)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(and(eq(towRequests.id, id), eq(towRequests.status, fromStatus)))
+        .returning();
+      if (!updated) {
+        return undefined;
+      }
+
+      await tx.insert(towRequestStatusHistory).values({
+        ...history,
+        towRequestId: id,
+        fromStatus,
+        toStatus: updates.status,
+      });
+      return updated;
+    });
+  }
+
+  // ========================================
+  // TOW REQUEST LOCATIONS
+  // ========================================
+
+  async getTowRequestLocations(requestId: string, limit?: number): Promise<TowRequestLocation[]> {
+    const query = db
       .select()
       .from(towRequestLocations)
       .where(eq(towRequestLocations.towRequestId, requestId))
       .orderBy(desc(towRequestLocations.timestamp));
+    return limit ? await query.limit(limit) : await query;
   }
 
   async getLatestTowRequestLocation(requestId: string): Promise<TowRequestLocation | undefined> {
@@ -362,6 +465,20 @@ class TowingStorage {
     return location;
   }
 
+  /**
+   * Most recent GPS ping per driver, across all of their tow requests
+   */
+  async getLatestDriverLocations(driverIds: string[]): Promise<TowRequestLocation[]> {
+    if (driverIds.length === 0) {
+      return [];
+    }
+    return await db
+      .selectDistinctOn([towRequestLocations.driverId])
+      .from(towRequestLocations)
+      .where(inArray(towRequestLocations.driverId, driverIds))
+      .orderBy(towRequestLocations.driverId, desc(towRequestLocations.timestamp));
+  }
+
   async createTowRequestLocation(location: InsertTowRequestLocation): Promise<TowRequestLocation> {
     const [newLocation] = await db
       .insert(towRequestLocations)
@@ -94,6 +94,11 @@ export async function getUser(id: string): Promise<User | undefined> {
   return result[0];
 }
 
+export async function getUsersByIds(ids: string[]): Promise<User[]> {
+  if (ids.length === 0) return [];
+  return await db.select().from(users).where(inArray(users.id, ids));
+}
+
 export async function getUserByEmail(email: string): Promise<User | undefined> {
   const result = await db.select().from(users).where(eq(users.email, email)).limit(1);
   return result[0];
@@ -376,8 +381,10 @@ export async function searchCustomers(query: string, filters?: CustomerFilters):
         isActive: users.isActive,
         emailVerified: users.emailVerified,
         reviewRequestsEnabled: users.reviewRequestsEnabled,
+        marketingOptOut: users.marketingOptOut,
         paymentTerms: users.paymentTerms,
         creditLimit: users.creditLimit,
+        laborCostRate: users.laborCostRate,
         pushToken: users.pushToken,
         referralCode: users.referralCode,
         billingEmail: users.billingEmail,
@@ -8,6 +8,7 @@ import {
   eq,
   and,
   desc,
+  inArray,
   vehicles,
   maintenanceSchedules,
   vehicleDocuments,
@@ -22,6 +23,11 @@ export async function getVehicle(id: string): Promise<Vehicle | undefined> {
   return result[0];
 }
 
+export async function getVehiclesByIds(ids: string[]): Promise<Vehicle[]> {
+  if (ids.length === 0) return [];
+  return await db.select().from(vehicles).where(inArray(vehicles.id, ids));
+}
+
 export async function getAllVehicles(): Promise<Vehicle[]> {
   return await db.select().from(vehicles).orderBy(desc(vehicles.createdAt));
 }